@@ -1,30 +1,49 @@
 import React from "react";
 import { StyleSheet } from "react-native";
-import { NavigationContainer } from "@react-navigation/native";
+import { LinkingOptions, NavigationContainer } from "@react-navigation/native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { KeyboardProvider } from "react-native-keyboard-controller";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
+import { QueryClientProvider } from "@tanstack/react-query";
+import * as Linking from "expo-linking";
 
-import RootStackNavigator from "@/navigation/RootStackNavigator";
+import RootStackNavigator, {
+  RootStackParamList,
+} from "@/navigation/RootStackNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { GameProvider } from "@/lib/game-context";
+import { queryClient } from "@/lib/query-client";
+import { LEVEL_LINK_PATH } from "@/lib/share-code";
+
+// Links land on top of the main menu so going back stays inside the app
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL("/")],
+  config: {
+    initialRouteName: "MainMenu",
+    screens: {
+      SharedLevel: LEVEL_LINK_PATH,
+    },
+  },
+};
 
 export default function App() {
   return (
     <ErrorBoundary>
-      <GameProvider>
-        <SafeAreaProvider>
-          <GestureHandlerRootView style={styles.root}>
-            <KeyboardProvider>
-              <NavigationContainer>
-                <RootStackNavigator />
-              </NavigationContainer>
-              <StatusBar style="light" />
-            </KeyboardProvider>
-          </GestureHandlerRootView>
-        </SafeAreaProvider>
-      </GameProvider>
+      <QueryClientProvider client={queryClient}>
+        <GameProvider>
+          <SafeAreaProvider>
+            <GestureHandlerRootView style={styles.root}>
+              <KeyboardProvider>
+                <NavigationContainer linking={linking}>
+                  <RootStackNavigator />
+                </NavigationContainer>
+                <StatusBar style="light" />
+              </KeyboardProvider>
+            </GestureHandlerRootView>
+          </SafeAreaProvider>
+        </GameProvider>
+      </QueryClientProvider>
     </ErrorBoundary>
   );
 }
@@ -0,0 +1,86 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, GameModeColors } from "@/constants/theme";
+
+interface NumberPadProps {
+  onPress: (num: string) => void;
+  onDelete: () => void;
+  onSubmit: () => void;
+  disabled: boolean;
+}
+
+const KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "del", "0", "go"];
+
+export function NumberPad({
+  onPress,
+  onDelete,
+  onSubmit,
+  disabled,
+}: NumberPadProps) {
+  const { theme } = useTheme();
+
+  const handlePress = (key: string) => {
+    if (disabled) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (key === "del") {
+      onDelete();
+    } else if (key === "go") {
+      onSubmit();
+    } else {
+      onPress(key);
+    }
+  };
+
+  return (
+    <View style={styles.numpad}>
+      {KEYS.map((key) => (
+        <Pressable
+          key={key}
+          onPress={() => handlePress(key)}
+          disabled={disabled}
+          style={({ pressed }) => [
+            styles.numpadKey,
+            {
+              backgroundColor:
+                key === "go"
+                  ? GameModeColors.classic
+                  : key === "del"
+                    ? theme.backgroundTertiary
+                    : theme.backgroundSecondary,
+              opacity: disabled ? 0.5 : pressed ? 0.7 : 1,
+            },
+          ]}
+        >
+          {key === "del" ? (
+            <Feather name="delete" size={24} color={theme.text} />
+          ) : key === "go" ? (
+            <Feather name="check" size={24} color={theme.buttonText} />
+          ) : (
+            <ThemedText type="h3">{key}</ThemedText>
+          )}
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  numpad: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: Spacing.sm,
+  },
+  numpadKey: {
+    width: 80,
+    height: 60,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
@@ -0,0 +1,55 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { apiRequest, getQueryFn, queryClient } from "@/lib/query-client";
+import { AccountUser } from "@/lib/types";
+
+const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+export function useAuth() {
+  const { data, isLoading } = useQuery<{ user: AccountUser } | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onSignedIn = ({ user }: { user: AccountUser }) => {
+    queryClient.setQueryData(AUTH_QUERY_KEY, { user });
+  };
+
+  const login = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as { user: AccountUser };
+    },
+    onSuccess: onSignedIn,
+  });
+
+  const register = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/auth/register", credentials);
+      return (await res.json()) as { user: AccountUser };
+    },
+    onSuccess: onSignedIn,
+  });
+
+  const logout = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+    },
+  });
+
+  return {
+    user: data?.user ?? null,
+    isLoading,
+    login,
+    register,
+    logout,
+  };
+}
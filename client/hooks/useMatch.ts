@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { getApiUrl } from "@/lib/query-client";
+import { MatchClientMessage, MatchServerMessage, MatchView } from "@/lib/types";
+
+// Must match MATCH_SOCKET_PATH in server/match-service.ts
+const MATCH_SOCKET_PATH = "/api/match";
+
+// Backoff between reconnect attempts while a match or queue is live
+const RECONNECT_DELAYS = [1000, 2000, 4000, 8000];
+
+export type MatchPhase = "idle" | "queued" | "playing" | "finished";
+
+type JoinRequest = Omit<Extract<MatchClientMessage, { type: "join" }>, "type">;
+
+function getMatchSocketUrl(): string {
+  const url = new URL(MATCH_SOCKET_PATH, getApiUrl());
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return url.href;
+}
+
+export function useMatch() {
+  const [phase, setPhase] = useState<MatchPhase>("idle");
+  const [match, setMatch] = useState<MatchView | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const phaseRef = useRef<MatchPhase>("idle");
+  const joinRef = useRef<JoinRequest | null>(null);
+  const resumeRef = useRef<{ matchId: string; token: string } | null>(null);
+  const retryRef = useRef(0);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const updatePhase = (next: MatchPhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  };
+
+  const send = (message: MatchClientMessage) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const disconnect = useCallback(() => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+    setConnected(false);
+  }, []);
+
+  const connect = useCallback(() => {
+    if (socketRef.current) return;
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(getMatchSocketUrl());
+    } catch {
+      setError("Could not reach the match server");
+      updatePhase("idle");
+      return;
+    }
+    socketRef.current = socket;
+
+    const handleMessage = (message: MatchServerMessage) => {
+      switch (message.type) {
+        case "queued":
+          updatePhase("queued");
+          return;
+        case "match":
+          resumeRef.current = {
+            matchId: message.match.id,
+            token: message.token,
+          };
+          joinRef.current = null;
+          setMatch(message.match);
+          updatePhase(message.match.result ? "finished" : "playing");
+          return;
+        case "match_expired":
+          resumeRef.current = null;
+          setMatch(null);
+          setError("The match ended while you were away");
+          updatePhase("idle");
+          return;
+        case "error":
+          setError(message.message);
+          return;
+      }
+    };
+
+    socket.onopen = () => {
+      retryRef.current = 0;
+      setConnected(true);
+      // A dropped connection picks up where it left off
+      if (resumeRef.current && phaseRef.current === "playing") {
+        send({ type: "resume", ...resumeRef.current });
+      } else if (joinRef.current) {
+        send({ type: "join", ...joinRef.current });
+      }
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        handleMessage(JSON.parse(String(event.data)));
+      } catch {
+        // Ignore anything that is not a match message
+      }
+    };
+
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return;
+      socketRef.current = null;
+      setConnected(false);
+
+      const live =
+        phaseRef.current === "playing" || phaseRef.current === "queued";
+      if (!live) return;
+
+      const delay =
+        RECONNECT_DELAYS[
+          Math.min(retryRef.current, RECONNECT_DELAYS.length - 1)
+        ];
+      retryRef.current += 1;
+      retryTimerRef.current = setTimeout(connect, delay);
+    };
+  }, []);
+
+  const findMatch = useCallback(
+    (request: JoinRequest) => {
+      setError(null);
+      setMatch(null);
+      resumeRef.current = null;
+      joinRef.current = request;
+      updatePhase("queued");
+      if (socketRef.current?.readyState === WebSocket.OPEN) {
+        send({ type: "join", ...request });
+      } else {
+        connect();
+      }
+    },
+    [connect],
+  );
+
+  const leave = useCallback(() => {
+    if (phaseRef.current === "queued") send({ type: "leave" });
+    joinRef.current = null;
+    resumeRef.current = null;
+    updatePhase("idle");
+    setMatch(null);
+    disconnect();
+  }, [disconnect]);
+
+  const guess = useCallback((value: number) => {
+    if (!resumeRef.current) return;
+    setError(null);
+    send({ type: "guess", matchId: resumeRef.current.matchId, guess: value });
+  }, []);
+
+  const forfeit = useCallback(() => {
+    if (!resumeRef.current) return;
+    send({ type: "forfeit", matchId: resumeRef.current.matchId });
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      phaseRef.current = "idle";
+      disconnect();
+    };
+  }, [disconnect]);
+
+  return {
+    phase,
+    match,
+    connected,
+    error,
+    findMatch,
+    leave,
+    guess,
+    forfeit,
+  };
+}
@@ -0,0 +1,227 @@
+import { GameSource, LevelResult } from "./types";
+
+// Achievements are declared as rules and checked against each new result.
+// Only progress counters and unlock times are stored, so adding a rule
+// needs no save migration: it starts locked and counts from the next level.
+// Custom games are left out because their settings can be picked to farm
+// any of these.
+
+export type AchievementId =
+  | "first_win"
+  | "first_guess"
+  | "perfect_search"
+  | "quick_tactician"
+  | "deus_found"
+  | "strategic_streak"
+  | "veteran";
+
+export type AchievementRule =
+  // Unlocks the first time a result passes
+  | { kind: "once"; test: (result: LevelResult) => boolean }
+  // Unlocks once `goal` results have passed in total
+  | { kind: "count"; goal: number; test: (result: LevelResult) => boolean }
+  // Unlocks once `goal` results pass in a row. Results outside `counts`
+  // neither add to the run nor break it.
+  | {
+      kind: "streak";
+      goal: number;
+      counts: (result: LevelResult) => boolean;
+      test: (result: LevelResult) => boolean;
+    };
+
+export interface AchievementDefinition {
+  id: AchievementId;
+  title: string;
+  description: string;
+  // Feather icon name
+  icon: string;
+  rule: AchievementRule;
+}
+
+export interface AchievementState {
+  // Unlock time per achievement, taken from the result that earned it
+  unlocked: Partial<Record<AchievementId, number>>;
+  // Running totals and streaks for count and streak rules
+  progress: Partial<Record<AchievementId, number>>;
+}
+
+export interface AchievementStatus {
+  definition: AchievementDefinition;
+  progress: number;
+  goal: number;
+  unlockedAt: number | null;
+}
+
+// ceil(log2(range)) guesses, the bits it takes to single out the number.
+// When the range is a power of two this is one fewer than halving can need
+// (getBisectionAttempts), so the badge then takes a little luck.
+function getSearchBudget(result: LevelResult): number | null {
+  if (result.rangeMin === undefined || result.rangeMax === undefined) {
+    return null;
+  }
+  return Math.ceil(Math.log2(result.rangeMax - result.rangeMin + 1));
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first_win",
+    title: "First Steps",
+    description: "Win your first level",
+    icon: "flag",
+    rule: { kind: "once", test: (result) => result.won },
+  },
+  {
+    id: "first_guess",
+    title: "Mind Reader",
+    description: "Win a level with your first guess",
+    icon: "eye",
+    rule: {
+      kind: "once",
+      test: (result) => result.won && result.attemptsUsed === 1,
+    },
+  },
+  {
+    id: "perfect_search",
+    title: "By the Book",
+    description: "Win within the guesses halving the range needs",
+    icon: "git-branch",
+    rule: {
+      kind: "once",
+      test: (result) => {
+        const budget = getSearchBudget(result);
+        return result.won && budget !== null && result.attemptsUsed <= budget;
+      },
+    },
+  },
+  {
+    id: "quick_tactician",
+    title: "Quick Draw",
+    description: "Clear a Tactical level with more than half the time left",
+    icon: "clock",
+    rule: {
+      kind: "once",
+      test: (result) =>
+        result.won &&
+        result.gameMode === "tactical" &&
+        result.timeLimit !== null &&
+        result.timeUsed !== null &&
+        result.timeUsed < result.timeLimit / 2,
+    },
+  },
+  {
+    id: "deus_found",
+    title: "Divine Encounter",
+    description: "Find your way into Deus mode",
+    icon: "sun",
+    rule: { kind: "once", test: (result) => result.gameMode === "deus" },
+  },
+  {
+    id: "strategic_streak",
+    title: "Grand Strategist",
+    description: "Win 10 Strategic levels in a row",
+    icon: "shield",
+    rule: {
+      kind: "streak",
+      goal: 10,
+      counts: (result) => result.gameMode === "strategic",
+      test: (result) => result.won,
+    },
+  },
+  {
+    id: "veteran",
+    title: "Veteran",
+    description: "Win 50 levels",
+    icon: "star",
+    rule: { kind: "count", goal: 50, test: (result) => result.won },
+  },
+];
+
+export function createInitialAchievements(): AchievementState {
+  return { unlocked: {}, progress: {} };
+}
+
+function getGoal(rule: AchievementRule): number {
+  return rule.kind === "once" ? 1 : rule.goal;
+}
+
+function advance(rule: AchievementRule, progress: number, result: LevelResult) {
+  switch (rule.kind) {
+    case "once":
+      return rule.test(result) ? 1 : 0;
+    case "count":
+      return rule.test(result) ? progress + 1 : progress;
+    case "streak":
+      if (!rule.counts(result)) return progress;
+      return rule.test(result) ? progress + 1 : 0;
+  }
+}
+
+// Returns the same state when nothing changed, so callers can skip a save
+export function checkAchievements(
+  state: AchievementState,
+  result: LevelResult,
+  source: GameSource,
+): AchievementState {
+  if (source === "custom") return state;
+
+  let next = state;
+  for (const { id, rule } of ACHIEVEMENTS) {
+    if (next.unlocked[id] !== undefined) continue;
+
+    const before = next.progress[id] ?? 0;
+    const after = advance(rule, before, result);
+    const unlocked = after >= getGoal(rule);
+    if (after === before && !unlocked) continue;
+
+    next = {
+      unlocked: unlocked
+        ? { ...next.unlocked, [id]: result.completedAt }
+        : next.unlocked,
+      progress: { ...next.progress, [id]: after },
+    };
+  }
+  return next;
+}
+
+// For saves from before achievements, or ones whose record was damaged.
+// Only the latest daily result is kept, so earlier dailies are not counted.
+// Results are replayed oldest first so streaks come out as they were.
+export function rebuildAchievements(
+  history: LevelResult[],
+  lastDaily: LevelResult | null,
+): AchievementState {
+  return [...history, ...(lastDaily ? [lastDaily] : [])]
+    .sort((a, b) => a.completedAt - b.completedAt)
+    .reduce(
+      (state, result) => checkAchievements(state, result, "campaign"),
+      createInitialAchievements(),
+    );
+}
+
+export function getAchievementStatuses(
+  state: AchievementState,
+): AchievementStatus[] {
+  return ACHIEVEMENTS.map((definition) => {
+    const goal = getGoal(definition.rule);
+    const unlockedAt = state.unlocked[definition.id] ?? null;
+    return {
+      definition,
+      goal,
+      progress:
+        unlockedAt !== null
+          ? goal
+          : Math.min(goal, state.progress[definition.id] ?? 0),
+      unlockedAt,
+    };
+  });
+}
+
+// Achievements earned by this result, for announcing them as it finishes
+export function getUnlockedBy(
+  state: AchievementState,
+  result: LevelResult,
+): AchievementDefinition[] {
+  return ACHIEVEMENTS.filter(
+    ({ id }) => state.unlocked[id] === result.completedAt,
+  );
+}
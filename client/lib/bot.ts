@@ -0,0 +1,130 @@
+import { createPlayingState, getAttemptsLeft, reduceGame } from "./game-engine";
+import { narrowRange } from "./replay";
+import { SeededRandom } from "./seeded-random";
+import { findOptimalGuess, getFeasibleTargets } from "./solver";
+import { GameState, GuessResult, LevelParams } from "./types";
+
+// The computer opponent for versus rounds. It plays through the same reducer
+// as the player, so its hints come from getHint and it is held to the same
+// attempts and time limit. A whole bot round is played up front from a seed;
+// the Versus screen reveals each guess once its timestamp comes due.
+
+export type BotStrength = "random" | "bisect" | "optimal";
+
+export const BOT_STRENGTHS: BotStrength[] = ["random", "bisect", "optimal"];
+
+export type VersusWinner = "player" | "bot" | "draw";
+
+export interface VersusEntry {
+  won: boolean;
+  attempts: number;
+  // Milliseconds from the start of the round to the last guess
+  timeMs: number;
+}
+
+// Milliseconds the bot spends on each guess
+const THINK_TIME = { min: 2000, max: 5000 };
+
+export function getBotStrengthName(strength: BotStrength): string {
+  switch (strength) {
+    case "random":
+      return "Random";
+    case "bisect":
+      return "Bisection";
+    case "optimal":
+      return "Optimal";
+  }
+}
+
+// Keeps matches close: newer players face a bot that guesses at random
+export function getBotStrengthForSkill(skillLevel: number): BotStrength {
+  if (skillLevel >= 70) return "optimal";
+  if (skillLevel >= 35) return "bisect";
+  return "random";
+}
+
+export function chooseBotGuess(
+  level: LevelParams,
+  guesses: GuessResult[],
+  strength: BotStrength,
+  rng: SeededRandom,
+): number {
+  // The weaker bots only listen to higher and lower
+  const { low, high } = guesses.reduce(
+    (range, guess) => narrowRange(range.low, range.high, guess),
+    { low: level.rangeMin, high: level.rangeMax },
+  );
+  const midpoint = Math.floor((low + high) / 2);
+
+  switch (strength) {
+    case "random":
+      return rng.nextInt(low, high);
+    case "bisect":
+      return midpoint;
+    case "optimal": {
+      const feasible = getFeasibleTargets(level, guesses);
+      if (feasible.length === 0) return midpoint;
+      return findOptimalGuess(
+        feasible,
+        level.hintStyle,
+        level.maxAttempts - guesses.length - 1,
+      ).guess;
+    }
+  }
+}
+
+// Plays a full round starting at time 0
+export function playBotRound(
+  level: LevelParams,
+  strength: BotStrength,
+  seed: number,
+): GameState {
+  const rng = new SeededRandom(seed);
+  let state = createPlayingState(level, 0);
+  let now = 0;
+
+  while (state.outcome === null && getAttemptsLeft(state) > 0) {
+    now += rng.nextInt(THINK_TIME.min, THINK_TIME.max);
+    const guess = chooseBotGuess(level, state.currentGuesses, strength, rng);
+    const next = reduceGame(state, { type: "guess", guess, now });
+    if (next === state) {
+      // A rejected guess would loop forever; count it as running out of time
+      return reduceGame(state, { type: "timeout", now });
+    }
+    state = next;
+  }
+  return state;
+}
+
+// Bot guesses the player could have seen by this point of the round
+export function getRevealedGuesses(
+  bot: GameState,
+  elapsedMs: number,
+): GuessResult[] {
+  return bot.currentGuesses.filter((guess) => guess.timestamp <= elapsedMs);
+}
+
+export function getVersusEntry(state: GameState): VersusEntry {
+  const last = state.currentGuesses[state.currentGuesses.length - 1];
+  return {
+    won: state.outcome === "won",
+    attempts: state.currentGuesses.length,
+    timeMs: last ? last.timestamp - (state.startTime ?? 0) : 0,
+  };
+}
+
+// Fewer guesses wins; time only breaks a tie between two solved rounds
+export function decideVersus(
+  player: VersusEntry,
+  bot: VersusEntry,
+): VersusWinner {
+  if (player.won !== bot.won) return player.won ? "player" : "bot";
+  if (!player.won) return "draw";
+  if (player.attempts !== bot.attempts) {
+    return player.attempts < bot.attempts ? "player" : "bot";
+  }
+  if (player.timeMs !== bot.timeMs) {
+    return player.timeMs < bot.timeMs ? "player" : "bot";
+  }
+  return "draw";
+}
@@ -0,0 +1,111 @@
+import { generateLevel } from "./level-generator";
+import { LevelParams, LevelResult, SkillMetrics } from "./types";
+
+// Everyone plays the same level on a given UTC day: the seed comes from the
+// date and the generator sees a fixed player profile instead of the real one.
+
+export const DAILY_LEVEL_NUMBER = 8;
+
+export const DAILY_SKILL_BASELINE: SkillMetrics = {
+  skillLevel: 50,
+  successRate: 0.5,
+  consistencyScore: 0.5,
+  reactionSpeed: 0.5,
+  failureStreak: 0,
+  winStreak: 0,
+  difficultyModifier: 1.0,
+};
+
+export interface DailyChallengeState {
+  lastPlayedDate: string | null;
+  lastResult: LevelResult | null;
+  currentStreak: number;
+  bestStreak: number;
+}
+
+export function createInitialDailyState(): DailyChallengeState {
+  return {
+    lastPlayedDate: null,
+    lastResult: null,
+    currentStreak: 0,
+    bestStreak: 0,
+  };
+}
+
+export function getDailyDateKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function getPreviousDateKey(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return getDailyDateKey(date);
+}
+
+// FNV-1a over the date string, folded into SeededRandom's valid seed range.
+export function getDailySeed(dateKey: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < dateKey.length; i++) {
+    hash ^= dateKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return (hash % 2147483646) + 1;
+}
+
+export function generateDailyLevel(dateKey: string): LevelParams {
+  return generateLevel(
+    DAILY_LEVEL_NUMBER,
+    DAILY_SKILL_BASELINE,
+    getDailySeed(dateKey),
+  );
+}
+
+// A daily round saved on an earlier day is not today's challenge
+export function isDailyLevelFor(level: LevelParams, dateKey: string): boolean {
+  return level.seed === getDailySeed(dateKey);
+}
+
+export function hasPlayedDaily(
+  state: DailyChallengeState,
+  dateKey: string,
+): boolean {
+  return state.lastPlayedDate === dateKey;
+}
+
+export function recordDailyResult(
+  state: DailyChallengeState,
+  dateKey: string,
+  result: LevelResult,
+): DailyChallengeState {
+  if (hasPlayedDaily(state, dateKey)) return state;
+
+  const continuesStreak =
+    state.lastPlayedDate === getPreviousDateKey(dateKey) &&
+    state.currentStreak > 0;
+  const currentStreak = result.won
+    ? continuesStreak
+      ? state.currentStreak + 1
+      : 1
+    : 0;
+
+  return {
+    lastPlayedDate: dateKey,
+    lastResult: result,
+    currentStreak,
+    bestStreak: Math.max(state.bestStreak, currentStreak),
+  };
+}
+
+// A streak only survives if yesterday's challenge was won.
+export function getActiveDailyStreak(
+  state: DailyChallengeState,
+  dateKey: string,
+): number {
+  if (
+    state.lastPlayedDate === dateKey ||
+    state.lastPlayedDate === getPreviousDateKey(dateKey)
+  ) {
+    return state.currentStreak;
+  }
+  return 0;
+}
@@ -0,0 +1,37 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { DifficultyCalibration } from "./difficulty-calibration";
+import { setDifficultyWeights } from "./level-generator";
+import { apiRequest } from "./query-client";
+import { difficultyWeightsSchema } from "./save-schema";
+
+// The server publishes difficulty weights fitted to real outcomes. The last
+// ones fetched are kept so scores stay the same while offline.
+
+const WEIGHTS_KEY = "brain_cubes_difficulty_weights";
+
+export async function fetchDifficultyCalibration(): Promise<DifficultyCalibration> {
+  const res = await apiRequest("GET", "/api/difficulty");
+  return res.json();
+}
+
+export async function loadDifficultyWeights(): Promise<void> {
+  try {
+    const stored = await AsyncStorage.getItem(WEIGHTS_KEY);
+    const cached = difficultyWeightsSchema.safeParse(
+      stored ? JSON.parse(stored) : null,
+    );
+    if (cached.success) setDifficultyWeights(cached.data);
+  } catch (error) {
+    console.warn("Failed to read cached difficulty weights", error);
+  }
+
+  try {
+    const { weights } = await fetchDifficultyCalibration();
+    const parsed = difficultyWeightsSchema.safeParse(weights);
+    if (!parsed.success) return;
+    setDifficultyWeights(parsed.data);
+    await AsyncStorage.setItem(WEIGHTS_KEY, JSON.stringify(parsed.data));
+  } catch (error) {
+    console.warn("Failed to fetch difficulty weights", error);
+  }
+}
@@ -0,0 +1,250 @@
+import {
+  DEFAULT_DIFFICULTY_WEIGHTS,
+  calculateDifficultyScore,
+  getDifficultyFeatures,
+} from "./level-generator";
+import { createInitialRating, getWinLogit } from "./rating";
+import { DifficultyWeights, LevelResult } from "./types";
+
+// Fits the weights of calculateDifficultyScore to how often levels are
+// actually won. A score is read through the rating model: a level's win
+// probability is that of a new (1500) player against it, so a score of 100
+// should be won about half the time. The fit is a logistic regression on
+// the level properties, pulled toward the hand-set weights so a thin corpus
+// cannot move them far.
+
+export interface CalibrationSample {
+  rangeSize: number;
+  maxAttempts: number;
+  timeLimit: number | null;
+  won: boolean;
+}
+
+export interface CalibrationBucket {
+  // Scores from minScore up to but not including maxScore
+  minScore: number;
+  maxScore: number;
+  count: number;
+  // Mean predicted win probability of the bucket's levels
+  predicted: number;
+  // Share of them that were won
+  observed: number;
+}
+
+export interface DifficultyCalibration {
+  weights: DifficultyWeights;
+  // Results the weights were fitted to; 0 means the defaults are in use
+  sampleSize: number;
+  fittedAt: number;
+  report: CalibrationBucket[];
+}
+
+// Fewer results than this keep the default weights
+export const MIN_CALIBRATION_SAMPLES = 200;
+// How many results' worth of evidence the hand-set weights count for
+const PRIOR_STRENGTH = 50;
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 0.000001;
+const BUCKET_SIZE = 10;
+
+const WEIGHT_KEYS: (keyof DifficultyWeights)[] = [
+  "base",
+  "range",
+  "attempts",
+  "time",
+];
+
+export function toCalibrationSample(
+  result: LevelResult,
+): CalibrationSample | null {
+  if (result.rangeMin === undefined || result.rangeMax === undefined) {
+    return null;
+  }
+  return {
+    rangeSize: result.rangeMax - result.rangeMin + 1,
+    maxAttempts: result.maxAttempts,
+    timeLimit: result.timeLimit,
+    won: result.won,
+  };
+}
+
+function getInputs(sample: CalibrationSample): number[] {
+  return [
+    1,
+    ...getDifficultyFeatures(
+      sample.rangeSize,
+      sample.maxAttempts,
+      sample.timeLimit,
+    ),
+  ];
+}
+
+function toVector(weights: DifficultyWeights): number[] {
+  return WEIGHT_KEYS.map((key) => weights[key]);
+}
+
+function toWeights(vector: number[]): DifficultyWeights {
+  const [base, range, attempts, time] = vector;
+  return { base, range, attempts, time };
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+// Gaussian elimination with partial pivoting; null when singular
+function solve(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  const result = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * result[k];
+    result[row] = sum / rows[row][row];
+  }
+  return result;
+}
+
+// Maximises the penalised log-likelihood with Newton's method. The win
+// logit is intercept + slope * score, and the score is linear in the
+// weights, so this is an ordinary logistic regression on the inputs.
+export function fitDifficultyWeights(
+  samples: CalibrationSample[],
+  prior: DifficultyWeights = DEFAULT_DIFFICULTY_WEIGHTS,
+): DifficultyWeights {
+  const newPlayer = createInitialRating();
+  const intercept = getWinLogit(newPlayer, 0);
+  const slope = getWinLogit(newPlayer, 1) - intercept;
+
+  const inputs = samples.map(getInputs);
+  const outcomes = samples.map((sample) => (sample.won ? 1 : 0));
+  const priorVector = toVector(prior);
+  // A sample at even odds carries slope^2 / 4 of information per unit of
+  // input squared, so scaling by the mean square spreads the prior evenly
+  const penalties = priorVector.map((_, j) => {
+    const meanSquare =
+      inputs.reduce((sum, x) => sum + x[j] * x[j], 0) /
+      Math.max(1, inputs.length);
+    return (PRIOR_STRENGTH * slope * slope * Math.max(1, meanSquare)) / 4;
+  });
+
+  let theta = [...priorVector];
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const gradient = theta.map(
+      (value, j) => -penalties[j] * (value - priorVector[j]),
+    );
+    const hessian = theta.map((_, i) =>
+      theta.map((_, j) => (i === j ? penalties[i] : 0)),
+    );
+
+    inputs.forEach((x, n) => {
+      const score = x.reduce((sum, input, j) => sum + input * theta[j], 0);
+      const p = sigmoid(intercept + slope * score);
+      const curvature = p * (1 - p) * slope * slope;
+      x.forEach((xi, i) => {
+        gradient[i] += (outcomes[n] - p) * slope * xi;
+        x.forEach((xj, j) => {
+          hessian[i][j] += curvature * xi * xj;
+        });
+      });
+    });
+
+    const step = solve(hessian, gradient);
+    if (!step) break;
+    theta = theta.map((value, j) => value + step[j]);
+    if (step.every((s) => Math.abs(s) < CONVERGENCE)) break;
+  }
+  return toWeights(theta);
+}
+
+export function predictWinRate(difficultyScore: number): number {
+  return sigmoid(getWinLogit(createInitialRating(), difficultyScore));
+}
+
+export function buildCalibrationReport(
+  samples: CalibrationSample[],
+  weights: DifficultyWeights,
+): CalibrationBucket[] {
+  const buckets = new Map<
+    number,
+    { count: number; predicted: number; wins: number }
+  >();
+  for (const sample of samples) {
+    const score = calculateDifficultyScore(
+      sample.rangeSize,
+      sample.maxAttempts,
+      sample.timeLimit,
+      weights,
+    );
+    const key = Math.floor(score / BUCKET_SIZE) * BUCKET_SIZE;
+    const bucket = buckets.get(key) ?? { count: 0, predicted: 0, wins: 0 };
+    bucket.count++;
+    bucket.predicted += predictWinRate(score);
+    bucket.wins += sample.won ? 1 : 0;
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([minScore, bucket]) => ({
+      minScore,
+      maxScore: minScore + BUCKET_SIZE,
+      count: bucket.count,
+      predicted: bucket.predicted / bucket.count,
+      observed: bucket.wins / bucket.count,
+    }));
+}
+
+export function calibrateDifficulty(
+  samples: CalibrationSample[],
+  now: number = Date.now(),
+): DifficultyCalibration {
+  const fitted = samples.length >= MIN_CALIBRATION_SAMPLES;
+  const weights = fitted
+    ? fitDifficultyWeights(samples)
+    : DEFAULT_DIFFICULTY_WEIGHTS;
+  return {
+    weights,
+    sampleSize: fitted ? samples.length : 0,
+    fittedAt: now,
+    report: buildCalibrationReport(samples, weights),
+  };
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`.padStart(9);
+}
+
+// A plain-text table for logs
+export function formatCalibrationReport(
+  calibration: DifficultyCalibration,
+): string {
+  const { weights } = calibration;
+  const header = [
+    calibration.sampleSize > 0
+      ? `Difficulty weights fitted to ${calibration.sampleSize} results`
+      : "Difficulty weights at their defaults (too few results to fit)",
+    `  base ${weights.base.toFixed(2)}, range ${weights.range.toFixed(2)}, ` +
+      `attempts ${weights.attempts.toFixed(2)}, time ${weights.time.toFixed(2)}`,
+    "  score      count  predicted  observed",
+  ];
+  const rows = calibration.report.map(
+    (bucket) =>
+      `  ${`${bucket.minScore}-${bucket.maxScore - 1}`.padEnd(9)}` +
+      `${bucket.count.toString().padStart(7)}` +
+      `${percent(bucket.predicted)}  ${percent(bucket.observed)}`,
+  );
+  return [...header, ...rows].join("\n");
+}
@@ -0,0 +1,127 @@
+import { calculateDifficultyScore } from "./level-generator";
+import { createInitialRating, getWinLogit } from "./rating";
+import { DifficultyPreset, LevelResult } from "./types";
+
+// Keeps campaign levels near a target win rate. The last few results give
+// an estimate of the difficulty score the player beats half the time, read
+// through the rating model, which says how much the odds of winning move per
+// point of difficulty. From there the score they would beat at the target
+// rate is one step away, and the generator moves range, attempts and time
+// limit toward it. Nothing is stored: the target is worked out from the
+// history each time.
+
+export interface DifficultyPresetInfo {
+  name: string;
+  description: string;
+  targetWinRate: number;
+}
+
+export const DIFFICULTY_PRESETS: Record<
+  DifficultyPreset,
+  DifficultyPresetInfo
+> = {
+  relaxed: {
+    name: "Relaxed",
+    description: "Levels ease off until you win about 85% of them",
+    targetWinRate: 0.85,
+  },
+  balanced: {
+    name: "Balanced",
+    description: "Levels adjust so you win about 70% of them",
+    targetWinRate: 0.7,
+  },
+  brutal: {
+    name: "Brutal",
+    description: "Levels push back until you win only half of them",
+    targetWinRate: 0.5,
+  },
+};
+
+export const DIFFICULTY_PRESET_ORDER: DifficultyPreset[] = [
+  "relaxed",
+  "balanced",
+  "brutal",
+];
+
+export const FLOW_WINDOW = 10;
+// The window also counts this many results won at the target rate on levels
+// of its average score, so a short or lopsided window moves the target by
+// steps rather than leaps
+const PRIOR_RESULTS = 3;
+// Widest search for the player's even-odds score around the window's average
+const SEARCH_SPAN = 300;
+const CONVERGENCE = 0.01;
+
+function logit(p: number): number {
+  return Math.log(p / (1 - p));
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+// Win log-odds lost per point of difficulty; the same for every player
+function getLogitPerPoint(): number {
+  const newPlayer = createInitialRating();
+  return getWinLogit(newPlayer, 0) - getWinLogit(newPlayer, 1);
+}
+
+function getResultScore(result: LevelResult): number | null {
+  if (result.rangeMin === undefined || result.rangeMax === undefined) {
+    return null;
+  }
+  return calculateDifficultyScore(
+    result.rangeMax - result.rangeMin + 1,
+    result.maxAttempts,
+    result.timeLimit,
+  );
+}
+
+// The difficulty score at which the player's odds are even, fitted to the
+// window by maximum likelihood. Expected wins fall as the score rises, so
+// the fit is a bisection on expected minus actual wins. Null before any
+// result with a known level.
+export function getEvenOddsScore(
+  history: LevelResult[],
+  targetWinRate: number,
+): number | null {
+  const window = history
+    .slice(-FLOW_WINDOW)
+    .map((result) => ({ score: getResultScore(result), won: result.won }))
+    .filter(
+      (entry): entry is { score: number; won: boolean } => entry.score !== null,
+    );
+  if (window.length === 0) return null;
+
+  const k = getLogitPerPoint();
+  const averageScore =
+    window.reduce((sum, entry) => sum + entry.score, 0) / window.length;
+  const wins =
+    window.filter((entry) => entry.won).length + targetWinRate * PRIOR_RESULTS;
+  const expectedWins = (ability: number) =>
+    window.reduce(
+      (sum, entry) => sum + sigmoid(k * (ability - entry.score)),
+      PRIOR_RESULTS * sigmoid(k * (ability - averageScore)),
+    );
+
+  let low = averageScore - SEARCH_SPAN;
+  let high = averageScore + SEARCH_SPAN;
+  while (high - low > CONVERGENCE) {
+    const mid = (low + high) / 2;
+    if (expectedWins(mid) < wins) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+// The difficulty score the next campaign level should aim for, or undefined
+// when there is nothing to go on yet and the campaign's own curve applies
+export function getFlowTarget(
+  history: LevelResult[],
+  preset: DifficultyPreset,
+): number | undefined {
+  const { targetWinRate } = DIFFICULTY_PRESETS[preset];
+  const evenOdds = getEvenOddsScore(history, targetWinRate);
+  if (evenOdds === null) return undefined;
+  return Math.round(evenOdds - logit(targetWinRate) / getLogitPerPoint());
+}
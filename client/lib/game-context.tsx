@@ -1,6 +1,5 @@
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from "react";
 import * as Haptics from "expo-haptics";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import {
   GameState,
   LevelParams,
@@ -9,6 +8,7 @@ import {
   SkillMetrics,
   GuessResult,
   PlayerProfile,
+  ProgressSnapshot,
   LevelParams as LevelType,
 } from "./types";
 import {
@@ -16,27 +16,72 @@ import {
   createInitialSkillMetrics,
   updateStatsWithResult,
   calculateSkillMetrics,
-  calculateLevelAccuracy,
-  calculateLevelAccuracy as calcAccuracy,
 } from "./skill-model";
-import { generateLevel, getHint } from "./level-generator";
-
-const STORAGE_KEYS = {
-  STATS: "brain_cubes_stats",
-  METRICS: "brain_cubes_metrics",
-  HISTORY: "brain_cubes_history",
-  PROFILE: "brain_cubes_profile",
-  LEVEL_NUMBER: "brain_cubes_level_number",
-};
+import {
+  CUSTOM_LEVEL_NUMBER,
+  createCustomLevel,
+  generateLevel,
+  getCustomSettings,
+} from "./level-generator";
+import {
+  DAILY_LEVEL_NUMBER,
+  DailyChallengeState,
+  createInitialDailyState,
+  generateDailyLevel,
+  getDailyDateKey,
+  hasPlayedDaily,
+  isDailyLevelFor,
+  recordDailyResult,
+} from "./daily-challenge";
+import {
+  GameAction,
+  createIdleState,
+  createLevelResult,
+  isRunning,
+  reduceGame,
+} from "./game-engine";
+import {
+  AchievementState,
+  checkAchievements,
+  createInitialAchievements,
+} from "./achievements";
+import {
+  PlayerRatings,
+  createInitialRatings,
+  getRatedSkillMetrics,
+  rebuildRatings,
+  updateRatings,
+} from "./rating";
+import { loadDifficultyWeights } from "./difficulty-api";
+import { getFlowTarget } from "./flow-controller";
+import { mergeProgress } from "./progress-sync";
+import { pushProgress } from "./sync-api";
+import {
+  clearSave,
+  createInitialProfile,
+  loadSave,
+  writeSave,
+} from "./persistence";
+import {
+  ExportedProgress,
+  ProgressExport,
+  createProgressExport,
+} from "./progress-export";
 
 interface GameContextValue {
   gameState: GameState;
   playerStats: PlayerStats;
   skillMetrics: SkillMetrics;
   levelHistory: LevelResult[];
+  customHistory: LevelResult[];
   profile: PlayerProfile;
+  dailyChallenge: DailyChallengeState;
+  achievements: AchievementState;
+  ratings: PlayerRatings;
   
   startNewGame: () => void;
+  startDailyChallenge: () => boolean;
+  startCustomGame: (level: LevelParams) => void;
   continueGame: () => void;
   makeGuess: (guess: number) => GuessResult;
   pauseGame: () => void;
@@ -46,6 +91,10 @@ interface GameContextValue {
   
   updateProfile: (updates: Partial<PlayerProfile>) => void;
   resetProgress: () => void;
+  syncProgress: () => Promise<boolean>;
+  exportProgress: () => ProgressExport;
+  importProgress: (data: ExportedProgress) => void;
+  lastSyncedAt: number | null;
   
   hasSavedGame: boolean;
   currentLevelNumber: number;
@@ -53,99 +102,111 @@ interface GameContextValue {
 
 const GameContext = createContext<GameContextValue | null>(null);
 
-const initialGameState: GameState = {
-  currentLevel: null,
-  currentGuesses: [],
-  isPlaying: false,
-  isPaused: false,
-  startTime: null,
-  elapsedTime: 0,
-};
-
-const initialProfile: PlayerProfile = {
-  displayName: "Player",
-  avatarId: 0,
-  soundEnabled: true,
-  hapticsEnabled: true,
-};
+const initialGameState: GameState = createIdleState();
+
+// Oldest custom results are dropped past this many
+const CUSTOM_HISTORY_LIMIT = 100;
 
 export function GameProvider({ children }: { children: React.ReactNode }) {
   const [gameState, setGameState] = useState<GameState>(initialGameState);
   const [playerStats, setPlayerStats] = useState<PlayerStats>(createInitialStats);
   const [skillMetrics, setSkillMetrics] = useState<SkillMetrics>(createInitialSkillMetrics);
   const [levelHistory, setLevelHistory] = useState<LevelResult[]>([]);
-  const [profile, setProfile] = useState<PlayerProfile>(initialProfile);
+  const [customHistory, setCustomHistory] = useState<LevelResult[]>([]);
+  const [profile, setProfile] = useState<PlayerProfile>(createInitialProfile);
   const [currentLevelNumber, setCurrentLevelNumber] = useState(1);
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallengeState>(
+    createInitialDailyState,
+  );
+  const [achievements, setAchievements] = useState<AchievementState>(
+    createInitialAchievements,
+  );
+  const [ratings, setRatings] = useState<PlayerRatings>(createInitialRatings);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
   
+  // Set when stored data could not be read at all, so defaults are never
+  // written over progress that may still be there
+  const saveBlockedRef = useRef(false);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Campaign round set aside while a daily challenge or custom game occupies
+  // the board
+  const suspendedCampaignRef = useRef<GameState | null>(null);
+  // Latest local progress, read when a sync response arrives so results
+  // finished while the request was in flight are not dropped
+  const progressRef = useRef<ProgressSnapshot | null>(null);
+  const { accountId, ...syncedProfile } = profile;
+  progressRef.current = {
+    stats: playerStats,
+    metrics: skillMetrics,
+    history: levelHistory,
+    profile: syncedProfile,
+    levelNumber: currentLevelNumber,
+  };
+
+  const dispatch = useCallback((action: GameAction) => {
+    setGameState((prev) => reduceGame(prev, action));
+  }, []);
   
   // Save data when it changes
   useEffect(() => {
-    if (!isLoaded) return;
-    const saveData = async () => {
-      try {
-        const statsStr = JSON.stringify(playerStats);
-        const metricsStr = JSON.stringify(skillMetrics);
-        const historyStr = JSON.stringify(levelHistory);
-        const profileStr = JSON.stringify(profile);
-        const levelNumStr = currentLevelNumber.toString();
-        const gameStateStr = gameState.currentLevel ? JSON.stringify(gameState) : null;
-
-        await AsyncStorage.multiSet([
-          [STORAGE_KEYS.STATS, statsStr],
-          [STORAGE_KEYS.METRICS, metricsStr],
-          [STORAGE_KEYS.HISTORY, historyStr],
-          [STORAGE_KEYS.PROFILE, profileStr],
-          [STORAGE_KEYS.LEVEL_NUMBER, levelNumStr],
-        ]);
-        
-        if (gameStateStr) {
-          await AsyncStorage.setItem("brain_cubes_saved_game_state", gameStateStr);
-        } else {
-          await AsyncStorage.removeItem("brain_cubes_saved_game_state");
-        }
-        
-        // Mobile flush
-        if (typeof AsyncStorage.flushGetRequests === 'function') {
-          AsyncStorage.flushGetRequests();
-        }
-      } catch (error) {
-        console.error("Failed to save game data", error);
-      }
-    };
-    saveData();
-  }, [playerStats, skillMetrics, levelHistory, profile, currentLevelNumber, isLoaded, gameState]);
+    if (!isLoaded || saveBlockedRef.current) return;
+    writeSave({
+      stats: playerStats,
+      metrics: skillMetrics,
+      history: levelHistory,
+      customHistory,
+      profile,
+      levelNumber: currentLevelNumber,
+      daily: dailyChallenge,
+      achievements,
+      ratings,
+      lastSyncedAt,
+      savedGame: gameState.currentLevel ? gameState : null,
+    }).catch((error) => {
+      console.error("Failed to save game data", error);
+    });
+  }, [
+    playerStats,
+    skillMetrics,
+    levelHistory,
+    customHistory,
+    profile,
+    currentLevelNumber,
+    dailyChallenge,
+    achievements,
+    ratings,
+    lastSyncedAt,
+    isLoaded,
+    gameState,
+  ]);
 
   // Load data on mount
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [stats, metrics, history, prof, levelNum, savedState] = await Promise.all([
-          AsyncStorage.getItem(STORAGE_KEYS.STATS),
-          AsyncStorage.getItem(STORAGE_KEYS.METRICS),
-          AsyncStorage.getItem(STORAGE_KEYS.HISTORY),
-          AsyncStorage.getItem(STORAGE_KEYS.PROFILE),
-          AsyncStorage.getItem(STORAGE_KEYS.LEVEL_NUMBER),
-          AsyncStorage.getItem("brain_cubes_saved_game_state"),
-        ]);
-
-        if (stats) setPlayerStats(JSON.parse(stats));
-        if (metrics) setSkillMetrics(JSON.parse(metrics));
-        if (history) setLevelHistory(JSON.parse(history));
-        if (prof) setProfile(JSON.parse(prof));
-        if (levelNum) setCurrentLevelNumber(parseInt(levelNum, 10));
+        const save = await loadSave();
+        setPlayerStats(save.stats);
+        setSkillMetrics(save.metrics);
+        setLevelHistory(save.history);
+        setCustomHistory(save.customHistory);
+        setProfile(save.profile);
+        setCurrentLevelNumber(save.levelNumber);
+        setDailyChallenge(save.daily);
+        setAchievements(save.achievements);
+        setRatings(save.ratings);
+        setLastSyncedAt(save.lastSyncedAt);
         
-        if (savedState) {
-          const parsedState = JSON.parse(savedState);
+        if (save.savedGame) {
           // Only restore if it was actually playing or paused
           setGameState({
-            ...parsedState,
+            ...save.savedGame,
             isPlaying: false, // Start as not playing so user has to "Continue"
             isPaused: false,
           });
         }
       } catch (error) {
+        saveBlockedRef.current = true;
         console.error("Failed to load game data", error);
       } finally {
         setIsLoaded(true);
@@ -154,13 +215,17 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     loadData();
   }, []);
 
+  // Difficulty scores switch to the server's calibrated weights once fetched
   useEffect(() => {
-    if (gameState.isPlaying && !gameState.isPaused && gameState.startTime) {
+    loadDifficultyWeights();
+  }, []);
+
+  const isTimerRunning = isRunning(gameState) && gameState.startTime !== null;
+
+  useEffect(() => {
+    if (isTimerRunning) {
       timerRef.current = setInterval(() => {
-        setGameState(prev => ({
-          ...prev,
-          elapsedTime: Math.floor((Date.now() - (prev.startTime || Date.now())) / 1000),
-        }));
+        dispatch({ type: "tick", now: Date.now() });
       }, 1000);
     }
     
@@ -170,7 +235,7 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
         timerRef.current = null;
       }
     };
-  }, [gameState.isPlaying, gameState.isPaused, gameState.startTime]);
+  }, [isTimerRunning, gameState.startTime, dispatch]);
   
   const triggerHaptic = useCallback((type: "success" | "error" | "light") => {
     if (!profile.hapticsEnabled) return;
@@ -188,52 +253,204 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     }
   }, [profile.hapticsEnabled]);
   
+  // A daily round left from an earlier day is dropped rather than resumed or
+  // forfeited, so it cannot use up today's attempt
+  const hasStaleDaily =
+    gameState.source === "daily" &&
+    gameState.currentLevel !== null &&
+    !isDailyLevelFor(gameState.currentLevel, getDailyDateKey());
+
+  // Walking away from an unfinished daily challenge uses up the day's attempt
+  const forfeitUnfinishedDaily = useCallback(() => {
+    if (gameState.source !== "daily" || gameState.outcome !== null) return;
+    if (hasStaleDaily) return;
+
+    const forfeited = createLevelResult(
+      reduceGame(gameState, { type: "timeout", now: Date.now() }),
+      DAILY_LEVEL_NUMBER,
+      Date.now(),
+    );
+    if (forfeited) {
+      setDailyChallenge((prev) =>
+        recordDailyResult(prev, getDailyDateKey(), forfeited),
+      );
+    }
+  }, [gameState, hasStaleDaily]);
+
   const startNewGame = useCallback(() => {
-    const newLevel = generateLevel(1, skillMetrics);
+    forfeitUnfinishedDaily();
+    suspendedCampaignRef.current = null;
+
+    const newLevel = generateLevel(
+      1,
+      skillMetrics,
+      undefined,
+      getFlowTarget(levelHistory, profile.difficultyPreset),
+    );
     setCurrentLevelNumber(1);
+    dispatch({ type: "start", level: newLevel, now: Date.now() });
+  }, [
+    forfeitUnfinishedDaily,
+    skillMetrics,
+    levelHistory,
+    profile.difficultyPreset,
+    dispatch,
+  ]);
+
+  const restartLevel = useCallback(() => {
+    if (!gameState.currentLevel || gameState.source === "daily") return;
+
+    // A custom game keeps its settings and only draws a new target
+    const newLevel =
+      gameState.source === "custom"
+        ? createCustomLevel(
+            getCustomSettings(gameState.currentLevel),
+            gameState.currentLevel.seed + 1,
+          )
+        : generateLevel(
+            currentLevelNumber,
+            skillMetrics,
+            gameState.currentLevel.seed + 1,
+            getFlowTarget(levelHistory, profile.difficultyPreset),
+          );
+    dispatch({ type: "restart", level: newLevel, now: Date.now() });
+  }, [
+    gameState.currentLevel,
+    gameState.source,
+    currentLevelNumber,
+    skillMetrics,
+    levelHistory,
+    profile.difficultyPreset,
+    dispatch,
+  ]);
+
+  const startDailyChallenge = useCallback(() => {
+    const dateKey = getDailyDateKey();
+    if (hasPlayedDaily(dailyChallenge, dateKey)) return false;
+
+    if (
+      gameState.source === "daily" &&
+      gameState.currentLevel &&
+      isDailyLevelFor(gameState.currentLevel, dateKey)
+    ) {
+      dispatch({ type: "resume", now: Date.now() });
+      return true;
+    }
+
+    if (gameState.source === "campaign") {
+      suspendedCampaignRef.current = gameState.currentLevel ? gameState : null;
+    }
+    dispatch({
+      type: "start",
+      level: generateDailyLevel(dateKey),
+      now: Date.now(),
+      source: "daily",
+    });
+    return true;
+  }, [dailyChallenge, gameState, dispatch]);
+
+  // Levels come from checkCustomLevel or decodeLevelCode, and both refuse
+  // settings that validateLevel would have to change
+  const startCustomGame = useCallback(
+    (level: LevelParams) => {
+      forfeitUnfinishedDaily();
+      if (gameState.source === "campaign") {
+        suspendedCampaignRef.current = gameState.currentLevel
+          ? gameState
+          : null;
+      }
+      dispatch({ type: "start", level, now: Date.now(), source: "custom" });
+    },
+    [forfeitUnfinishedDaily, gameState, dispatch],
+  );
+
+  // Hand the board back to the campaign so "Continue" picks up where it was
+  const restoreCampaign = useCallback(() => {
+    const suspended = suspendedCampaignRef.current;
+    suspendedCampaignRef.current = null;
     setGameState({
-      currentLevel: newLevel,
-      currentGuesses: [],
-      isPlaying: true,
+      ...createIdleState(),
+      ...(suspended ?? {}),
+      currentLevel:
+        suspended?.currentLevel ??
+        generateLevel(
+          currentLevelNumber,
+          skillMetrics,
+          undefined,
+          getFlowTarget(levelHistory, profile.difficultyPreset),
+        ),
+      isPlaying: false,
       isPaused: false,
-      startTime: Date.now(),
-      elapsedTime: 0,
+      source: "campaign",
     });
-  }, [skillMetrics]);
-  
+  }, [
+    currentLevelNumber,
+    skillMetrics,
+    levelHistory,
+    profile.difficultyPreset,
+  ]);
+
   const continueGame = useCallback(() => {
-    if (gameState.currentLevel && !gameState.isPlaying) {
-      setGameState(prev => ({
-        ...prev,
-        isPlaying: true,
-        isPaused: false,
-        startTime: Date.now() - prev.elapsedTime * 1000,
-      }));
+    if (hasStaleDaily) {
+      restoreCampaign();
+      dispatch({ type: "resume", now: Date.now() });
+    } else if (gameState.currentLevel && gameState.outcome === "lost") {
+      restartLevel();
+    } else if (gameState.currentLevel && !gameState.isPlaying) {
+      dispatch({ type: "resume", now: Date.now() });
     } else if (!gameState.currentLevel) {
       startNewGame();
     }
-  }, [gameState.currentLevel, gameState.isPlaying, startNewGame]);
-  
-  const completeLevel = useCallback((won: boolean) => {
-    if (!gameState.currentLevel) return;
-    
-    const result: LevelResult = {
-      levelNumber: currentLevelNumber,
-      won,
-      attemptsUsed: gameState.currentGuesses.length,
-      maxAttempts: gameState.currentLevel.maxAttempts,
-      timeUsed: gameState.elapsedTime,
-      timeLimit: gameState.currentLevel.timeLimit,
-      accuracy: calculateLevelAccuracy(
-        gameState.currentGuesses.length,
-        gameState.currentLevel.maxAttempts,
-        gameState.currentLevel.rangeMax - gameState.currentLevel.rangeMin + 1
-      ),
-      gameMode: gameState.currentLevel.gameMode,
-      targetNumber: gameState.currentLevel.targetNumber,
-      guesses: gameState.currentGuesses,
-      completedAt: Date.now(),
-    };
+  }, [
+    hasStaleDaily,
+    gameState.currentLevel,
+    gameState.isPlaying,
+    gameState.outcome,
+    startNewGame,
+    restartLevel,
+    restoreCampaign,
+    dispatch,
+  ]);
+
+  const completeDailyChallenge = useCallback(() => {
+    const result = createLevelResult(gameState, DAILY_LEVEL_NUMBER, Date.now());
+    if (!result) return;
+
+    const dateKey = getDailyDateKey(
+      new Date(gameState.startTime ?? result.completedAt),
+    );
+    setDailyChallenge((prev) => recordDailyResult(prev, dateKey, result));
+    setAchievements((prev) => checkAchievements(prev, result, "daily"));
+    triggerHaptic(result.won ? "success" : "error");
+    restoreCampaign();
+  }, [gameState, triggerHaptic, restoreCampaign]);
+
+  // Custom results go to their own history and leave stats and skill alone
+  const completeCustomGame = useCallback(() => {
+    const result = createLevelResult(
+      gameState,
+      CUSTOM_LEVEL_NUMBER,
+      Date.now(),
+    );
+    if (!result) return;
+
+    setCustomHistory((prev) => [...prev, result].slice(-CUSTOM_HISTORY_LIMIT));
+    triggerHaptic(result.won ? "success" : "error");
+    restoreCampaign();
+  }, [gameState, triggerHaptic, restoreCampaign]);
+
+  const completeLevel = useCallback(() => {
+    if (gameState.source === "daily") {
+      completeDailyChallenge();
+      return;
+    }
+    if (gameState.source === "custom") {
+      completeCustomGame();
+      return;
+    }
+
+    const result = createLevelResult(gameState, currentLevelNumber, Date.now());
+    if (!result) return;
     
     const newHistory = [...levelHistory, result];
     setLevelHistory(newHistory);
@@ -241,25 +458,33 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     const newStats = updateStatsWithResult(playerStats, result);
     setPlayerStats(newStats);
     
-    const newMetrics = calculateSkillMetrics(newStats, newHistory);
+    const newRatings = updateRatings(ratings, result);
+    setRatings(newRatings);
+
+    const newMetrics = getRatedSkillMetrics(
+      calculateSkillMetrics(newStats, newHistory),
+      newRatings,
+    );
     setSkillMetrics(newMetrics);
-    
-    if (won) {
+    setAchievements((prev) => checkAchievements(prev, result, "campaign"));
+
+    if (result.won) {
       triggerHaptic("success");
-      const nextLevel = generateLevel(currentLevelNumber + 1, newMetrics);
+      const nextLevel = generateLevel(
+        currentLevelNumber + 1,
+        newMetrics,
+        undefined,
+        getFlowTarget(newHistory, profile.difficultyPreset),
+      );
       // Explicitly increment level number and update state for immediate persistence
       setCurrentLevelNumber(prev => {
         const next = prev + 1;
         return next;
       });
-      setGameState(prev => ({
-        ...prev,
+      setGameState({
+        ...createIdleState(),
         currentLevel: nextLevel,
-        currentGuesses: [],
-        isPlaying: false,
-        startTime: null,
-        elapsedTime: 0,
-      }));
+      });
     } else {
       triggerHaptic("error");
       setGameState(prev => ({
@@ -268,122 +493,189 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
         startTime: null,
       }));
     }
-  }, [gameState, currentLevelNumber, levelHistory, playerStats, triggerHaptic]);
-  
-  const makeGuess = useCallback((guess: number): GuessResult => {
-    if (!gameState.currentLevel || !gameState.isPlaying) {
-      return { guess, feedback: "lower", timestamp: Date.now() };
-    }
-    
-    triggerHaptic("light");
-    
-    const target = gameState.currentLevel.targetNumber;
-    
-    if (guess === target) {
-      const result: GuessResult = {
+  }, [
+    gameState,
+    currentLevelNumber,
+    levelHistory,
+    playerStats,
+    ratings,
+    profile.difficultyPreset,
+    triggerHaptic,
+    completeDailyChallenge,
+    completeCustomGame,
+  ]);
+
+  // A finished round (guessed, out of attempts or out of time) is recorded
+  // shortly after the engine reports its outcome so the last guess stays visible.
+  useEffect(() => {
+    if (!gameState.outcome || !gameState.isPlaying) return;
+    const timeout = setTimeout(completeLevel, 500);
+    return () => clearTimeout(timeout);
+  }, [gameState.outcome, gameState.isPlaying, completeLevel]);
+
+  const makeGuess = useCallback(
+    (guess: number): GuessResult => {
+      const nextState = reduceGame(gameState, {
+        type: "guess",
         guess,
-        feedback: "correct",
-        timestamp: Date.now(),
-      };
-      
-      setGameState(prev => ({
-        ...prev,
-        currentGuesses: [...prev.currentGuesses, result],
-      }));
-      
-      setTimeout(() => completeLevel(true), 500);
-      
-      return result;
-    }
-    
-    const hintData = getHint(
-      guess,
-      target,
-      gameState.currentLevel.hintStyle,
-      gameState.currentLevel.maxAttempts - gameState.currentGuesses.length - 1
-    );
-    
-    const result: GuessResult = {
-      guess,
-      feedback: hintData.feedback,
-      hint: hintData.hint,
-      penalty: hintData.penalty,
-      timestamp: Date.now(),
-    };
-    
-    const newGuesses = [...gameState.currentGuesses, result];
-    
-    setGameState(prev => ({
-      ...prev,
-      currentGuesses: newGuesses,
-    }));
-    
-    if (newGuesses.length >= gameState.currentLevel.maxAttempts) {
-      setTimeout(() => completeLevel(false), 500);
-    }
-    
-    return result;
-  }, [gameState, triggerHaptic, completeLevel]);
-  
+        now: Date.now(),
+      });
+      if (nextState.currentGuesses.length === gameState.currentGuesses.length) {
+        setGameState(nextState);
+        return { guess, feedback: "lower", timestamp: Date.now() };
+      }
+
+      triggerHaptic("light");
+      setGameState(nextState);
+
+      return nextState.currentGuesses[nextState.currentGuesses.length - 1];
+    },
+    [gameState, triggerHaptic],
+  );
+
   const pauseGame = useCallback(() => {
     if (timerRef.current) {
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
-    setGameState(prev => ({ ...prev, isPaused: true }));
-  }, []);
+    dispatch({ type: "pause", now: Date.now() });
+  }, [dispatch]);
   
   const resumeGame = useCallback(() => {
-    setGameState(prev => ({
-      ...prev,
-      isPaused: false,
-      startTime: Date.now() - prev.elapsedTime * 1000,
-    }));
-  }, []);
-  
-  const restartLevel = useCallback(() => {
-    if (!gameState.currentLevel) return;
-    
-    const newLevel = generateLevel(currentLevelNumber, skillMetrics, gameState.currentLevel.seed + 1);
-    setGameState({
-      currentLevel: newLevel,
-      currentGuesses: [],
-      isPlaying: true,
-      isPaused: false,
-      startTime: Date.now(),
-      elapsedTime: 0,
-    });
-  }, [gameState.currentLevel, currentLevelNumber, skillMetrics]);
+    dispatch({ type: "resume", now: Date.now() });
+  }, [dispatch]);
   
   const goToMainMenu = useCallback(() => {
     if (timerRef.current) {
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
-    setGameState(prev => ({
-      ...prev,
-      isPlaying: false,
-      isPaused: false,
-    }));
-  }, []);
+    dispatch({ type: "suspend", now: Date.now() });
+  }, [dispatch]);
   
   const updateProfile = useCallback((updates: Partial<PlayerProfile>) => {
-    setProfile(prev => ({ ...prev, ...updates }));
+    setProfile((prev) => ({ ...prev, ...updates, updatedAt: Date.now() }));
   }, []);
   
+  const applyProgress = useCallback((snapshot: ProgressSnapshot) => {
+    setPlayerStats(snapshot.stats);
+    setSkillMetrics(snapshot.metrics);
+    setLevelHistory(snapshot.history);
+    // Results from another device may land between local ones, so ratings
+    // are replayed from the merged history
+    setRatings(rebuildRatings(snapshot.history));
+    setProfile((prev) => ({ ...snapshot.profile, accountId: prev.accountId }));
+
+    if (snapshot.levelNumber !== progressRef.current?.levelNumber) {
+      // Another device got further; swap an idle campaign round for one at
+      // the synced level instead of replaying an already cleared one
+      setGameState((prev) =>
+        prev.isPlaying || prev.source !== "campaign"
+          ? prev
+          : {
+              ...createIdleState(),
+              currentLevel: generateLevel(
+                snapshot.levelNumber,
+                snapshot.metrics,
+                undefined,
+                getFlowTarget(
+                  snapshot.history,
+                  snapshot.profile.difficultyPreset,
+                ),
+              ),
+            },
+      );
+    }
+    setCurrentLevelNumber(snapshot.levelNumber);
+  }, []);
+
+  const syncProgress = useCallback(async () => {
+    if (!accountId || !progressRef.current) return false;
+
+    try {
+      const remote = await pushProgress(progressRef.current);
+      applyProgress(mergeProgress(progressRef.current, remote));
+      setLastSyncedAt(Date.now());
+      return true;
+    } catch (error) {
+      console.error("Failed to sync progress", error);
+      return false;
+    }
+  }, [accountId, applyProgress]);
+
+  // Sync on start-up, after sign-in and whenever a campaign result is added
+  useEffect(() => {
+    if (!isLoaded || !accountId) return;
+    syncProgress();
+  }, [isLoaded, accountId, levelHistory.length, syncProgress]);
+
   const resetProgress = async () => {
     try {
-      await AsyncStorage.multiRemove(Object.values(STORAGE_KEYS));
+      await clearSave();
+      saveBlockedRef.current = false;
       setPlayerStats(createInitialStats());
       setSkillMetrics(createInitialSkillMetrics());
       setLevelHistory([]);
+      setCustomHistory([]);
       setCurrentLevelNumber(1);
+      setDailyChallenge(createInitialDailyState());
+      setAchievements(createInitialAchievements());
+      setRatings(createInitialRatings());
+      // Unlinked, or the next sync would merge the account's history back in
+      setProfile((prev) => ({ ...prev, accountId: null }));
       setGameState(initialGameState);
     } catch (error) {
       console.error("Failed to reset progress", error);
     }
   };
   
+  const exportProgress = useCallback(() => {
+    return createProgressExport({
+      stats: playerStats,
+      metrics: skillMetrics,
+      history: levelHistory,
+      customHistory,
+      profile,
+      levelNumber: currentLevelNumber,
+      daily: dailyChallenge,
+      achievements,
+      ratings,
+      lastSyncedAt,
+      savedGame: gameState.currentLevel ? gameState : null,
+    });
+  }, [
+    playerStats,
+    skillMetrics,
+    levelHistory,
+    customHistory,
+    profile,
+    currentLevelNumber,
+    dailyChallenge,
+    achievements,
+    ratings,
+    lastSyncedAt,
+    gameState,
+  ]);
+
+  const importProgress = useCallback((data: ExportedProgress) => {
+    suspendedCampaignRef.current = null;
+    setPlayerStats(data.stats);
+    setSkillMetrics(data.metrics);
+    setLevelHistory(data.history);
+    setCustomHistory(data.customHistory);
+    // The account link belongs to this device, not to the backup
+    setProfile((prev) => ({ ...data.profile, accountId: prev.accountId }));
+    setCurrentLevelNumber(data.levelNumber);
+    setDailyChallenge(data.daily);
+    setAchievements(data.achievements);
+    setRatings(data.ratings);
+    setGameState(
+      data.savedGame
+        ? { ...data.savedGame, isPlaying: false, isPaused: false }
+        : initialGameState,
+    );
+  }, []);
+
   const hasSavedGame = gameState.currentLevel !== null && !gameState.isPlaying;
   
   if (!isLoaded) return null;
@@ -395,8 +687,14 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
         playerStats,
         skillMetrics,
         levelHistory,
+        customHistory,
         profile,
+        dailyChallenge,
+        achievements,
+        ratings,
         startNewGame,
+        startDailyChallenge,
+        startCustomGame,
         continueGame,
         makeGuess,
         pauseGame,
@@ -405,6 +703,10 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
         goToMainMenu,
         updateProfile,
         resetProgress,
+        syncProgress,
+        lastSyncedAt,
+        exportProgress,
+        importProgress,
         hasSavedGame,
         currentLevelNumber,
       }}
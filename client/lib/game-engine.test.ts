@@ -0,0 +1,175 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createLevelResult,
+  createPlayingState,
+  getAttemptsLeft,
+  getTimeRemaining,
+  reduceGame,
+} from "./game-engine";
+import { getModeHintStyle } from "./hint-styles";
+import { GameState, LevelParams } from "./types";
+
+// The reducer is driven with explicit timestamps, so rounds play out here
+// without a clock or React.
+
+function makeLevel(overrides: Partial<LevelParams> = {}): LevelParams {
+  return {
+    seed: 1,
+    levelNumber: 1,
+    rangeMin: 1,
+    rangeMax: 100,
+    maxAttempts: 7,
+    timeLimit: 30,
+    gameMode: "classic",
+    targetNumber: 42,
+    hintStyle: getModeHintStyle("classic"),
+    difficultyScore: 70,
+    ...overrides,
+  };
+}
+
+function guess(state: GameState, value: number, now: number): GameState {
+  return reduceGame(state, { type: "guess", guess: value, now });
+}
+
+describe("reduceGame", () => {
+  it("wins on the target and loses when attempts run out", () => {
+    const level = makeLevel({ maxAttempts: 2 });
+    const start = createPlayingState(level, 0);
+
+    const won = guess(guess(start, 50, 1000), 42, 2000);
+    assert.equal(won.outcome, "won");
+    assert.deepEqual(
+      won.currentGuesses.map((g) => g.feedback),
+      ["lower", "correct"],
+    );
+
+    const lost = guess(guess(start, 50, 1000), 10, 2000);
+    assert.equal(lost.outcome, "lost");
+    assert.equal(getAttemptsLeft(lost), 0);
+  });
+
+  it("ignores guesses out of range, repeated or after the round ends", () => {
+    const start = createPlayingState(makeLevel(), 0);
+    const once = guess(start, 50, 1000);
+
+    assert.equal(guess(start, 0, 1000), start);
+    assert.equal(guess(start, 101, 1000), start);
+    assert.equal(guess(once, 50, 2000), once);
+
+    const won = guess(once, 42, 2000);
+    assert.equal(guess(won, 10, 3000), won);
+  });
+
+  it("counts time on ticks and loses when the limit passes", () => {
+    const start = createPlayingState(makeLevel(), 0);
+
+    const ticked = reduceGame(start, { type: "tick", now: 10_500 });
+    assert.equal(ticked.elapsedTime, 10);
+    assert.equal(getTimeRemaining(ticked), 20);
+    // Nothing changes within the same second
+    assert.equal(reduceGame(ticked, { type: "tick", now: 10_900 }), ticked);
+
+    const timedOut = reduceGame(ticked, { type: "tick", now: 30_000 });
+    assert.equal(timedOut.outcome, "lost");
+    assert.equal(getTimeRemaining(timedOut), 0);
+
+    // A guess after the limit loses instead of being scored
+    const late = guess(start, 42, 31_000);
+    assert.equal(late.outcome, "lost");
+    assert.equal(late.currentGuesses.length, 0);
+  });
+
+  it("stops the clock while paused and picks it up on resume", () => {
+    const start = createPlayingState(makeLevel(), 0);
+
+    const paused = reduceGame(start, { type: "pause", now: 5_000 });
+    assert.equal(paused.isPaused, true);
+    assert.equal(paused.elapsedTime, 5);
+    assert.equal(reduceGame(paused, { type: "tick", now: 60_000 }), paused);
+    assert.equal(guess(paused, 42, 60_000), paused);
+
+    const resumed = reduceGame(paused, { type: "resume", now: 100_000 });
+    assert.equal(resumed.isPaused, false);
+    const ticked = reduceGame(resumed, { type: "tick", now: 103_000 });
+    assert.equal(ticked.elapsedTime, 8);
+  });
+
+  it("keeps a suspended round's time until it is resumed", () => {
+    const start = guess(createPlayingState(makeLevel(), 0), 50, 1_000);
+
+    const suspended = reduceGame(start, { type: "suspend", now: 12_000 });
+    assert.equal(suspended.isPlaying, false);
+    assert.equal(suspended.elapsedTime, 12);
+    assert.equal(suspended.currentGuesses.length, 1);
+
+    const resumed = reduceGame(suspended, { type: "resume", now: 500_000 });
+    assert.equal(resumed.isPlaying, true);
+    assert.equal(
+      reduceGame(resumed, { type: "tick", now: 505_000 }).elapsedTime,
+      17,
+    );
+  });
+
+  it("leaves a finished round to be recorded when suspended", () => {
+    const start = createPlayingState(makeLevel({ maxAttempts: 2 }), 0);
+
+    for (const finished of [
+      guess(start, 42, 1_000),
+      guess(guess(start, 50, 1_000), 10, 2_000),
+    ]) {
+      const suspended = reduceGame(finished, { type: "suspend", now: 3_000 });
+      assert.equal(suspended, finished);
+      assert.equal(suspended.isPlaying, true);
+      assert.notEqual(createLevelResult(suspended, 1, 3_000), null);
+      // A finished round cannot be resumed into a retry either
+      assert.equal(
+        reduceGame(suspended, { type: "resume", now: 4_000 }),
+        finished,
+      );
+    }
+  });
+
+  it("times out only a round still in play", () => {
+    const start = createPlayingState(makeLevel(), 0);
+
+    const timedOut = reduceGame(start, { type: "timeout", now: 4_000 });
+    assert.equal(timedOut.outcome, "lost");
+    assert.equal(timedOut.elapsedTime, 4);
+
+    const won = guess(start, 42, 1_000);
+    assert.equal(reduceGame(won, { type: "timeout", now: 2_000 }), won);
+  });
+
+  it("restarts with a fresh round on the same or a new level", () => {
+    const level = makeLevel();
+    const played = guess(createPlayingState(level, 0, "custom"), 50, 1_000);
+
+    const again = reduceGame(played, { type: "restart", now: 9_000 });
+    assert.deepEqual(again, createPlayingState(level, 9_000, "custom"));
+
+    const next = makeLevel({ seed: 2, targetNumber: 7 });
+    const replaced = reduceGame(played, {
+      type: "restart",
+      level: next,
+      now: 9_000,
+    });
+    assert.equal(replaced.currentLevel, next);
+    assert.equal(replaced.currentGuesses.length, 0);
+    assert.equal(replaced.source, "custom");
+  });
+
+  it("turns a finished round into a level result", () => {
+    const start = createPlayingState(makeLevel(), 0);
+    assert.equal(createLevelResult(start, 1, 0), null);
+
+    const won = guess(guess(start, 50, 1_000), 42, 6_000);
+    const result = createLevelResult(won, 3, 7_000);
+    assert.equal(result?.won, true);
+    assert.equal(result?.levelNumber, 3);
+    assert.equal(result?.attemptsUsed, 2);
+    assert.equal(result?.timeUsed, 6);
+    assert.equal(result?.completedAt, 7_000);
+  });
+});
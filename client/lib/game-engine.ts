@@ -0,0 +1,257 @@
+import { getHint } from "./hint-styles";
+import { calculateLevelAccuracy } from "./skill-model";
+import {
+  GameSource,
+  GameState,
+  GuessResult,
+  LevelParams,
+  LevelResult,
+} from "./types";
+
+// Pure rules for a single round. Every transition takes the current state and
+// an action carrying its own timestamp, so the same reducer can drive the React
+// context, the server and headless simulations without touching a clock.
+
+export type GameAction =
+  | { type: "start"; level: LevelParams; now: number; source?: GameSource }
+  | { type: "guess"; guess: number; now: number }
+  | { type: "tick"; now: number }
+  | { type: "pause"; now: number }
+  | { type: "resume"; now: number }
+  | { type: "suspend"; now: number }
+  | { type: "timeout"; now: number }
+  | { type: "restart"; level?: LevelParams; now: number };
+
+export type GuessError = "not_playing" | "out_of_range" | "duplicate";
+
+export function createIdleState(): GameState {
+  return {
+    currentLevel: null,
+    currentGuesses: [],
+    isPlaying: false,
+    isPaused: false,
+    startTime: null,
+    elapsedTime: 0,
+    outcome: null,
+    source: "campaign",
+  };
+}
+
+export function createPlayingState(
+  level: LevelParams,
+  now: number,
+  source: GameSource = "campaign",
+): GameState {
+  return {
+    currentLevel: level,
+    currentGuesses: [],
+    isPlaying: true,
+    isPaused: false,
+    startTime: now,
+    elapsedTime: 0,
+    outcome: null,
+    source,
+  };
+}
+
+export function isRunning(state: GameState): boolean {
+  return (
+    state.currentLevel !== null &&
+    state.isPlaying &&
+    !state.isPaused &&
+    state.outcome === null
+  );
+}
+
+export function getAttemptsLeft(state: GameState): number {
+  if (!state.currentLevel) return 0;
+  return state.currentLevel.maxAttempts - state.currentGuesses.length;
+}
+
+export function getTimeRemaining(state: GameState): number | null {
+  if (!state.currentLevel || state.currentLevel.timeLimit === null) {
+    return null;
+  }
+  return Math.max(0, state.currentLevel.timeLimit - state.elapsedTime);
+}
+
+export function getGuessError(
+  state: GameState,
+  guess: number,
+): GuessError | null {
+  const level = state.currentLevel;
+  if (!level || !isRunning(state)) return "not_playing";
+  if (
+    !Number.isInteger(guess) ||
+    guess < level.rangeMin ||
+    guess > level.rangeMax
+  ) {
+    return "out_of_range";
+  }
+  if (state.currentGuesses.some((g) => g.guess === guess)) {
+    return "duplicate";
+  }
+  return null;
+}
+
+export function scoreGuess(
+  level: LevelParams,
+  previousGuesses: GuessResult[],
+  guess: number,
+  now: number,
+): GuessResult {
+  if (guess === level.targetNumber) {
+    return { guess, feedback: "correct", timestamp: now };
+  }
+
+  const hintData = getHint(
+    guess,
+    level.targetNumber,
+    level.hintStyle,
+    level.maxAttempts - previousGuesses.length - 1,
+  );
+
+  return {
+    guess,
+    feedback: hintData.feedback,
+    hint: hintData.hint,
+    penalty: hintData.penalty,
+    timestamp: now,
+  };
+}
+
+function elapsedSeconds(state: GameState, now: number): number {
+  if (state.startTime === null) return state.elapsedTime;
+  return Math.max(0, Math.floor((now - state.startTime) / 1000));
+}
+
+function hasTimedOut(state: GameState): boolean {
+  const limit = state.currentLevel?.timeLimit;
+  return limit !== null && limit !== undefined && state.elapsedTime >= limit;
+}
+
+export function reduceGame(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case "start":
+      return createPlayingState(action.level, action.now, action.source);
+
+    case "restart": {
+      const level = action.level ?? state.currentLevel;
+      if (!level) return state;
+      return createPlayingState(level, action.now, state.source);
+    }
+
+    case "guess": {
+      if (getGuessError(state, action.guess) !== null) return state;
+      const level = state.currentLevel as LevelParams;
+
+      const ticked = {
+        ...state,
+        elapsedTime: elapsedSeconds(state, action.now),
+      };
+      if (hasTimedOut(ticked)) {
+        return { ...ticked, outcome: "lost" };
+      }
+
+      const result = scoreGuess(
+        level,
+        state.currentGuesses,
+        action.guess,
+        action.now,
+      );
+      const currentGuesses = [...state.currentGuesses, result];
+
+      let outcome: GameState["outcome"] = null;
+      if (result.feedback === "correct") {
+        outcome = "won";
+      } else if (currentGuesses.length >= level.maxAttempts) {
+        outcome = "lost";
+      }
+
+      return { ...ticked, currentGuesses, outcome };
+    }
+
+    case "tick": {
+      if (!isRunning(state)) return state;
+      const ticked = {
+        ...state,
+        elapsedTime: elapsedSeconds(state, action.now),
+      };
+      if (hasTimedOut(ticked)) {
+        return { ...ticked, outcome: "lost" };
+      }
+      return ticked.elapsedTime === state.elapsedTime ? state : ticked;
+    }
+
+    case "pause":
+      if (!isRunning(state)) return state;
+      return {
+        ...state,
+        isPaused: true,
+        elapsedTime: elapsedSeconds(state, action.now),
+      };
+
+    // A finished round is left alone so it is still recorded as it stands
+    case "suspend":
+      if (!state.currentLevel || state.outcome !== null) return state;
+      return {
+        ...state,
+        isPlaying: false,
+        isPaused: false,
+        elapsedTime: isRunning(state)
+          ? elapsedSeconds(state, action.now)
+          : state.elapsedTime,
+      };
+
+    case "resume":
+      if (!state.currentLevel || state.outcome !== null) return state;
+      if (state.isPlaying && !state.isPaused) return state;
+      return {
+        ...state,
+        isPlaying: true,
+        isPaused: false,
+        startTime: action.now - state.elapsedTime * 1000,
+      };
+
+    case "timeout":
+      if (!state.currentLevel || state.outcome !== null) return state;
+      return {
+        ...state,
+        elapsedTime: isRunning(state)
+          ? elapsedSeconds(state, action.now)
+          : state.elapsedTime,
+        outcome: "lost",
+      };
+  }
+}
+
+export function createLevelResult(
+  state: GameState,
+  levelNumber: number,
+  completedAt: number,
+): LevelResult | null {
+  const level = state.currentLevel;
+  if (!level || state.outcome === null) return null;
+
+  return {
+    levelNumber,
+    won: state.outcome === "won",
+    attemptsUsed: state.currentGuesses.length,
+    maxAttempts: level.maxAttempts,
+    timeUsed: state.elapsedTime,
+    timeLimit: level.timeLimit,
+    accuracy: calculateLevelAccuracy(
+      state.currentGuesses.length,
+      level.maxAttempts,
+      level.rangeMax - level.rangeMin + 1,
+    ),
+    gameMode: level.gameMode,
+    targetNumber: level.targetNumber,
+    guesses: state.currentGuesses,
+    completedAt,
+    seed: level.seed,
+    rangeMin: level.rangeMin,
+    rangeMax: level.rangeMax,
+    hintStyle: level.hintStyle,
+  };
+}
@@ -0,0 +1,10 @@
+import { defineHintStyle } from "./define";
+
+export const basic = defineHintStyle({
+  id: "basic",
+  name: "Higher or Lower",
+  description: "Only whether the number is higher or lower.",
+  mode: "classic",
+  reveals: [],
+  describe: () => ({}),
+});
@@ -0,0 +1,30 @@
+import type { GameMode } from "../types";
+
+// What a hint can give away about the target beyond higher or lower
+export type HintReveal = "distance" | "divisibility";
+
+export interface HintDetail {
+  hint?: string;
+  penalty?: number;
+}
+
+export interface HintStyleDefinition<Id extends string = string> {
+  id: Id;
+  name: string;
+  description: string;
+  // Campaign levels of this mode use the first style registered for it.
+  // Custom levels with the style take the mode's colours and label.
+  mode: GameMode;
+  // The solver replays hints for every possible target only for styles
+  // that reveal something; the others narrow the range like higher/lower.
+  reveals: HintReveal[];
+  // Only called for wrong guesses; the direction is worked out by getHint
+  describe: (guess: number, target: number, attemptsLeft: number) => HintDetail;
+}
+
+// Keeps each style's id as a literal so the registry can derive its union
+export function defineHintStyle<Id extends string>(
+  style: HintStyleDefinition<Id>,
+): HintStyleDefinition<Id> {
+  return style;
+}
@@ -0,0 +1,16 @@
+import { defineHintStyle } from "./define";
+
+export const distance = defineHintStyle({
+  id: "distance",
+  name: "Distance",
+  description: "How close each guess landed, from far away to very close.",
+  mode: "depth",
+  reveals: ["distance"],
+  describe: (guess, target) => {
+    const gap = Math.abs(target - guess);
+    if (gap <= 2) return { hint: "Very close!" };
+    if (gap <= 5) return { hint: "Getting warm" };
+    if (gap <= 10) return { hint: "Moderate distance" };
+    return { hint: "Far away" };
+  },
+});
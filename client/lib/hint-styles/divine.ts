@@ -0,0 +1,17 @@
+import { defineHintStyle } from "./define";
+
+export const divine = defineHintStyle({
+  id: "divine",
+  name: "Divine",
+  description: "The exact difference, and whether the numbers divide evenly.",
+  mode: "deus",
+  reveals: ["distance", "divisibility"],
+  describe: (guess, target) => {
+    const isMultiple = target % guess === 0 || guess % target === 0;
+    return {
+      hint: isMultiple
+        ? "A divine multiple"
+        : `Difference: ${Math.abs(target - guess)}`,
+    };
+  },
+});
@@ -0,0 +1,18 @@
+import { defineHintStyle } from "./define";
+
+export const hotCold = defineHintStyle({
+  id: "hot_cold",
+  name: "Hot and Cold",
+  description: "A temperature reading that heats up as you get closer.",
+  mode: "tactical",
+  reveals: ["distance"],
+  describe: (guess, target) => {
+    // Bands are fixed steps of 100, whatever the level's range
+    const ratio = Math.abs(target - guess) / 100;
+    if (ratio <= 0.05) return { hint: "Burning hot!" };
+    if (ratio <= 0.1) return { hint: "Very hot" };
+    if (ratio <= 0.2) return { hint: "Warm" };
+    if (ratio <= 0.4) return { hint: "Cool" };
+    return { hint: "Freezing cold" };
+  },
+});
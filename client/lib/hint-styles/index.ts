@@ -0,0 +1,54 @@
+import type { GameMode } from "../types";
+import { basic } from "./basic";
+import { HintDetail, HintStyleDefinition } from "./define";
+import { distance } from "./distance";
+import { divine } from "./divine";
+import { hotCold } from "./hot-cold";
+import { penalty } from "./penalty";
+
+// Every hint style the game knows. A new style is a module in this folder
+// plus an entry here; custom games offer all of them. Positions are written
+// into share codes, so only ever append.
+const HINT_STYLE_LIST = [basic, distance, hotCold, penalty, divine] as const;
+
+export type HintStyle = (typeof HINT_STYLE_LIST)[number]["id"];
+export type { HintReveal, HintStyleDefinition } from "./define";
+
+export const HINT_STYLE_IDS = HINT_STYLE_LIST.map((style) => style.id) as [
+  HintStyle,
+  ...HintStyle[],
+];
+
+export function getHintStyle(id: HintStyle): HintStyleDefinition<HintStyle> {
+  return HINT_STYLE_LIST.find((style) => style.id === id) ?? basic;
+}
+
+export function getHint(
+  guess: number,
+  target: number,
+  hintStyle: HintStyle,
+  attemptsLeft: number,
+): { feedback: "higher" | "lower" } & HintDetail {
+  const feedback = guess < target ? "higher" : "lower";
+  return {
+    feedback,
+    ...getHintStyle(hintStyle).describe(guess, target, attemptsLeft),
+  };
+}
+
+export function getModeHintStyle(mode: GameMode): HintStyle {
+  return (HINT_STYLE_LIST.find((style) => style.mode === mode) ?? basic).id;
+}
+
+// The mode a hint style belongs to; custom levels are labelled with it
+export function getHintStyleMode(hintStyle: HintStyle): GameMode {
+  return getHintStyle(hintStyle).mode;
+}
+
+export function getHintStyleName(hintStyle: HintStyle): string {
+  return getHintStyle(hintStyle).name;
+}
+
+export function getHintStyleDescription(hintStyle: HintStyle): string {
+  return getHintStyle(hintStyle).description;
+}
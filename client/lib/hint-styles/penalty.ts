@@ -0,0 +1,15 @@
+import { defineHintStyle } from "./define";
+
+// The warning depends only on the attempts left, so it says nothing about
+// the target
+export const penalty = defineHintStyle({
+  id: "penalty",
+  name: "Penalty",
+  description: "Plain hints, with a warning once attempts run low.",
+  mode: "strategic",
+  reveals: [],
+  describe: (_guess, _target, attemptsLeft) =>
+    attemptsLeft <= 2
+      ? { hint: "Critical! Limited attempts", penalty: 1 }
+      : { penalty: 0 },
+});
@@ -0,0 +1,246 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { chooseBotGuess } from "./bot";
+import { createPlayingState, reduceGame } from "./game-engine";
+import {
+  checkCustomLevel,
+  createCustomLevel,
+  generateLevel,
+  getBisectionAttempts,
+  regenerateLevel,
+} from "./level-generator";
+import { SeededRandom } from "./seeded-random";
+import { createInitialSkillMetrics } from "./skill-model";
+import { GameMode, LevelParams, SkillMetrics } from "./types";
+
+// Saved games, share codes, daily challenges and ranked sessions all rebuild
+// levels from a seed, so the generator has to give the same level for the
+// same inputs on every device and in every release.
+
+const NEW_PLAYER = createInitialSkillMetrics();
+
+const PROFILES: Record<string, SkillMetrics> = {
+  new: NEW_PLAYER,
+  strong: {
+    ...NEW_PLAYER,
+    skillLevel: 85,
+    successRate: 0.9,
+    consistencyScore: 0.8,
+    winStreak: 6,
+  },
+  struggling: {
+    ...NEW_PLAYER,
+    skillLevel: 20,
+    successRate: 0.2,
+    failureStreak: 4,
+  },
+};
+
+const MODES: GameMode[] = ["classic", "depth", "strategic", "tactical", "deus"];
+
+// profile, level, seed and flow target (null for none), then the mode, range
+// top, attempts, time limit, target and score generated for them. A change
+// here changes every saved level and share code; update the table only on
+// purpose.
+const GOLDEN: [
+  string,
+  number,
+  number,
+  number | null,
+  GameMode,
+  number,
+  number,
+  number | null,
+  number,
+  number,
+][] = [
+  ["new", 1, 7, null, "deus", 236, 8, null, 218, 89],
+  ["new", 1, 424242, null, "classic", 22, 5, null, 19, 70],
+  ["new", 8, 7, null, "classic", 195, 8, null, 57, 86],
+  ["new", 8, 424242, null, "classic", 195, 8, null, 101, 86],
+  ["new", 30, 7, null, "classic", 1000, 10, null, 290, 100],
+  ["new", 30, 424242, null, "depth", 1000, 10, null, 514, 100],
+  ["strong", 1, 7, null, "deus", 264, 9, null, 244, 85],
+  ["strong", 1, 424242, null, "classic", 25, 5, null, 22, 71],
+  ["strong", 8, 7, null, "classic", 232, 8, null, 68, 89],
+  ["strong", 8, 424242, null, "classic", 232, 8, null, 120, 89],
+  ["strong", 30, 7, null, "classic", 1000, 10, null, 290, 100],
+  ["strong", 30, 424242, null, "depth", 1000, 10, null, 514, 100],
+  ["struggling", 1, 7, null, "deus", 172, 8, null, 159, 84],
+  ["struggling", 1, 424242, null, "classic", 17, 5, null, 15, 66],
+  ["struggling", 8, 7, null, "classic", 108, 7, null, 32, 83],
+  ["struggling", 8, 424242, null, "classic", 108, 7, null, 56, 83],
+  ["struggling", 30, 7, null, "classic", 554, 10, null, 161, 91],
+  ["struggling", 30, 424242, null, "depth", 922, 10, null, 474, 98],
+  ["new", 8, 8675309, null, "strategic", 152, 8, 60, 100, 82],
+  ["new", 15, 8675309, null, "tactical", 903, 10, 20, 589, 118],
+  ["new", 30, 8675309, null, "tactical", 1000, 10, 15, 653, 122],
+  ["struggling", 8, 8675309, null, "strategic", 84, 7, 60, 55, 79],
+  ["struggling", 15, 8675309, null, "tactical", 486, 9, 30, 317, 109],
+  ["struggling", 30, 8675309, null, "tactical", 1000, 10, 25, 653, 117],
+  ["new", 8, 7, 70, "classic", 63, 8, null, 19, 70],
+  ["new", 8, 7, 110, "classic", 1000, 10, null, 290, 100],
+  ["struggling", 8, 424242, 60, "classic", 33, 8, null, 17, 60],
+  ["new", 15, 8675309, 90, "tactical", 226, 10, 37, 148, 90],
+  ["new", 15, 8675309, 130, "tactical", 1000, 10, 15, 653, 122],
+  ["struggling", 30, 8675309, 100, "tactical", 330, 10, 28, 216, 100],
+];
+
+function randomMetrics(rng: SeededRandom): SkillMetrics {
+  return {
+    skillLevel: rng.nextInt(0, 100),
+    successRate: rng.next(),
+    consistencyScore: rng.next(),
+    reactionSpeed: rng.next(),
+    failureStreak: rng.nextInt(0, 6),
+    winStreak: rng.nextInt(0, 10),
+    difficultyModifier: 0.5 + rng.next(),
+  };
+}
+
+// Campaign levels over a spread of players, with and without a flow target
+function sampleLevels(count: number): LevelParams[] {
+  const rng = new SeededRandom(2024);
+  return Array.from({ length: count }, () =>
+    generateLevel(
+      rng.nextInt(1, 80),
+      randomMetrics(rng),
+      rng.nextInt(1, 2147483646),
+      rng.next() < 0.5 ? rng.nextInt(20, 200) : undefined,
+    ),
+  );
+}
+
+// Custom settings down to the smallest ranges and budgets the editor allows
+function sampleCustomLevels(count: number): LevelParams[] {
+  const rng = new SeededRandom(4048);
+  return Array.from({ length: count }, () => {
+    const rangeMin = rng.nextInt(0, 50);
+    return createCustomLevel(
+      {
+        gameMode: MODES[rng.nextInt(0, MODES.length - 1)],
+        rangeMin,
+        rangeMax: rangeMin + rng.nextInt(1, 950),
+        maxAttempts: rng.nextInt(1, 20),
+        timeLimit: rng.next() < 0.5 ? null : rng.nextInt(1, 600),
+      },
+      rng.nextInt(1, 2147483646),
+    );
+  });
+}
+
+// Plays the level by halving with no time passing, as a perfect player would
+function winsByHalving(level: LevelParams): boolean {
+  const rng = new SeededRandom(level.seed);
+  let state = createPlayingState(level, 0);
+  while (state.outcome === null) {
+    const guess = chooseBotGuess(level, state.currentGuesses, "bisect", rng);
+    const next = reduceGame(state, { type: "guess", guess, now: 0 });
+    if (next === state) return false;
+    state = next;
+  }
+  return state.outcome === "won";
+}
+
+describe("generateLevel", () => {
+  it("matches the golden levels", () => {
+    for (const [
+      profile,
+      levelNumber,
+      seed,
+      flowTarget,
+      ...expected
+    ] of GOLDEN) {
+      const level = generateLevel(
+        levelNumber,
+        PROFILES[profile],
+        seed,
+        flowTarget ?? undefined,
+      );
+      assert.deepEqual(
+        [
+          level.gameMode,
+          level.rangeMax,
+          level.maxAttempts,
+          level.timeLimit,
+          level.targetNumber,
+          level.difficultyScore,
+        ],
+        expected,
+        `${profile} player, level ${levelNumber}, seed ${seed}, flow ${flowTarget}`,
+      );
+    }
+  });
+
+  it("gives the same level for the same inputs", () => {
+    const rng = new SeededRandom(77);
+    for (let i = 0; i < 200; i++) {
+      const levelNumber = rng.nextInt(1, 80);
+      const metrics = randomMetrics(rng);
+      const seed = rng.nextInt(1, 2147483646);
+      assert.deepEqual(
+        generateLevel(levelNumber, metrics, seed, 120),
+        generateLevel(levelNumber, { ...metrics }, seed, 120),
+      );
+    }
+  });
+});
+
+describe("regenerateLevel", () => {
+  it("rebuilds the target of campaign levels from their seed", () => {
+    for (const level of sampleLevels(2000)) {
+      assert.equal(
+        regenerateLevel(level).targetNumber,
+        level.targetNumber,
+        `level ${level.levelNumber}, seed ${level.seed}`,
+      );
+    }
+  });
+
+  it("rebuilds the target of custom levels from their seed", () => {
+    for (const level of sampleCustomLevels(500)) {
+      assert.equal(regenerateLevel(level).targetNumber, level.targetNumber);
+    }
+  });
+});
+
+describe("validateLevel", () => {
+  it("leaves every level winnable by halving", () => {
+    for (const level of [...sampleLevels(1000), ...sampleCustomLevels(1000)]) {
+      const range = level.rangeMax - level.rangeMin + 1;
+      const where = `${range} numbers, ${level.maxAttempts} attempts, seed ${level.seed}`;
+
+      assert.ok(level.maxAttempts >= getBisectionAttempts(range), where);
+      assert.ok(level.maxAttempts >= 2, where);
+      assert.ok(level.timeLimit === null || level.timeLimit >= 10, where);
+      assert.ok(
+        level.targetNumber >= level.rangeMin &&
+          level.targetNumber <= level.rangeMax,
+        where,
+      );
+      assert.ok(winsByHalving(level), where);
+    }
+  });
+
+  it("raises attempts that halving cannot work within", () => {
+    for (const [rangeMax, maxAttempts, raisedTo] of [
+      [4, 2, 3],
+      [8, 3, 4],
+      [7, 3, 3],
+      [1000, 9, 10],
+    ]) {
+      const { level, adjustments } = checkCustomLevel(
+        {
+          gameMode: "classic",
+          rangeMin: 1,
+          rangeMax,
+          maxAttempts,
+          timeLimit: null,
+        },
+        1,
+      );
+      assert.equal(level?.maxAttempts, raisedTo, `1 to ${rangeMax}`);
+      assert.equal(adjustments.length, raisedTo === maxAttempts ? 0 : 1);
+    }
+  });
+});
@@ -1,5 +1,14 @@
+import { getModeHintStyle } from "./hint-styles";
 import { SeededRandom } from "./seeded-random";
-import { GameMode, LevelParams, SkillMetrics } from "./types";
+import { createInitialSkillMetrics } from "./skill-model";
+import {
+  CustomLevelSettings,
+  DifficultyTier,
+  DifficultyWeights,
+  GameMode,
+  LevelParams,
+  SkillMetrics,
+} from "./types";
 
 const BASE_RANGES: Record<GameMode, { min: number; max: number }> = {
   classic: { min: 1, max: 10 },
@@ -25,35 +34,58 @@ const TIME_LIMITS: Record<GameMode, number | null> = {
   deus: null,
 };
 
-const HINT_STYLES: Record<GameMode, LevelParams["hintStyle"]> = {
-  classic: "basic",
-  depth: "distance",
-  strategic: "penalty",
-  tactical: "hot_cold",
-  deus: "divine",
+// The original hand-set weights. The server refits them from real outcomes
+// (see difficulty-calibration.ts) and the client switches to its latest
+// fit once it has been fetched.
+export const DEFAULT_DIFFICULTY_WEIGHTS: DifficultyWeights = {
+  base: 0,
+  range: 10,
+  attempts: 5,
+  time: 0.5,
 };
 
-function calculateDifficultyScore(
+let difficultyWeights = DEFAULT_DIFFICULTY_WEIGHTS;
+
+export function setDifficultyWeights(weights: DifficultyWeights) {
+  difficultyWeights = weights;
+}
+
+// The level properties the weights apply to, in the order of
+// DifficultyWeights after base
+export function getDifficultyFeatures(
   range: number,
   attempts: number,
   timeLimit: number | null
+): [number, number, number] {
+  return [
+    Math.log2(range),
+    Math.max(0, 10 - attempts),
+    timeLimit !== null ? Math.max(0, 60 - timeLimit) : 0,
+  ];
+}
+
+export function calculateDifficultyScore(
+  range: number,
+  attempts: number,
+  timeLimit: number | null,
+  weights: DifficultyWeights = difficultyWeights,
 ): number {
-  let score = 0;
-  
-  const rangeScore = Math.log2(range) * 10;
-  score += rangeScore;
-  
-  const attemptPenalty = Math.max(0, (10 - attempts) * 5);
-  score += attemptPenalty;
-  
-  if (timeLimit !== null) {
-    const timePressure = Math.max(0, (60 - timeLimit) * 0.5);
-    score += timePressure;
-  }
+  const [rangeBits, missingAttempts, timePressure] = getDifficultyFeatures(
+    range,
+    attempts,
+    timeLimit,
+  );
   
-  return Math.round(score);
+  return Math.round(
+    weights.base +
+      rangeBits * weights.range +
+      missingAttempts * weights.attempts +
+      timePressure * weights.time,
+  );
 }
 
+// Each branch makes the same number of draws whatever the metrics, which
+// regenerateLevel relies on
 function selectGameMode(
   levelNumber: number,
   skillMetrics: SkillMetrics,
@@ -85,6 +117,19 @@ function selectGameMode(
   return "tactical";
 }
 
+// Every draw a level makes before its target. How many there are depends
+// only on the level number, so the target can be rebuilt from the seed.
+function drawGameMode(
+  levelNumber: number,
+  skillMetrics: SkillMetrics,
+  rng: SeededRandom,
+): GameMode {
+  const gameMode = selectGameMode(levelNumber, skillMetrics, rng);
+
+  // Easter Egg: Deus Mode
+  return rng.next() < 0.05 ? "deus" : gameMode;
+}
+
 function calculateRangeExpansion(
   levelNumber: number,
   skillMetrics: SkillMetrics
@@ -116,61 +161,193 @@ function calculateAttemptReduction(
   return Math.max(0, baseReduction + skillReduction + failureSafety);
 }
 
-function validateLevel(params: LevelParams): LevelParams {
+// The guesses halving needs to be sure of finding the number: each one
+// rules out half of what is left, and the last has to name it
+export function getBisectionAttempts(rangeSize: number): number {
+  return Math.ceil(Math.log2(rangeSize + 1));
+}
+
+// Anything raised to make the level playable is explained in `adjustments`
+function validateLevel(
+  params: LevelParams,
+  adjustments: string[] = [],
+): LevelParams {
   const range = params.rangeMax - params.rangeMin + 1;
-  const minAttempts = Math.ceil(Math.log2(range));
+  const minAttempts = getBisectionAttempts(range);
   
   if (params.maxAttempts < minAttempts) {
+    adjustments.push(
+      `Attempts raised to ${minAttempts}: finding one of ${range} numbers by halving can take that many guesses`,
+    );
     params.maxAttempts = minAttempts;
   }
   
   if (params.maxAttempts < 2) {
+    adjustments.push("Attempts raised to 2, the fewest any level allows");
     params.maxAttempts = 2;
   }
   
   if (params.timeLimit !== null && params.timeLimit < 10) {
+    adjustments.push("Time limit raised to 10 seconds, the shortest allowed");
     params.timeLimit = 10;
   }
   
+  // Scored again, so a raised level is not reported harder than it plays
+  params.difficultyScore = calculateDifficultyScore(
+    range,
+    params.maxAttempts,
+    params.timeLimit,
+  );
   return params;
 }
 
+// Share of a flow offset taken by each property, for timed and untimed
+// levels
+const FLOW_SHARES = {
+  timed: { range: 0.5, attempts: 0.3, time: 0.2 },
+  untimed: { range: 0.6, attempts: 0.4, time: 0 },
+};
+// Furthest the flow controller moves a level from the campaign's own curve
+const MAX_FLOW_OFFSET = 100;
+const FLOW_PASSES = 4;
+const MIN_FLOW_RANGE = 5;
+const MAX_FLOW_ATTEMPTS = 12;
+const MIN_TIME_LIMIT = 15;
+
+interface FlowProperties {
+  rangeMax: number;
+  maxAttempts: number;
+  timeLimit: number | null;
+}
+
+// Moves a level's difficulty score by `offset` points, changing range,
+// attempts and time limit together so no one of them swings far
+function shiftFlowProperties(
+  rangeMin: number,
+  level: FlowProperties,
+  offset: number,
+): FlowProperties {
+  const weights = difficultyWeights;
+  const shares =
+    level.timeLimit !== null ? FLOW_SHARES.timed : FLOW_SHARES.untimed;
+  const [rangeBits, missingAttempts, timePressure] = getDifficultyFeatures(
+    level.rangeMax - rangeMin + 1,
+    level.maxAttempts,
+    level.timeLimit,
+  );
+  // How far a property has to move to take its share of the offset
+  const shift = (share: number, weight: number) =>
+    weight > 0 ? (offset * share) / weight : 0;
+
+  const range = Math.round(
+    Math.pow(2, rangeBits + shift(shares.range, weights.range)),
+  );
+  const attempts = Math.round(
+    10 - (missingAttempts + shift(shares.attempts, weights.attempts)),
+  );
+
+  const size = Math.min(1000, Math.max(MIN_FLOW_RANGE, range));
+
+  return {
+    rangeMax: rangeMin + size - 1,
+    // validateLevel would raise attempts back up to a full binary search
+    maxAttempts: Math.min(
+      MAX_FLOW_ATTEMPTS,
+      Math.max(2, getBisectionAttempts(size), attempts),
+    ),
+    timeLimit:
+      level.timeLimit === null
+        ? null
+        : Math.min(
+            60,
+            Math.max(
+              MIN_TIME_LIMIT,
+              Math.round(
+                60 - (timePressure + shift(shares.time, weights.time)),
+              ),
+            ),
+          ),
+  };
+}
+
+// Brings a level as close to the flow target as its limits allow. A
+// property that hits a limit cannot take its share, so each pass shifts by
+// whatever gap is left and the others make up the difference.
+function applyFlowTarget(
+  rangeMin: number,
+  base: FlowProperties,
+  flowTarget: number,
+): FlowProperties {
+  const score = (level: FlowProperties) => {
+    const range = level.rangeMax - rangeMin + 1;
+    return calculateDifficultyScore(
+      range,
+      Math.max(level.maxAttempts, getBisectionAttempts(range)),
+      level.timeLimit,
+    );
+  };
+  const baseScore = score(base);
+  const target = Math.max(
+    baseScore - MAX_FLOW_OFFSET,
+    Math.min(baseScore + MAX_FLOW_OFFSET, flowTarget),
+  );
+
+  let level = base;
+  for (let pass = 0; pass < FLOW_PASSES; pass++) {
+    const gap = target - score(level);
+    if (Math.abs(gap) < 1) break;
+    level = shiftFlowProperties(rangeMin, level, gap);
+  }
+  return level;
+}
+
+// flowTarget is the difficulty score the flow controller aims for. When it
+// is given the controller handles losing runs, so the failure streak no
+// longer eases the level on its own.
 export function generateLevel(
   levelNumber: number,
   skillMetrics: SkillMetrics,
-  seed?: number
+  seed?: number,
+  flowTarget?: number,
 ): LevelParams {
   const actualSeed = seed ?? Date.now() + levelNumber;
   const rng = new SeededRandom(actualSeed);
+  const metrics =
+    flowTarget !== undefined
+      ? { ...skillMetrics, failureStreak: 0 }
+      : skillMetrics;
   
-  let gameMode = selectGameMode(levelNumber, skillMetrics, rng);
-  
-  // Easter Egg: Deus Mode
-  if (rng.next() < 0.05) {
-    gameMode = "deus";
-  }
+  const gameMode = drawGameMode(levelNumber, metrics, rng);
 
   const baseRange = BASE_RANGES[gameMode];
-  const expansion = calculateRangeExpansion(levelNumber, skillMetrics);
+  const expansion = calculateRangeExpansion(levelNumber, metrics);
   
   const rangeMin = baseRange.min;
-  const rangeMax = Math.min(
+  let rangeMax = Math.min(
     1000,
     Math.round(baseRange.max + expansion * (baseRange.max - baseRange.min))
   );
   
   const baseAttempts = BASE_ATTEMPTS[gameMode];
-  const attemptReduction = calculateAttemptReduction(levelNumber, skillMetrics);
-  const maxAttempts = Math.max(2, baseAttempts - attemptReduction);
+  const attemptReduction = calculateAttemptReduction(levelNumber, metrics);
+  let maxAttempts = Math.max(2, baseAttempts - attemptReduction);
   
   let timeLimit = TIME_LIMITS[gameMode];
   if (timeLimit !== null && levelNumber > 10) {
     timeLimit = Math.max(15, timeLimit - Math.floor((levelNumber - 10) * 2));
   }
-  if (skillMetrics.failureStreak > 2 && timeLimit !== null) {
+  if (metrics.failureStreak > 2 && timeLimit !== null) {
     timeLimit = Math.min(60, timeLimit + 10);
   }
   
+  if (flowTarget !== undefined) {
+    ({ rangeMax, maxAttempts, timeLimit } = applyFlowTarget(
+      rangeMin,
+      { rangeMax, maxAttempts, timeLimit },
+      flowTarget,
+    ));
+  }
+
   const targetNumber = rng.nextInt(rangeMin, rangeMax);
   
   const difficultyScore = calculateDifficultyScore(
@@ -188,17 +365,108 @@ export function generateLevel(
     timeLimit,
     gameMode,
     targetNumber,
-    hintStyle: HINT_STYLES[gameMode],
+    hintStyle: getModeHintStyle(gameMode),
     difficultyScore,
   };
   
   return validateLevel(params);
 }
 
+// Custom levels sit outside the campaign. They still report level 1 so they
+// fit the same saved level and result shapes as campaign levels.
+export const CUSTOM_LEVEL_NUMBER = 1;
+
+export const CUSTOM_LEVEL_LIMITS = {
+  maxNumber: 1000,
+  maxAttempts: 20,
+  maxTimeLimit: 600,
+};
+
+export interface CustomLevelCheck {
+  level: LevelParams | null;
+  // Settings that cannot be played at all
+  errors: string[];
+  // Settings that were raised to make the level playable
+  adjustments: string[];
+}
+
+// Hand-picked settings, as used by private rooms and custom games. The hint
+// style follows the mode unless one is chosen, and the usual limits are
+// applied on top.
+export function createCustomLevel(
+  settings: CustomLevelSettings,
+  seed: number,
+  adjustments: string[] = [],
+): LevelParams {
+  const rng = new SeededRandom(seed);
+  // Spend the draws generateLevel makes before the target, so
+  // regenerateLevel rebuilds the same target from the seed
+  drawGameMode(CUSTOM_LEVEL_NUMBER, createInitialSkillMetrics(), rng);
+  const targetNumber = rng.nextInt(settings.rangeMin, settings.rangeMax);
+
+  const params: LevelParams = {
+    ...settings,
+    seed,
+    levelNumber: CUSTOM_LEVEL_NUMBER,
+    targetNumber,
+    hintStyle: settings.hintStyle ?? getModeHintStyle(settings.gameMode),
+    difficultyScore: calculateDifficultyScore(
+      settings.rangeMax - settings.rangeMin + 1,
+      settings.maxAttempts,
+      settings.timeLimit,
+    ),
+  };
+
+  return validateLevel(params, adjustments);
+}
+
+export function checkCustomLevel(
+  settings: CustomLevelSettings,
+  seed: number,
+): CustomLevelCheck {
+  const errors: string[] = [];
+  const { maxNumber, maxAttempts, maxTimeLimit } = CUSTOM_LEVEL_LIMITS;
+
+  if (settings.rangeMin < 0) {
+    errors.push("The range cannot start below 0");
+  }
+  if (settings.rangeMax > maxNumber) {
+    errors.push(`The range cannot go above ${maxNumber}`);
+  }
+  if (settings.rangeMax <= settings.rangeMin) {
+    errors.push("The range needs at least two numbers");
+  }
+  if (settings.maxAttempts > maxAttempts) {
+    errors.push(`At most ${maxAttempts} attempts are allowed`);
+  }
+  if (settings.timeLimit !== null && settings.timeLimit > maxTimeLimit) {
+    errors.push(`The time limit cannot be over ${maxTimeLimit} seconds`);
+  }
+  if (errors.length > 0) {
+    return { level: null, errors, adjustments: [] };
+  }
+
+  const adjustments: string[] = [];
+  const level = createCustomLevel(settings, seed, adjustments);
+  return { level, errors, adjustments };
+}
+
+// Settings that rebuild a level with a different target
+export function getCustomSettings(level: LevelParams): CustomLevelSettings {
+  return {
+    gameMode: level.gameMode,
+    rangeMin: level.rangeMin,
+    rangeMax: level.rangeMax,
+    maxAttempts: level.maxAttempts,
+    timeLimit: level.timeLimit,
+    hintStyle: level.hintStyle,
+  };
+}
+
 export function regenerateLevel(params: LevelParams): LevelParams {
   const rng = new SeededRandom(params.seed);
-  
-  rng.next();
+  // Only the number of draws matters here, not the mode they pick
+  drawGameMode(params.levelNumber, createInitialSkillMetrics(), rng);
   
   const targetNumber = rng.nextInt(params.rangeMin, params.rangeMax);
   
@@ -208,50 +476,11 @@ export function regenerateLevel(params: LevelParams): LevelParams {
   };
 }
 
-export function getHint(
-  guess: number,
-  target: number,
-  hintStyle: LevelParams["hintStyle"],
-  attemptsLeft: number
-): { feedback: "higher" | "lower"; hint?: string; penalty?: number } {
-  const feedback = guess < target ? "higher" : "lower";
-  const distance = Math.abs(target - guess);
-  
-  switch (hintStyle) {
-    case "basic":
-      return { feedback };
-      
-    case "distance":
-      let distanceHint = "";
-      if (distance <= 2) distanceHint = "Very close!";
-      else if (distance <= 5) distanceHint = "Getting warm";
-      else if (distance <= 10) distanceHint = "Moderate distance";
-      else distanceHint = "Far away";
-      return { feedback, hint: distanceHint };
-      
-    case "hot_cold":
-      let tempHint = "";
-      const ratio = distance / 100;
-      if (ratio <= 0.05) tempHint = "Burning hot!";
-      else if (ratio <= 0.1) tempHint = "Very hot";
-      else if (ratio <= 0.2) tempHint = "Warm";
-      else if (ratio <= 0.4) tempHint = "Cool";
-      else tempHint = "Freezing cold";
-      return { feedback, hint: tempHint };
-      
-    case "penalty":
-      const penaltyHint = attemptsLeft <= 2 ? "Critical! Limited attempts" : undefined;
-      return { feedback, hint: penaltyHint, penalty: attemptsLeft <= 2 ? 1 : 0 };
-
-    case "divine":
-      const diff = Math.abs(target - guess);
-      const isMultiple = target % guess === 0 || guess % target === 0;
-      const hint = isMultiple ? "A divine multiple" : `Difference: ${diff}`;
-      return { feedback, hint };
-      
-    default:
-      return { feedback };
-  }
+export function getDifficultyTier(difficultyScore: number): DifficultyTier {
+  if (difficultyScore >= 130) return "expert";
+  if (difficultyScore >= 115) return "hard";
+  if (difficultyScore >= 100) return "medium";
+  return "easy";
 }
 
 export function getModeDescription(mode: GameMode): string {
@@ -283,3 +512,18 @@ export function getModeIcon(mode: GameMode): string {
       return "sun";
   }
 }
+
+export function getModeName(mode: GameMode): string {
+  switch (mode) {
+    case "classic":
+      return "Classic";
+    case "depth":
+      return "Depth";
+    case "strategic":
+      return "Strategic";
+    case "tactical":
+      return "Tactical";
+    case "deus":
+      return "Deus";
+  }
+}
@@ -0,0 +1,286 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { z, ZodTypeAny } from "zod";
+import { AchievementState, rebuildAchievements } from "./achievements";
+import {
+  DailyChallengeState,
+  createInitialDailyState,
+} from "./daily-challenge";
+import { rebuildStats } from "./progress-sync";
+import { PlayerRatings, getRatedSkillMetrics, rebuildRatings } from "./rating";
+import {
+  achievementStateSchema,
+  dailyChallengeSchema,
+  gameStateSchema,
+  levelResultSchema,
+  playerProfileSchema,
+  playerRatingsSchema,
+  playerStatsSchema,
+  skillMetricsSchema,
+} from "./save-schema";
+import {
+  calculateSkillMetrics,
+  createInitialSkillMetrics,
+} from "./skill-model";
+import {
+  GameState,
+  LevelResult,
+  PlayerProfile,
+  PlayerStats,
+  SkillMetrics,
+} from "./types";
+
+// Saves carry a format version. Loading upgrades older saves one version at
+// a time, then validates each stored blob on its own so a damaged or missing
+// entry is rebuilt from the others instead of resetting the player.
+
+export const SAVE_VERSION = 2;
+
+export const STORAGE_KEYS = {
+  STATS: "brain_cubes_stats",
+  METRICS: "brain_cubes_metrics",
+  HISTORY: "brain_cubes_history",
+  CUSTOM_HISTORY: "brain_cubes_custom_history",
+  PROFILE: "brain_cubes_profile",
+  LEVEL_NUMBER: "brain_cubes_level_number",
+  DAILY: "brain_cubes_daily",
+  ACHIEVEMENTS: "brain_cubes_achievements",
+  RATINGS: "brain_cubes_ratings",
+  LAST_SYNC: "brain_cubes_last_sync",
+  SAVED_GAME: "brain_cubes_saved_game_state",
+};
+
+const VERSION_KEY = "brain_cubes_save_version";
+// Raw text of anything that failed to load, kept so it can still be recovered
+// by hand after the repaired save has been written over it
+const RECOVERY_BACKUP_KEY = "brain_cubes_recovery_backup";
+
+type SaveKey = keyof typeof STORAGE_KEYS;
+type RawSave = Partial<Record<SaveKey, unknown>>;
+
+export interface SaveData {
+  stats: PlayerStats;
+  metrics: SkillMetrics;
+  history: LevelResult[];
+  // Custom games are kept apart so they never feed the skill model
+  customHistory: LevelResult[];
+  profile: PlayerProfile;
+  levelNumber: number;
+  daily: DailyChallengeState;
+  achievements: AchievementState;
+  ratings: PlayerRatings;
+  lastSyncedAt: number | null;
+  savedGame: GameState | null;
+}
+
+export function createInitialProfile(): PlayerProfile {
+  return {
+    displayName: "Player",
+    avatarId: 0,
+    soundEnabled: true,
+    hapticsEnabled: true,
+    hidePossibleOnHard: false,
+    difficultyPreset: "balanced",
+    accountId: null,
+    updatedAt: 0,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readHistory(value: unknown): LevelResult[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    const parsed = levelResultSchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// Version 1 had no version key. Its stats had no deus entry (the counters
+// came out as null once a deus level was played), profiles predate accounts
+// and saved rounds predate outcomes.
+function migrateV1(save: RawSave): RawSave {
+  const next = { ...save };
+
+  if (isRecord(save.STATS) && isRecord(save.STATS.modeStats)) {
+    const deusResults = readHistory(save.HISTORY).filter(
+      (result) => result.gameMode === "deus",
+    );
+    next.STATS = {
+      ...save.STATS,
+      modeStats: {
+        ...save.STATS.modeStats,
+        deus: rebuildStats(deusResults).modeStats.deus,
+      },
+    };
+  }
+  if (isRecord(save.PROFILE)) {
+    next.PROFILE = { accountId: null, updatedAt: 0, ...save.PROFILE };
+  }
+  if (isRecord(save.SAVED_GAME)) {
+    next.SAVED_GAME = { outcome: null, source: "campaign", ...save.SAVED_GAME };
+  }
+  return next;
+}
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  1: migrateV1,
+};
+
+function levelNumberFromHistory(history: LevelResult[]): number {
+  const last = history[history.length - 1];
+  if (!last) return 1;
+  return last.won ? last.levelNumber + 1 : last.levelNumber;
+}
+
+function validateSave(save: RawSave): { data: SaveData; invalid: SaveKey[] } {
+  const invalid: SaveKey[] = [];
+
+  const read = <S extends ZodTypeAny>(
+    key: SaveKey,
+    schema: S,
+  ): z.infer<S> | undefined => {
+    if (save[key] === undefined) return undefined;
+    const parsed = schema.safeParse(save[key]);
+    if (parsed.success) return parsed.data;
+    invalid.push(key);
+    return undefined;
+  };
+
+  const history = readHistory(save.HISTORY);
+  if (
+    save.HISTORY !== undefined &&
+    (!Array.isArray(save.HISTORY) || history.length !== save.HISTORY.length)
+  ) {
+    invalid.push("HISTORY");
+  }
+  const customHistory = readHistory(save.CUSTOM_HISTORY);
+  if (
+    save.CUSTOM_HISTORY !== undefined &&
+    (!Array.isArray(save.CUSTOM_HISTORY) ||
+      customHistory.length !== save.CUSTOM_HISTORY.length)
+  ) {
+    invalid.push("CUSTOM_HISTORY");
+  }
+
+  const stats: PlayerStats =
+    read("STATS", playerStatsSchema) ?? rebuildStats(history);
+  const ratings: PlayerRatings =
+    read("RATINGS", playerRatingsSchema) ?? rebuildRatings(history);
+  const metrics: SkillMetrics =
+    read("METRICS", skillMetricsSchema) ??
+    (history.length > 0
+      ? getRatedSkillMetrics(calculateSkillMetrics(stats, history), ratings)
+      : createInitialSkillMetrics());
+  const daily: DailyChallengeState =
+    read("DAILY", dailyChallengeSchema) ?? createInitialDailyState();
+
+  return {
+    data: {
+      stats,
+      metrics,
+      history,
+      customHistory,
+      profile: read("PROFILE", playerProfileSchema) ?? createInitialProfile(),
+      levelNumber:
+        read("LEVEL_NUMBER", z.number().int().min(1)) ??
+        levelNumberFromHistory(history),
+      daily,
+      achievements:
+        read("ACHIEVEMENTS", achievementStateSchema) ??
+        rebuildAchievements(history, daily.lastResult),
+      ratings,
+      lastSyncedAt: read("LAST_SYNC", z.number().nullable()) ?? null,
+      savedGame: read("SAVED_GAME", gameStateSchema) ?? null,
+    },
+    invalid,
+  };
+}
+
+export async function loadSave(): Promise<SaveData> {
+  const keys = Object.keys(STORAGE_KEYS) as SaveKey[];
+  const entries = await AsyncStorage.multiGet([
+    VERSION_KEY,
+    ...keys.map((key) => STORAGE_KEYS[key]),
+  ]);
+  const [storedVersion, ...blobs] = entries.map(([, value]) => value);
+
+  const raw: RawSave = {};
+  const damaged: Partial<Record<SaveKey, string>> = {};
+  keys.forEach((key, index) => {
+    const blob = blobs[index];
+    if (!blob) return;
+    try {
+      raw[key] = JSON.parse(blob);
+    } catch {
+      damaged[key] = blob;
+    }
+  });
+
+  const hasData = blobs.some((blob) => !!blob);
+  let version = storedVersion ? parseInt(storedVersion, 10) : NaN;
+  if (!Number.isInteger(version) || version < 1) {
+    version = hasData ? 1 : SAVE_VERSION;
+  }
+
+  // Saves from a newer build skip migration; validation keeps what still fits
+  let save = raw;
+  for (; version < SAVE_VERSION; version++) {
+    save = MIGRATIONS[version](save);
+  }
+
+  const { data, invalid } = validateSave(save);
+  invalid.forEach((key) => {
+    damaged[key] = blobs[keys.indexOf(key)] ?? undefined;
+  });
+
+  if (Object.keys(damaged).length > 0) {
+    console.warn("Recovered from damaged save data", Object.keys(damaged));
+    await AsyncStorage.setItem(
+      RECOVERY_BACKUP_KEY,
+      JSON.stringify({
+        version: storedVersion,
+        recoveredAt: Date.now(),
+        damaged,
+      }),
+    );
+  }
+
+  return data;
+}
+
+export async function writeSave(data: SaveData): Promise<void> {
+  await AsyncStorage.multiSet([
+    [VERSION_KEY, SAVE_VERSION.toString()],
+    [STORAGE_KEYS.STATS, JSON.stringify(data.stats)],
+    [STORAGE_KEYS.METRICS, JSON.stringify(data.metrics)],
+    [STORAGE_KEYS.HISTORY, JSON.stringify(data.history)],
+    [STORAGE_KEYS.CUSTOM_HISTORY, JSON.stringify(data.customHistory)],
+    [STORAGE_KEYS.PROFILE, JSON.stringify(data.profile)],
+    [STORAGE_KEYS.LEVEL_NUMBER, JSON.stringify(data.levelNumber)],
+    [STORAGE_KEYS.DAILY, JSON.stringify(data.daily)],
+    [STORAGE_KEYS.ACHIEVEMENTS, JSON.stringify(data.achievements)],
+    [STORAGE_KEYS.RATINGS, JSON.stringify(data.ratings)],
+    [STORAGE_KEYS.LAST_SYNC, JSON.stringify(data.lastSyncedAt)],
+  ]);
+
+  if (data.savedGame) {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.SAVED_GAME,
+      JSON.stringify(data.savedGame),
+    );
+  } else {
+    await AsyncStorage.removeItem(STORAGE_KEYS.SAVED_GAME);
+  }
+
+  // Mobile flush
+  if (typeof AsyncStorage.flushGetRequests === "function") {
+    AsyncStorage.flushGetRequests();
+  }
+}
+
+export async function clearSave(): Promise<void> {
+  await AsyncStorage.multiRemove([VERSION_KEY, ...Object.values(STORAGE_KEYS)]);
+}
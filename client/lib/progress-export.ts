@@ -0,0 +1,162 @@
+import { z } from "zod";
+import { rebuildAchievements } from "./achievements";
+import { canonicalJson } from "./canonical-json";
+import { SAVE_VERSION, SaveData } from "./persistence";
+import { rebuildRatings } from "./rating";
+import {
+  achievementStateSchema,
+  dailyChallengeSchema,
+  gameStateSchema,
+  levelResultSchema,
+  playerProfileSchema,
+  playerRatingsSchema,
+  playerStatsSchema,
+  skillMetricsSchema,
+} from "./save-schema";
+
+// A backup is a single JSON document that can be moved between devices by
+// hand. The checksum catches truncated or edited copies; it is not a
+// signature and does not stop deliberate tampering.
+
+export const EXPORT_FORMAT = "numbermind-progress";
+export const EXPORT_VERSION = 1;
+
+export type ExportedProgress = Omit<SaveData, "lastSyncedAt">;
+
+export type ExportOutcome = "shared" | "downloaded";
+
+export interface ProgressExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  saveVersion: number;
+  exportedAt: number;
+  checksum: string;
+  data: ExportedProgress;
+}
+
+export interface ProgressSummary {
+  displayName: string;
+  levelNumber: number;
+  totalGames: number;
+  totalWins: number;
+  bestStreak: number;
+  historyCount: number;
+  dailyBestStreak: number;
+  hasGameInProgress: boolean;
+}
+
+export type ImportResult =
+  | { ok: true; backup: ProgressExport }
+  | { ok: false; error: string };
+
+const envelopeSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.number().int().min(1),
+  saveVersion: z.number().int().min(1),
+  exportedAt: z.number(),
+  checksum: z.string(),
+  data: z.unknown(),
+});
+
+const exportedProgressSchema = z.object({
+  stats: playerStatsSchema,
+  metrics: skillMetricsSchema,
+  history: z.array(levelResultSchema),
+  // Backups made before custom games existed have none
+  customHistory: z.array(levelResultSchema).default([]),
+  profile: playerProfileSchema,
+  levelNumber: z.number().int().min(1),
+  daily: dailyChallengeSchema,
+  // Rebuilt from the history for backups made before achievements existed
+  achievements: achievementStateSchema.optional(),
+  // Rebuilt from the history for backups made before ratings existed
+  ratings: playerRatingsSchema.optional(),
+  savedGame: gameStateSchema.nullable(),
+});
+
+// FNV-1a, 32-bit
+function computeChecksum(data: unknown): string {
+  const text = canonicalJson(data);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+export function createProgressExport(
+  save: SaveData,
+  now: number = Date.now(),
+): ProgressExport {
+  const { lastSyncedAt: _lastSyncedAt, ...data } = save;
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    saveVersion: SAVE_VERSION,
+    exportedAt: now,
+    checksum: computeChecksum(data),
+    data,
+  };
+}
+
+export function parseProgressExport(text: string): ImportResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text.trim());
+  } catch {
+    return { ok: false, error: "This is not a NumberMind backup" };
+  }
+
+  const envelope = envelopeSchema.safeParse(json);
+  if (!envelope.success) {
+    return { ok: false, error: "This is not a NumberMind backup" };
+  }
+  const doc = envelope.data;
+  if (doc.version > EXPORT_VERSION || doc.saveVersion > SAVE_VERSION) {
+    return {
+      ok: false,
+      error: "This backup was made by a newer version of the app",
+    };
+  }
+  if (computeChecksum(doc.data) !== doc.checksum) {
+    return {
+      ok: false,
+      error: "This backup is damaged or was edited after export",
+    };
+  }
+
+  const data = exportedProgressSchema.safeParse(doc.data);
+  if (!data.success) {
+    return { ok: false, error: "This backup contains invalid progress data" };
+  }
+
+  const progress = data.data;
+  return {
+    ok: true,
+    backup: {
+      ...doc,
+      format: EXPORT_FORMAT,
+      data: {
+        ...progress,
+        achievements:
+          progress.achievements ??
+          rebuildAchievements(progress.history, progress.daily.lastResult),
+        ratings: progress.ratings ?? rebuildRatings(progress.history),
+      },
+    },
+  };
+}
+
+export function summarizeProgress(data: ExportedProgress): ProgressSummary {
+  return {
+    displayName: data.profile.displayName,
+    levelNumber: data.levelNumber,
+    totalGames: data.stats.totalGames,
+    totalWins: data.stats.totalWins,
+    bestStreak: data.stats.bestStreak,
+    historyCount: data.history.length,
+    dailyBestStreak: data.daily.bestStreak,
+    hasGameInProgress: data.savedGame !== null,
+  };
+}
@@ -0,0 +1,15 @@
+import { Share } from "react-native";
+
+import { ExportOutcome, ProgressExport } from "./progress-export";
+
+// Native builds hand the backup to the share sheet, which can save it to
+// files or send it to another device.
+export async function shareProgressExport(
+  doc: ProgressExport,
+): Promise<ExportOutcome> {
+  await Share.share({
+    title: "NumberMind Progress",
+    message: JSON.stringify(doc),
+  });
+  return "shared";
+}
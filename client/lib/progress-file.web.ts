@@ -0,0 +1,23 @@
+import { ExportOutcome, ProgressExport } from "./progress-export";
+
+function getFileName(doc: ProgressExport): string {
+  const date = new Date(doc.exportedAt).toISOString().slice(0, 10);
+  return `numbermind-progress-${date}.json`;
+}
+
+// Browsers have no share sheet for files, so the web build downloads the
+// backup as a JSON file instead
+export async function shareProgressExport(
+  doc: ProgressExport,
+): Promise<ExportOutcome> {
+  const blob = new Blob([JSON.stringify(doc)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getFileName(doc);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+  return "downloaded";
+}
@@ -0,0 +1,59 @@
+import {
+  calculateSkillMetrics,
+  createInitialStats,
+  updateStatsWithResult,
+} from "./skill-model";
+import { getRatedSkillMetrics, rebuildRatings } from "./rating";
+import { LevelResult, PlayerStats, ProgressSnapshot } from "./types";
+
+// Devices that played offline each hold part of the truth. Level history is
+// the only thing that can be merged safely, so both sides' results are
+// combined and every aggregate is rebuilt from the merged list.
+
+function resultKey(result: LevelResult): string {
+  return `${result.completedAt}:${result.levelNumber}:${result.gameMode}`;
+}
+
+export function mergeHistories(
+  local: LevelResult[],
+  remote: LevelResult[],
+): LevelResult[] {
+  const byKey = new Map<string, LevelResult>();
+  for (const result of [...remote, ...local]) {
+    byKey.set(resultKey(result), result);
+  }
+  return Array.from(byKey.values()).sort(
+    (a, b) => a.completedAt - b.completedAt,
+  );
+}
+
+export function rebuildStats(history: LevelResult[]): PlayerStats {
+  const stats = history.reduce(updateStatsWithResult, createInitialStats());
+  return {
+    ...stats,
+    lastPlayedAt:
+      history.length > 0 ? history[history.length - 1].completedAt : null,
+  };
+}
+
+export function mergeProgress(
+  local: ProgressSnapshot,
+  remote: ProgressSnapshot,
+): ProgressSnapshot {
+  const history = mergeHistories(local.history, remote.history);
+  const stats = rebuildStats(history);
+
+  return {
+    stats,
+    metrics: getRatedSkillMetrics(
+      calculateSkillMetrics(stats, history),
+      rebuildRatings(history),
+    ),
+    history,
+    profile:
+      remote.profile.updatedAt > local.profile.updatedAt
+        ? remote.profile
+        : local.profile,
+    levelNumber: Math.max(local.levelNumber, remote.levelNumber),
+  };
+}
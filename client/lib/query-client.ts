@@ -23,6 +23,23 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+/**
+ * Extracts the server's `message` from an error thrown by `apiRequest`
+ * @returns {string} A message suitable for showing to the player
+ */
+export function getApiErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return "Something went wrong";
+
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed?.message === "string") return parsed.message;
+  } catch {
+    // Not JSON; fall through to the raw text
+  }
+  return body || "Something went wrong";
+}
+
 export async function apiRequest(
   method: string,
   route: string,
@@ -0,0 +1,221 @@
+import { calculateDifficultyScore } from "./level-generator";
+import { GameMode, LevelResult, SkillMetrics } from "./types";
+
+// Glicko-2 ratings. Every campaign level is a match against the level
+// itself, rated from its difficultyScore, so ratings mean the same thing for
+// every player and can be compared between them. Each player holds one
+// rating overall and one per game mode, and every result updates both.
+//
+// Ratings are an aggregate of the level history like PlayerStats, so they
+// can always be rebuilt by replaying it. Daily and custom results are left
+// out, as they are for the rest of the skill model.
+
+export interface Rating {
+  // On the familiar Glicko scale, where new players start at 1500
+  rating: number;
+  // How far off the rating may be; shrinks as results come in
+  deviation: number;
+  // How erratic the player's results are
+  volatility: number;
+  matches: number;
+}
+
+export interface PlayerRatings {
+  overall: Rating;
+  modes: Record<GameMode, Rating>;
+}
+
+const INITIAL_RATING = 1500;
+const INITIAL_DEVIATION = 350;
+const INITIAL_VOLATILITY = 0.06;
+// Limits how fast volatility can move; Glickman suggests 0.3 to 1.2
+const TAU = 0.5;
+const CONVERGENCE = 0.000001;
+// Converts between the Glicko scale and the Glicko-2 scale
+const GLICKO2_SCALE = 173.7178;
+
+// A level of DIFFICULTY_MIDPOINT (the low end of "medium") is rated like a
+// new player, and each point of difficultyScore is worth RATING_PER_POINT
+const DIFFICULTY_MIDPOINT = 100;
+const RATING_PER_POINT = 10;
+// difficultyScore is a formula rather than a measured strength, so levels
+// carry some uncertainty of their own
+const LEVEL_DEVIATION = 50;
+
+// Rating points per point of skillLevel, which 1500 maps to 50
+const RATING_PER_SKILL_LEVEL = 10;
+
+export function createInitialRating(): Rating {
+  return {
+    rating: INITIAL_RATING,
+    deviation: INITIAL_DEVIATION,
+    volatility: INITIAL_VOLATILITY,
+    matches: 0,
+  };
+}
+
+export function createInitialRatings(): PlayerRatings {
+  return {
+    overall: createInitialRating(),
+    modes: {
+      classic: createInitialRating(),
+      depth: createInitialRating(),
+      strategic: createInitialRating(),
+      tactical: createInitialRating(),
+      deus: createInitialRating(),
+    },
+  };
+}
+
+export function getLevelRating(difficultyScore: number): number {
+  return (
+    INITIAL_RATING + (difficultyScore - DIFFICULTY_MIDPOINT) * RATING_PER_POINT
+  );
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, opponentMu: number, opponentPhi: number) {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+// Log-odds of beating a level, which is linear in its difficultyScore
+export function getWinLogit(rating: Rating, difficultyScore: number): number {
+  const mu = (rating.rating - INITIAL_RATING) / GLICKO2_SCALE;
+  const levelMu =
+    (getLevelRating(difficultyScore) - INITIAL_RATING) / GLICKO2_SCALE;
+  return g(LEVEL_DEVIATION / GLICKO2_SCALE) * (mu - levelMu);
+}
+
+// Chance of beating a level, for anything that wants to aim at a win rate
+export function getWinProbability(
+  rating: Rating,
+  difficultyScore: number,
+): number {
+  return 1 / (1 + Math.exp(-getWinLogit(rating, difficultyScore)));
+}
+
+// Step 5 of Glickman's paper: the new volatility, found with the Illinois
+// variant of regula falsi
+function updateVolatility(
+  sigma: number,
+  phi: number,
+  v: number,
+  delta: number,
+): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (
+      (ex * (delta * delta - phi * phi - v - ex)) / (2 * d * d) -
+      (x - a) / (TAU * TAU)
+    );
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+// One rating period holding a single match. score is 1 for a win, 0 for a
+// loss.
+export function updateRating(
+  rating: Rating,
+  difficultyScore: number,
+  score: number,
+): Rating {
+  const mu = (rating.rating - INITIAL_RATING) / GLICKO2_SCALE;
+  const phi = rating.deviation / GLICKO2_SCALE;
+  const opponentMu =
+    (getLevelRating(difficultyScore) - INITIAL_RATING) / GLICKO2_SCALE;
+  const opponentPhi = LEVEL_DEVIATION / GLICKO2_SCALE;
+
+  const expected = expectedScore(mu, opponentMu, opponentPhi);
+  const gPhi = g(opponentPhi);
+  const v = 1 / (gPhi * gPhi * expected * (1 - expected));
+  const delta = v * gPhi * (score - expected);
+
+  const volatility = updateVolatility(rating.volatility, phi, v, delta);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * gPhi * (score - expected);
+
+  return {
+    rating: newMu * GLICKO2_SCALE + INITIAL_RATING,
+    deviation: Math.min(INITIAL_DEVIATION, newPhi * GLICKO2_SCALE),
+    volatility,
+    matches: rating.matches + 1,
+  };
+}
+
+export function updateRatings(
+  ratings: PlayerRatings,
+  result: LevelResult,
+): PlayerRatings {
+  // Results saved before replays existed lack the range, so there is no
+  // level to rate them against
+  if (result.rangeMin === undefined || result.rangeMax === undefined) {
+    return ratings;
+  }
+
+  const difficultyScore = calculateDifficultyScore(
+    result.rangeMax - result.rangeMin + 1,
+    result.maxAttempts,
+    result.timeLimit,
+  );
+  const score = result.won ? 1 : 0;
+  const mode = result.gameMode;
+  return {
+    overall: updateRating(ratings.overall, difficultyScore, score),
+    modes: {
+      ...ratings.modes,
+      [mode]: updateRating(ratings.modes[mode], difficultyScore, score),
+    },
+  };
+}
+
+export function rebuildRatings(history: LevelResult[]): PlayerRatings {
+  return [...history]
+    .sort((a, b) => a.completedAt - b.completedAt)
+    .reduce(updateRatings, createInitialRatings());
+}
+
+// Adapter for code written against the heuristic skill model, such as
+// generateLevel: skillLevel comes from the overall rating and everything
+// else is left as calculateSkillMetrics worked it out
+export function getRatedSkillMetrics(
+  metrics: SkillMetrics,
+  ratings: PlayerRatings,
+): SkillMetrics {
+  const skillLevel =
+    50 + (ratings.overall.rating - INITIAL_RATING) / RATING_PER_SKILL_LEVEL;
+  return {
+    ...metrics,
+    skillLevel: Math.max(10, Math.min(100, skillLevel)),
+  };
+}
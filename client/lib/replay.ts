@@ -0,0 +1,79 @@
+import { GuessResult, LevelResult } from "./types";
+
+// Replays rebuild a finished level from its recorded guesses. Each step
+// applies one hint to the range the player could still be sure of, which is
+// what the Replay screen animates.
+
+export const REPLAY_SPEEDS = [1, 2, 4] as const;
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+// Gaps longer than this were pauses or the app sitting in the background
+const MAX_STEP_DELAY = 10000;
+const MIN_STEP_DELAY = 400;
+const FIRST_STEP_DELAY = 1000;
+
+export interface ReplayStep {
+  guess: GuessResult;
+  low: number;
+  high: number;
+  delay: number;
+}
+
+export interface LevelReplay {
+  rangeMin: number;
+  rangeMax: number;
+  // False for results saved before ranges were recorded; the range is then
+  // only as wide as the guesses and target make certain
+  rangeKnown: boolean;
+  steps: ReplayStep[];
+}
+
+export function narrowRange(
+  low: number,
+  high: number,
+  guess: GuessResult,
+): { low: number; high: number } {
+  switch (guess.feedback) {
+    case "correct":
+      return { low: guess.guess, high: guess.guess };
+    case "higher":
+      return { low: Math.max(low, guess.guess + 1), high };
+    case "lower":
+      return { low, high: Math.min(high, guess.guess - 1) };
+  }
+}
+
+export function getResultRange(result: LevelResult): {
+  rangeMin: number;
+  rangeMax: number;
+  rangeKnown: boolean;
+} {
+  const guessed = result.guesses.map((g) => g.guess);
+  return {
+    rangeMin: result.rangeMin ?? Math.min(1, result.targetNumber, ...guessed),
+    rangeMax: result.rangeMax ?? Math.max(result.targetNumber, ...guessed),
+    rangeKnown: result.rangeMin !== undefined && result.rangeMax !== undefined,
+  };
+}
+
+export function buildReplay(result: LevelResult): LevelReplay {
+  const { rangeMin, rangeMax, rangeKnown } = getResultRange(result);
+
+  let low = rangeMin;
+  let high = rangeMax;
+  const steps = result.guesses.map((guess, index) => {
+    ({ low, high } = narrowRange(low, high, guess));
+    const gap =
+      index === 0
+        ? FIRST_STEP_DELAY
+        : guess.timestamp - result.guesses[index - 1].timestamp;
+    return {
+      guess,
+      low,
+      high,
+      delay: Math.min(MAX_STEP_DELAY, Math.max(MIN_STEP_DELAY, gap)),
+    };
+  });
+
+  return { rangeMin, rangeMax, rangeKnown, steps };
+}
@@ -0,0 +1,75 @@
+import { apiRequest } from "./query-client";
+import {
+  CustomLevelSettings,
+  GuessResult,
+  RoomMembership,
+  RoomView,
+} from "./types";
+
+// Private rooms. The token returned on creating or joining identifies this
+// player in the room and is sent with every later request.
+
+export async function createRoom(
+  displayName: string,
+  settings: CustomLevelSettings,
+): Promise<RoomMembership> {
+  const res = await apiRequest("POST", "/api/rooms", {
+    displayName,
+    settings,
+  });
+  return res.json();
+}
+
+export async function joinRoom(
+  code: string,
+  displayName: string,
+): Promise<RoomMembership> {
+  const res = await apiRequest(
+    "POST",
+    `/api/rooms/${encodeURIComponent(code)}/players`,
+    { displayName },
+  );
+  return res.json();
+}
+
+export async function fetchRoom(
+  code: string,
+  token: string,
+): Promise<RoomView> {
+  const res = await apiRequest(
+    "GET",
+    `/api/rooms/${encodeURIComponent(code)}?token=${encodeURIComponent(token)}`,
+  );
+  return res.json();
+}
+
+export async function startRoom(
+  code: string,
+  token: string,
+): Promise<RoomView> {
+  const res = await apiRequest(
+    "POST",
+    `/api/rooms/${encodeURIComponent(code)}/start`,
+    { token },
+  );
+  return res.json();
+}
+
+export async function submitRoomGuess(
+  code: string,
+  token: string,
+  guess: number,
+): Promise<{ guess: GuessResult | null; room: RoomView }> {
+  const res = await apiRequest(
+    "POST",
+    `/api/rooms/${encodeURIComponent(code)}/guesses`,
+    { token, guess },
+  );
+  return res.json();
+}
+
+export async function leaveRoom(code: string, token: string): Promise<void> {
+  await apiRequest("POST", `/api/rooms/${encodeURIComponent(code)}/leave`, {
+    token,
+  });
+}
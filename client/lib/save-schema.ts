@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { HINT_STYLE_IDS } from "./hint-styles";
+
+// Shapes of everything the app persists. The server validates synced
+// progress with the same schemas, so they live here rather than in
+// shared/schema.ts, which pulls in drizzle.
+
+export const gameModeSchema = z.enum([
+  "classic",
+  "depth",
+  "strategic",
+  "tactical",
+  "deus",
+]);
+
+export const hintStyleSchema = z.enum(HINT_STYLE_IDS);
+
+export const guessResultSchema = z.object({
+  guess: z.number().int(),
+  feedback: z.enum(["correct", "higher", "lower"]),
+  hint: z.string().optional(),
+  timestamp: z.number(),
+  penalty: z.number().optional(),
+});
+
+export const levelParamsSchema = z.object({
+  seed: z.number().int(),
+  levelNumber: z.number().int().min(1),
+  rangeMin: z.number().int(),
+  rangeMax: z.number().int(),
+  maxAttempts: z.number().int().min(1),
+  timeLimit: z.number().min(0).nullable(),
+  gameMode: gameModeSchema,
+  targetNumber: z.number().int(),
+  hintStyle: hintStyleSchema,
+  difficultyScore: z.number(),
+});
+
+export const levelResultSchema = z.object({
+  levelNumber: z.number().int().min(1),
+  won: z.boolean(),
+  attemptsUsed: z.number().int().min(0),
+  maxAttempts: z.number().int().min(1),
+  timeUsed: z.number().min(0).nullable(),
+  timeLimit: z.number().min(0).nullable(),
+  accuracy: z.number(),
+  gameMode: gameModeSchema,
+  targetNumber: z.number().int(),
+  guesses: z.array(guessResultSchema),
+  completedAt: z.number(),
+  seed: z.number().int().optional(),
+  rangeMin: z.number().int().optional(),
+  rangeMax: z.number().int().optional(),
+  hintStyle: hintStyleSchema.optional(),
+});
+
+const modeStatsSchema = z.object({
+  gamesPlayed: z.number().min(0),
+  wins: z.number().min(0),
+  bestStreak: z.number().min(0),
+  averageAttempts: z.number().min(0),
+});
+
+export const playerStatsSchema = z.object({
+  totalGames: z.number().int().min(0),
+  totalWins: z.number().int().min(0),
+  totalLosses: z.number().int().min(0),
+  currentStreak: z.number().int().min(0),
+  bestStreak: z.number().int().min(0),
+  averageAttempts: z.number().min(0),
+  averageTime: z.number().min(0),
+  accuracyHistory: z.array(z.number()),
+  reactionTimes: z.array(z.number()),
+  modeStats: z.object({
+    classic: modeStatsSchema,
+    depth: modeStatsSchema,
+    strategic: modeStatsSchema,
+    tactical: modeStatsSchema,
+    deus: modeStatsSchema,
+  }),
+  lastPlayedAt: z.number().nullable(),
+});
+
+export const skillMetricsSchema = z.object({
+  skillLevel: z.number().min(0).max(100),
+  successRate: z.number().min(0).max(1),
+  consistencyScore: z.number().min(0).max(1),
+  reactionSpeed: z.number().min(0).max(1),
+  failureStreak: z.number().int().min(0),
+  winStreak: z.number().int().min(0),
+  difficultyModifier: z.number(),
+});
+
+export const playerProfileSchema = z.object({
+  displayName: z.string().trim().min(1).max(20),
+  avatarId: z.number().int().min(0),
+  soundEnabled: z.boolean(),
+  hapticsEnabled: z.boolean(),
+  hidePossibleOnHard: z.boolean().default(false),
+  difficultyPreset: z
+    .enum(["relaxed", "balanced", "brutal"])
+    .default("balanced"),
+  accountId: z.string().nullable(),
+  updatedAt: z.number().min(0),
+});
+
+export const dailyChallengeSchema = z.object({
+  lastPlayedDate: z.string().nullable(),
+  lastResult: levelResultSchema.nullable(),
+  currentStreak: z.number().int().min(0),
+  bestStreak: z.number().int().min(0),
+});
+
+// Keyed by achievement id; ids this build does not know are ignored
+export const achievementStateSchema = z.object({
+  unlocked: z.record(z.string(), z.number()),
+  progress: z.record(z.string(), z.number().int().min(0)),
+});
+
+export const difficultyWeightsSchema = z.object({
+  base: z.number(),
+  range: z.number(),
+  attempts: z.number(),
+  time: z.number(),
+});
+
+const ratingSchema = z.object({
+  rating: z.number(),
+  deviation: z.number().positive(),
+  volatility: z.number().positive(),
+  matches: z.number().int().min(0),
+});
+
+export const playerRatingsSchema = z.object({
+  overall: ratingSchema,
+  modes: z.object({
+    classic: ratingSchema,
+    depth: ratingSchema,
+    strategic: ratingSchema,
+    tactical: ratingSchema,
+    deus: ratingSchema,
+  }),
+});
+
+export const gameStateSchema = z.object({
+  currentLevel: levelParamsSchema.nullable(),
+  currentGuesses: z.array(guessResultSchema),
+  isPlaying: z.boolean(),
+  isPaused: z.boolean(),
+  startTime: z.number().nullable(),
+  elapsedTime: z.number().min(0),
+  outcome: z.enum(["won", "lost"]).nullable(),
+  source: z.enum(["campaign", "daily", "custom"]),
+});
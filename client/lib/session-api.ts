@@ -0,0 +1,26 @@
+import { apiRequest } from "./query-client";
+import { GameSessionView, GuessResult } from "./types";
+
+// Ranked play is server-authoritative: the target stays on the server and
+// only feedback comes back until the session is over. Every call needs a
+// signed-in account, and the server picks the level.
+
+export async function createGameSession(): Promise<GameSessionView> {
+  const res = await apiRequest("POST", "/api/sessions");
+  return res.json();
+}
+
+export async function fetchGameSession(id: string): Promise<GameSessionView> {
+  const res = await apiRequest("GET", `/api/sessions/${id}`);
+  return res.json();
+}
+
+export async function submitSessionGuess(
+  id: string,
+  guess: number,
+): Promise<{ guess: GuessResult | null; session: GameSessionView }> {
+  const res = await apiRequest("POST", `/api/sessions/${id}/guesses`, {
+    guess,
+  });
+  return res.json();
+}
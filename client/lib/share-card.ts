@@ -0,0 +1,140 @@
+import { Colors, GameModeColors, SemanticColors } from "../constants/theme";
+import { getDailyDateKey } from "./daily-challenge";
+import { getModeName } from "./level-generator";
+import { GameMode, GameSource, GuessResult, LevelResult } from "./types";
+
+// Share cards describe a finished level without the target or any guessed
+// number. Other features post and read the text, so its layout is fixed:
+//
+//   NumberMind Level 12 - Tactical
+//   4/7 in 23s
+//   ^ v ^ *
+//   <optional link>
+//
+// The first line is the title and mode, the second the attempts used (X
+// for a loss) and the time, then the markers five to a row. Change the
+// layout only together with everything that reads it.
+
+export const SHARE_MARKERS: Record<GuessResult["feedback"], string> = {
+  higher: "^",
+  lower: "v",
+  correct: "*",
+};
+
+const MARKERS_PER_ROW = 5;
+
+// Native builds open the share sheet, the web build copies to the clipboard
+export type ShareOutcome = "shared" | "copied";
+
+export interface ShareCard {
+  title: string;
+  gameMode: GameMode;
+  won: boolean;
+  attemptsUsed: number;
+  maxAttempts: number;
+  timeUsed: number | null;
+  markers: GuessResult["feedback"][];
+  link: string | null;
+}
+
+function getCardTitle(result: LevelResult, source: GameSource): string {
+  switch (source) {
+    case "campaign":
+      return `Level ${result.levelNumber}`;
+    case "daily":
+      return `Daily ${getDailyDateKey(new Date(result.completedAt))}`;
+    case "custom":
+      return "Custom Game";
+  }
+}
+
+export function createShareCard(
+  result: LevelResult,
+  source: GameSource,
+  link: string | null = null,
+): ShareCard {
+  return {
+    title: getCardTitle(result, source),
+    gameMode: result.gameMode,
+    won: result.won,
+    attemptsUsed: result.attemptsUsed,
+    maxAttempts: result.maxAttempts,
+    timeUsed: result.timeUsed,
+    markers: result.guesses.map((guess) => guess.feedback),
+    link,
+  };
+}
+
+function getMarkerRows<T>(markers: T[]): T[][] {
+  const rows: T[][] = [];
+  for (let i = 0; i < markers.length; i += MARKERS_PER_ROW) {
+    rows.push(markers.slice(i, i + MARKERS_PER_ROW));
+  }
+  return rows;
+}
+
+export function formatShareText(card: ShareCard): string {
+  const attempts = `${card.won ? card.attemptsUsed : "X"}/${card.maxAttempts}`;
+  const time = card.timeUsed !== null ? ` in ${card.timeUsed}s` : "";
+
+  const lines = [
+    `NumberMind ${card.title} - ${getModeName(card.gameMode)}`,
+    `${attempts}${time}`,
+    ...getMarkerRows(card.markers).map((row) =>
+      row.map((marker) => SHARE_MARKERS[marker]).join(" "),
+    ),
+  ];
+  if (card.link) lines.push(card.link);
+  return lines.join("\n");
+}
+
+const SVG_WIDTH = 360;
+const SVG_PADDING = 24;
+const TILE_SIZE = 48;
+const TILE_GAP = 10;
+const GRID_TOP = 104;
+
+// An arrow for higher and lower, a check for the winning guess
+const TILE_GLYPHS: Record<GuessResult["feedback"], string> = {
+  higher: "M24 14 L34 30 L14 30 Z",
+  lower: "M14 18 L34 18 L24 34 Z",
+  correct: "M14 25 L21 32 L35 17",
+};
+
+// A standalone SVG image of the card, drawn in the app's dark palette
+export function renderShareCardSvg(card: ShareCard): string {
+  const palette = Colors.dark;
+  const accent = GameModeColors[card.gameMode];
+  const rows = getMarkerRows(card.markers);
+  const gridHeight = rows.length * (TILE_SIZE + TILE_GAP);
+  const height = GRID_TOP + gridHeight + SVG_PADDING;
+  const [titleLine, outcomeLine] = formatShareText({
+    ...card,
+    link: null,
+  }).split("\n");
+
+  const tiles = rows.flatMap((row, rowIndex) =>
+    row.map((marker, column) => {
+      const x = SVG_PADDING + column * (TILE_SIZE + TILE_GAP);
+      const y = GRID_TOP + rowIndex * (TILE_SIZE + TILE_GAP);
+      const correct = marker === "correct";
+      const fill = correct
+        ? SemanticColors.success
+        : palette.backgroundSecondary;
+      const glyph = correct
+        ? `<path d="${TILE_GLYPHS[marker]}" fill="none" stroke="${palette.text}" stroke-width="4"/>`
+        : `<path d="${TILE_GLYPHS[marker]}" fill="${accent}"/>`;
+      return `<g transform="translate(${x} ${y})"><rect width="${TILE_SIZE}" height="${TILE_SIZE}" rx="8" fill="${fill}"/>${glyph}</g>`;
+    }),
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${SVG_WIDTH}" height="${height}" viewBox="0 0 ${SVG_WIDTH} ${height}">`,
+    `<rect width="${SVG_WIDTH}" height="${height}" rx="16" fill="${palette.backgroundDefault}"/>`,
+    `<rect x="${SVG_PADDING}" y="${SVG_PADDING}" width="6" height="52" rx="3" fill="${accent}"/>`,
+    `<text x="${SVG_PADDING + 18}" y="${SVG_PADDING + 20}" font-family="sans-serif" font-size="18" font-weight="bold" fill="${palette.text}">${titleLine}</text>`,
+    `<text x="${SVG_PADDING + 18}" y="${SVG_PADDING + 46}" font-family="sans-serif" font-size="16" fill="${palette.textSecondary}">${outcomeLine}</text>`,
+    ...tiles,
+    "</svg>",
+  ].join("");
+}
@@ -0,0 +1,157 @@
+import * as Linking from "expo-linking";
+
+import { HINT_STYLE_IDS } from "./hint-styles";
+import {
+  calculateDifficultyScore,
+  checkCustomLevel,
+  CUSTOM_LEVEL_LIMITS,
+  regenerateLevel,
+} from "./level-generator";
+import { GameMode, LevelParams, LevelResult } from "./types";
+
+// Share codes carry everything about a level except its target, which is
+// drawn again from the seed when the code is opened. Each field is written in
+// base 36 and the fields are joined with dashes behind a version number, so
+// the format can change without breaking links that were already sent.
+
+const SHARE_CODE_VERSION = 1;
+const FIELD_COUNT = 9;
+const SEPARATOR = "-";
+
+// Deep link path, as in numbermind://level/<code>
+export const LEVEL_LINK_PATH = "level/:code";
+
+// Positions in this list are part of the format, so only ever append. Hint
+// styles are numbered by their place in the registry, which follows the
+// same rule.
+const MODE_ORDER: GameMode[] = [
+  "classic",
+  "depth",
+  "strategic",
+  "tactical",
+  "deus",
+];
+
+// The shortest time limit any level allows; 0 in a code means untimed
+const MIN_TIME_LIMIT = 10;
+
+export type ShareableLevel = Omit<LevelParams, "difficultyScore">;
+
+// Null for codes the app could not have made, including levels validateLevel
+// would have to change to make playable
+export function decodeLevelCode(code: string): LevelParams | null {
+  const parts = code.trim().toLowerCase().split(SEPARATOR);
+  if (
+    parts.length !== FIELD_COUNT ||
+    !parts.every((part) => /^[0-9a-z]+$/.test(part))
+  ) {
+    return null;
+  }
+
+  const [
+    version,
+    seed,
+    levelNumber,
+    rangeMin,
+    rangeMax,
+    maxAttempts,
+    timeLimit,
+    modeIndex,
+    hintStyleIndex,
+  ] = parts.map((part) => parseInt(part, 36));
+  const gameMode = MODE_ORDER[modeIndex];
+  const hintStyle = HINT_STYLE_IDS[hintStyleIndex];
+  const limits = CUSTOM_LEVEL_LIMITS;
+
+  if (
+    version !== SHARE_CODE_VERSION ||
+    !gameMode ||
+    !hintStyle ||
+    !Number.isSafeInteger(seed) ||
+    levelNumber < 1 ||
+    rangeMax <= rangeMin ||
+    rangeMax > limits.maxNumber ||
+    maxAttempts < 2 ||
+    maxAttempts > limits.maxAttempts ||
+    timeLimit > limits.maxTimeLimit ||
+    (timeLimit !== 0 && timeLimit < MIN_TIME_LIMIT)
+  ) {
+    return null;
+  }
+
+  const settings = {
+    gameMode,
+    rangeMin,
+    rangeMax,
+    maxAttempts,
+    timeLimit: timeLimit === 0 ? null : timeLimit,
+    hintStyle,
+  };
+  const check = checkCustomLevel(settings, seed);
+  if (check.errors.length > 0 || check.adjustments.length > 0) {
+    return null;
+  }
+
+  return regenerateLevel({
+    ...settings,
+    seed,
+    levelNumber,
+    targetNumber: rangeMin,
+    difficultyScore: calculateDifficultyScore(
+      rangeMax - rangeMin + 1,
+      maxAttempts,
+      settings.timeLimit,
+    ),
+  });
+}
+
+// Null when the level cannot be rebuilt from its seed, since the code would
+// then open a level with a different number
+export function encodeLevelCode(level: ShareableLevel): string | null {
+  const fields = [
+    SHARE_CODE_VERSION,
+    level.seed,
+    level.levelNumber,
+    level.rangeMin,
+    level.rangeMax,
+    level.maxAttempts,
+    level.timeLimit ?? 0,
+    MODE_ORDER.indexOf(level.gameMode),
+    HINT_STYLE_IDS.indexOf(level.hintStyle),
+  ];
+  if (!fields.every((field) => Number.isSafeInteger(field) && field >= 0)) {
+    return null;
+  }
+
+  const code = fields.map((field) => field.toString(36)).join(SEPARATOR);
+  const rebuilt = decodeLevelCode(code);
+  return rebuilt?.targetNumber === level.targetNumber ? code : null;
+}
+
+export function getResultLevelCode(result: LevelResult): string | null {
+  // Results saved before replays existed lack what a code needs
+  if (
+    result.seed === undefined ||
+    result.rangeMin === undefined ||
+    result.rangeMax === undefined ||
+    result.hintStyle === undefined
+  ) {
+    return null;
+  }
+
+  return encodeLevelCode({
+    seed: result.seed,
+    levelNumber: result.levelNumber,
+    rangeMin: result.rangeMin,
+    rangeMax: result.rangeMax,
+    maxAttempts: result.maxAttempts,
+    timeLimit: result.timeLimit,
+    gameMode: result.gameMode,
+    targetNumber: result.targetNumber,
+    hintStyle: result.hintStyle,
+  });
+}
+
+export function getLevelLink(code: string): string {
+  return Linking.createURL(LEVEL_LINK_PATH.replace(":code", code));
+}
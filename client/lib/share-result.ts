@@ -0,0 +1,10 @@
+import { Share } from "react-native";
+
+import { formatShareText, ShareCard, ShareOutcome } from "./share-card";
+
+// Native builds hand the text to the share sheet. Sharing the image as well
+// needs a view capture module, which the app does not ship.
+export async function shareCard(card: ShareCard): Promise<ShareOutcome> {
+  await Share.share({ message: formatShareText(card) });
+  return "shared";
+}
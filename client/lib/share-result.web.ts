@@ -0,0 +1,57 @@
+import {
+  formatShareText,
+  renderShareCardSvg,
+  ShareCard,
+  ShareOutcome,
+} from "./share-card";
+
+// Drawn at twice the size so the image stays sharp on dense screens
+const PNG_SCALE = 2;
+
+function renderPng(svg: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.width * PNG_SCALE;
+      canvas.height = image.height * PNG_SCALE;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      context.scale(PNG_SCALE, PNG_SCALE);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("Could not draw the card")),
+        "image/png",
+      );
+    };
+    image.onerror = () => reject(new Error("Could not load the card image"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+// The web build copies to the clipboard instead: the text, plus a picture
+// of the card where the browser accepts images
+export async function shareCard(card: ShareCard): Promise<ShareOutcome> {
+  const text = formatShareText(card);
+
+  if (typeof ClipboardItem !== "undefined" && navigator.clipboard.write) {
+    try {
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          "text/plain": new Blob([text], { type: "text/plain" }),
+          "image/png": renderPng(renderShareCardSvg(card)),
+        }),
+      ]);
+      return "copied";
+    } catch {
+      // Some browsers only take plain text
+    }
+  }
+
+  await navigator.clipboard.writeText(text);
+  return "copied";
+}
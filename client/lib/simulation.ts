@@ -0,0 +1,316 @@
+import { chooseBotGuess } from "./bot";
+import { getFlowTarget } from "./flow-controller";
+import {
+  createLevelResult,
+  createPlayingState,
+  getAttemptsLeft,
+  reduceGame,
+} from "./game-engine";
+import { generateLevel, getBisectionAttempts } from "./level-generator";
+import {
+  createInitialRatings,
+  getRatedSkillMetrics,
+  updateRatings,
+} from "./rating";
+import { SeededRandom } from "./seeded-random";
+import {
+  calculateSkillMetrics,
+  createInitialSkillMetrics,
+  createInitialStats,
+  updateStatsWithResult,
+} from "./skill-model";
+import {
+  DifficultyPreset,
+  GameMode,
+  GuessResult,
+  LevelParams,
+  LevelResult,
+} from "./types";
+
+// Plays simulated players through the campaign the way the game context does:
+// each round runs through the game reducer, so hints come from getHint and
+// time limits apply, and each result goes through the stats, rating and skill
+// updates before the next level is generated. Losing a level retries it with
+// the next seed, as restarting does in the app. The report shows how levels
+// and outcomes change with level number, to catch balance regressions before
+// they ship.
+
+export type SimulationAgent = "random" | "bisect" | "noisy";
+
+export const SIMULATION_AGENTS: SimulationAgent[] = [
+  "random",
+  "bisect",
+  "noisy",
+];
+
+export interface SimulationOptions {
+  agent: SimulationAgent;
+  // Share of the noisy agent's guesses that ignore the hints so far
+  errorRate: number;
+  players: number;
+  // Each player stops after clearing this level or running out of rounds
+  levels: number;
+  // Null plays the campaign curve without the flow controller
+  preset: DifficultyPreset | null;
+  seed: number;
+}
+
+export interface SimulatedRound {
+  levelNumber: number;
+  rangeSize: number;
+  maxAttempts: number;
+  timeLimit: number | null;
+  gameMode: GameMode;
+  won: boolean;
+  attemptsUsed: number;
+}
+
+export interface SimulationBucket {
+  // Levels from minLevel to maxLevel inclusive
+  minLevel: number;
+  maxLevel: number;
+  rounds: number;
+  rangeSize: number;
+  maxAttempts: number;
+  // Guesses plain bisection needs in the worst case
+  bisectionAttempts: number;
+  // Share of rounds whose attempts fall short of that
+  shortBudget: number;
+  timed: number;
+  winRate: number;
+  modes: Record<GameMode, number>;
+}
+
+// A player who keeps losing a level gives up after this many rounds per
+// level they were meant to play
+const MAX_ROUNDS_PER_LEVEL = 5;
+
+// Milliseconds each agent spends on a guess
+const THINK_TIME: Record<SimulationAgent, { min: number; max: number }> = {
+  random: { min: 1000, max: 3000 },
+  bisect: { min: 2000, max: 5000 },
+  noisy: { min: 3000, max: 8000 },
+};
+
+const MODES: GameMode[] = ["classic", "depth", "strategic", "tactical", "deus"];
+
+function chooseSimulatedGuess(
+  level: LevelParams,
+  guesses: GuessResult[],
+  options: SimulationOptions,
+  rng: SeededRandom,
+): number {
+  if (options.agent !== "noisy") {
+    return chooseBotGuess(level, guesses, options.agent, rng);
+  }
+
+  // A slip: a guess anywhere in the level, as if the hints were misread
+  if (rng.next() < options.errorRate) {
+    const guessed = new Set(guesses.map((g) => g.guess));
+    const size = level.rangeMax - level.rangeMin + 1;
+    if (guessed.size < size) {
+      let guess = rng.nextInt(level.rangeMin, level.rangeMax);
+      while (guessed.has(guess)) {
+        guess = guess === level.rangeMax ? level.rangeMin : guess + 1;
+      }
+      return guess;
+    }
+  }
+
+  // Otherwise roughly halves what is left, as people do by eye
+  const bisect = chooseBotGuess(level, guesses, "bisect", rng);
+  const random = chooseBotGuess(level, guesses, "random", rng);
+  return Math.round((bisect * 3 + random) / 4);
+}
+
+function playRound(
+  level: LevelParams,
+  options: SimulationOptions,
+  rng: SeededRandom,
+  start: number,
+) {
+  const think = THINK_TIME[options.agent];
+  let state = createPlayingState(level, start);
+  let now = start;
+
+  while (state.outcome === null && getAttemptsLeft(state) > 0) {
+    now += rng.nextInt(think.min, think.max);
+    const guess = chooseSimulatedGuess(
+      level,
+      state.currentGuesses,
+      options,
+      rng,
+    );
+    const next = reduceGame(state, { type: "guess", guess, now });
+    if (next === state) {
+      // A rejected guess would loop forever; count it as running out of time
+      state = reduceGame(state, { type: "timeout", now });
+      break;
+    }
+    state = next;
+  }
+  return { state, now };
+}
+
+export function simulatePlayer(
+  options: SimulationOptions,
+  seed: number,
+): SimulatedRound[] {
+  const rng = new SeededRandom(seed);
+  const nextSeed = () => rng.nextInt(1, 2147483646);
+  const flowTarget = (history: LevelResult[]) =>
+    options.preset ? getFlowTarget(history, options.preset) : undefined;
+
+  let stats = createInitialStats();
+  let ratings = createInitialRatings();
+  let metrics = createInitialSkillMetrics();
+  let history: LevelResult[] = [];
+  let levelNumber = 1;
+  let now = 0;
+  let level = generateLevel(1, metrics, nextSeed(), flowTarget(history));
+  const rounds: SimulatedRound[] = [];
+
+  while (
+    levelNumber <= options.levels &&
+    rounds.length < options.levels * MAX_ROUNDS_PER_LEVEL
+  ) {
+    const round = playRound(level, options, rng, now);
+    now = round.now;
+    const result = createLevelResult(round.state, levelNumber, now);
+    if (!result) break;
+
+    rounds.push({
+      levelNumber,
+      rangeSize: level.rangeMax - level.rangeMin + 1,
+      maxAttempts: level.maxAttempts,
+      timeLimit: level.timeLimit,
+      gameMode: level.gameMode,
+      won: result.won,
+      attemptsUsed: result.attemptsUsed,
+    });
+
+    history = [...history, result];
+    stats = updateStatsWithResult(stats, result);
+    ratings = updateRatings(ratings, result);
+    metrics = getRatedSkillMetrics(
+      calculateSkillMetrics(stats, history),
+      ratings,
+    );
+
+    if (result.won) levelNumber++;
+    const seed = result.won ? nextSeed() : level.seed + 1;
+    level = generateLevel(levelNumber, metrics, seed, flowTarget(history));
+  }
+  return rounds;
+}
+
+export function simulateCampaign(options: SimulationOptions): SimulatedRound[] {
+  const rng = new SeededRandom(options.seed);
+  const rounds: SimulatedRound[] = [];
+  for (let player = 0; player < options.players; player++) {
+    rounds.push(...simulatePlayer(options, rng.nextInt(1, 2147483646)));
+  }
+  return rounds;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function share<T>(items: T[], test: (item: T) => boolean): number {
+  return items.filter(test).length / items.length;
+}
+
+export function buildSimulationReport(
+  rounds: SimulatedRound[],
+  bucketSize: number,
+): SimulationBucket[] {
+  const buckets = new Map<number, SimulatedRound[]>();
+  for (const round of rounds) {
+    const key = Math.floor((round.levelNumber - 1) / bucketSize);
+    const bucket = buckets.get(key) ?? [];
+    bucket.push(round);
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, items]) => ({
+      minLevel: key * bucketSize + 1,
+      maxLevel: (key + 1) * bucketSize,
+      rounds: items.length,
+      rangeSize: mean(items.map((round) => round.rangeSize)),
+      maxAttempts: mean(items.map((round) => round.maxAttempts)),
+      bisectionAttempts: mean(
+        items.map((round) => getBisectionAttempts(round.rangeSize)),
+      ),
+      shortBudget: share(
+        items,
+        (round) => round.maxAttempts < getBisectionAttempts(round.rangeSize),
+      ),
+      timed: share(items, (round) => round.timeLimit !== null),
+      winRate: share(items, (round) => round.won),
+      modes: Object.fromEntries(
+        MODES.map((mode) => [
+          mode,
+          share(items, (round) => round.gameMode === mode),
+        ]),
+      ) as Record<GameMode, number>,
+    }));
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// A plain-text table with one row per bucket of levels
+export function formatSimulationReport(
+  options: SimulationOptions,
+  report: SimulationBucket[],
+): string {
+  const agent =
+    options.agent === "noisy"
+      ? `noisy (${percent(options.errorRate)} errors)`
+      : options.agent;
+  const columns = [
+    ["levels", 9],
+    ["rounds", 7],
+    ["range", 7],
+    ["tries", 6],
+    ["bisect", 7],
+    ["short", 6],
+    ["timed", 6],
+    ["win", 5],
+    ["classic", 8],
+    ["depth", 6],
+    ["strat", 6],
+    ["tact", 5],
+    ["deus", 5],
+  ] as const;
+
+  const rows = report.map((bucket) => [
+    `${bucket.minLevel}-${bucket.maxLevel}`,
+    bucket.rounds.toString(),
+    Math.round(bucket.rangeSize).toString(),
+    bucket.maxAttempts.toFixed(1),
+    bucket.bisectionAttempts.toFixed(1),
+    percent(bucket.shortBudget),
+    percent(bucket.timed),
+    percent(bucket.winRate),
+    ...MODES.map((mode) => percent(bucket.modes[mode])),
+  ]);
+
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) =>
+        i === 0 ? cell.padEnd(columns[i][1]) : cell.padStart(columns[i][1]),
+      )
+      .join("");
+
+  return [
+    `${agent}, ${options.players} players to level ${options.levels}, ` +
+      `preset ${options.preset ?? "off"}, seed ${options.seed}`,
+    line(columns.map(([name]) => name)),
+    ...rows.map(line),
+  ].join("\n");
+}
@@ -19,6 +19,7 @@ export function createInitialStats(): PlayerStats {
       depth: createInitialModeStats(),
       strategic: createInitialModeStats(),
       tactical: createInitialModeStats(),
+      deus: createInitialModeStats(),
     },
     lastPlayedAt: null,
   };
@@ -0,0 +1,250 @@
+import {
+  HintStyle,
+  getHint,
+  getHintStyle,
+  getModeHintStyle,
+} from "./hint-styles";
+import { getResultRange } from "./replay";
+import { GuessResult, LevelParams, LevelResult } from "./types";
+
+// Works out what a perfect player could have known at each point of a level.
+// A number stays feasible while every hint shown so far is the hint it would
+// have produced itself, so each hint style is covered by asking getHint again
+// rather than by a rule per style. Styles that reveal nothing beyond higher or
+// lower are compared on direction alone.
+
+// Scoring every feasible number as a guess is quadratic in the range, so
+// large sets are sampled evenly instead
+const MAX_CANDIDATE_GUESSES = 48;
+
+export interface GuessAnalysis {
+  guess: number;
+  feasibleBefore: number;
+  feasibleAfter: number;
+  // What this guess actually narrowed the field by
+  bitsGained: number;
+  // What this guess was worth on average before its hint was known
+  expectedBits: number;
+  optimalGuess: number;
+  optimalBits: number;
+}
+
+export interface LevelAnalysis {
+  guesses: GuessAnalysis[];
+  // Bits needed to pin down the target from the full range
+  bitsNeeded: number;
+  bitsGained: number;
+  bitsPerGuess: number;
+  // Expected information of the guesses made against the best available
+  efficiency: number;
+  // Targets still possible when the level ended
+  remaining: number;
+}
+
+export type PossibleNumbers =
+  | { kind: "interval"; low: number; high: number; count: number }
+  | { kind: "set"; values: number[]; count: number };
+
+export interface AnalysisSummary {
+  games: number;
+  efficiency: number;
+  bitsPerGuess: number;
+}
+
+function outcomeKey(
+  guess: number,
+  target: number,
+  hintStyle: HintStyle,
+  attemptsLeft: number,
+): string {
+  if (guess === target) return "correct";
+  if (getHintStyle(hintStyle).reveals.length === 0) {
+    return guess < target ? "higher" : "lower";
+  }
+  const { feedback, hint } = getHint(guess, target, hintStyle, attemptsLeft);
+  return `${feedback}:${hint ?? ""}`;
+}
+
+function recordedKey(result: GuessResult, hintStyle: HintStyle): string {
+  if (result.feedback === "correct") return "correct";
+  if (getHintStyle(hintStyle).reveals.length === 0) return result.feedback;
+  return `${result.feedback}:${result.hint ?? ""}`;
+}
+
+export function filterFeasible(
+  feasible: number[],
+  result: GuessResult,
+  hintStyle: HintStyle,
+  attemptsLeft: number,
+): number[] {
+  const key = recordedKey(result, hintStyle);
+  return feasible.filter(
+    (target) =>
+      outcomeKey(result.guess, target, hintStyle, attemptsLeft) === key,
+  );
+}
+
+type SolverLevel = Pick<
+  LevelParams,
+  "rangeMin" | "rangeMax" | "maxAttempts" | "hintStyle"
+>;
+
+// Everything the target could still be, given the hints shown so far
+export function getFeasibleTargets(
+  level: SolverLevel,
+  guesses: GuessResult[],
+): number[] {
+  let feasible = Array.from(
+    { length: level.rangeMax - level.rangeMin + 1 },
+    (_, i) => level.rangeMin + i,
+  );
+  guesses.forEach((guess, index) => {
+    feasible = filterFeasible(
+      feasible,
+      guess,
+      level.hintStyle,
+      level.maxAttempts - index - 1,
+    );
+  });
+  return feasible;
+}
+
+export function getPossibleNumbers(
+  level: SolverLevel,
+  guesses: GuessResult[],
+): PossibleNumbers {
+  const feasible = getFeasibleTargets(level, guesses);
+  const low = feasible[0];
+  const high = feasible[feasible.length - 1];
+  if (feasible.length > 0 && high - low + 1 === feasible.length) {
+    return { kind: "interval", low, high, count: feasible.length };
+  }
+  return { kind: "set", values: feasible, count: feasible.length };
+}
+
+// Entropy of the hint the guess would produce, over equally likely targets
+export function expectedInformation(
+  guess: number,
+  feasible: number[],
+  hintStyle: HintStyle,
+  attemptsLeft: number,
+): number {
+  if (feasible.length <= 1) return 0;
+  const counts = new Map<string, number>();
+  for (const target of feasible) {
+    const key = outcomeKey(guess, target, hintStyle, attemptsLeft);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / feasible.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function sampleCandidates(feasible: number[]): number[] {
+  if (feasible.length <= MAX_CANDIDATE_GUESSES) return feasible;
+  const step = (feasible.length - 1) / (MAX_CANDIDATE_GUESSES - 1);
+  return Array.from(
+    { length: MAX_CANDIDATE_GUESSES },
+    (_, i) => feasible[Math.round(i * step)],
+  );
+}
+
+// Only feasible numbers are considered: a guess that cannot win is never
+// advice worth showing, even when it would split the field slightly better
+export function findOptimalGuess(
+  feasible: number[],
+  hintStyle: HintStyle,
+  attemptsLeft: number,
+): { guess: number; bits: number } {
+  let best = { guess: feasible[0], bits: 0 };
+  for (const candidate of sampleCandidates(feasible)) {
+    const bits = expectedInformation(
+      candidate,
+      feasible,
+      hintStyle,
+      attemptsLeft,
+    );
+    if (bits > best.bits + 1e-9) {
+      best = { guess: candidate, bits };
+    }
+  }
+  return best;
+}
+
+export function analyzeLevel(result: LevelResult): LevelAnalysis | null {
+  if (result.guesses.length === 0) return null;
+
+  const { rangeMin, rangeMax } = getResultRange(result);
+  const hintStyle = result.hintStyle ?? getModeHintStyle(result.gameMode);
+  const rangeSize = rangeMax - rangeMin + 1;
+
+  let feasible = Array.from({ length: rangeSize }, (_, i) => rangeMin + i);
+  const guesses = result.guesses.map((guess, index) => {
+    const attemptsLeft = result.maxAttempts - index - 1;
+    const before = feasible;
+    const optimal = findOptimalGuess(before, hintStyle, attemptsLeft);
+    feasible = filterFeasible(before, guess, hintStyle, attemptsLeft);
+
+    return {
+      guess: guess.guess,
+      feasibleBefore: before.length,
+      feasibleAfter: feasible.length,
+      bitsGained:
+        feasible.length > 0 ? Math.log2(before.length / feasible.length) : 0,
+      expectedBits: expectedInformation(
+        guess.guess,
+        before,
+        hintStyle,
+        attemptsLeft,
+      ),
+      optimalGuess: optimal.guess,
+      optimalBits: optimal.bits,
+    };
+  });
+
+  const bitsGained = guesses.reduce((sum, g) => sum + g.bitsGained, 0);
+  const expected = guesses.reduce((sum, g) => sum + g.expectedBits, 0);
+  const optimal = guesses.reduce((sum, g) => sum + g.optimalBits, 0);
+
+  return {
+    guesses,
+    bitsNeeded: Math.log2(rangeSize),
+    bitsGained,
+    bitsPerGuess: bitsGained / guesses.length,
+    efficiency: optimal > 0 ? Math.min(1, expected / optimal) : 1,
+    remaining: feasible.length,
+  };
+}
+
+// The guess that fell furthest short of the best one available
+export function findWeakestGuess(
+  analysis: LevelAnalysis,
+): GuessAnalysis | null {
+  let weakest: GuessAnalysis | null = null;
+  for (const g of analysis.guesses) {
+    const shortfall = g.optimalBits - g.expectedBits;
+    if (
+      shortfall > 0.1 &&
+      (!weakest || shortfall > weakest.optimalBits - weakest.expectedBits)
+    ) {
+      weakest = g;
+    }
+  }
+  return weakest;
+}
+
+export function summarizeAnalyses(analyses: LevelAnalysis[]): AnalysisSummary {
+  if (analyses.length === 0) {
+    return { games: 0, efficiency: 0, bitsPerGuess: 0 };
+  }
+  return {
+    games: analyses.length,
+    efficiency:
+      analyses.reduce((sum, a) => sum + a.efficiency, 0) / analyses.length,
+    bitsPerGuess:
+      analyses.reduce((sum, a) => sum + a.bitsPerGuess, 0) / analyses.length,
+  };
+}
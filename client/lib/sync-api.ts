@@ -0,0 +1,11 @@
+import { apiRequest } from "./query-client";
+import { ProgressSnapshot } from "./types";
+
+// Pushes this device's progress and returns the account's merged progress.
+export async function pushProgress(
+  snapshot: ProgressSnapshot,
+): Promise<ProgressSnapshot> {
+  const res = await apiRequest("POST", "/api/sync", snapshot);
+  const body: { snapshot: ProgressSnapshot } = await res.json();
+  return body.snapshot;
+}
@@ -1,3 +1,5 @@
+import type { HintStyle } from "./hint-styles";
+
 export type GameMode = "classic" | "depth" | "strategic" | "tactical" | "deus";
 
 export interface LevelParams {
@@ -9,10 +11,23 @@ export interface LevelParams {
   timeLimit: number | null;
   gameMode: GameMode;
   targetNumber: number;
-  hintStyle: "basic" | "distance" | "hot_cold" | "penalty" | "divine";
+  hintStyle: HintStyle;
   difficultyScore: number;
 }
 
+export type DifficultyTier = "easy" | "medium" | "hard" | "expert";
+
+// Coefficients of calculateDifficultyScore, one per level property
+export interface DifficultyWeights {
+  base: number;
+  // Per bit of range (log2 of how many numbers it holds)
+  range: number;
+  // Per attempt below ten
+  attempts: number;
+  // Per second below a minute, for timed levels
+  time: number;
+}
+
 export interface GuessResult {
   guess: number;
   feedback: "correct" | "higher" | "lower";
@@ -33,6 +48,11 @@ export interface LevelResult {
   targetNumber: number;
   guesses: GuessResult[];
   completedAt: number;
+  // Recorded for replays; results saved before replays existed lack them
+  seed?: number;
+  rangeMin?: number;
+  rangeMax?: number;
+  hintStyle?: LevelParams["hintStyle"];
 }
 
 export interface PlayerStats {
@@ -66,6 +86,10 @@ export interface SkillMetrics {
   difficultyModifier: number;
 }
 
+export type LevelOutcome = "won" | "lost";
+
+export type GameSource = "campaign" | "daily" | "custom";
+
 export interface GameState {
   currentLevel: LevelParams | null;
   currentGuesses: GuessResult[];
@@ -73,11 +97,166 @@ export interface GameState {
   isPaused: boolean;
   startTime: number | null;
   elapsedTime: number;
+  outcome: LevelOutcome | null;
+  source: GameSource;
 }
 
+// How hard the campaign pushes back; see flow-controller.ts
+export type DifficultyPreset = "relaxed" | "balanced" | "brutal";
+
 export interface PlayerProfile {
   displayName: string;
   avatarId: number;
   soundEnabled: boolean;
   hapticsEnabled: boolean;
+  // Hide the possible numbers tracker on hard and expert levels
+  hidePossibleOnHard: boolean;
+  difficultyPreset: DifficultyPreset;
+  accountId: string | null;
+  updatedAt: number;
+}
+
+export interface AccountUser {
+  id: string;
+  username: string;
+}
+
+// Everything a signed-in player carries between devices
+export interface ProgressSnapshot {
+  stats: PlayerStats;
+  metrics: SkillMetrics;
+  history: LevelResult[];
+  profile: Omit<PlayerProfile, "accountId">;
+  levelNumber: number;
+}
+
+export type PublicLevelParams = Omit<LevelParams, "targetNumber" | "seed">;
+
+export interface SignedLevelResult {
+  sessionId: string;
+  result: LevelResult;
+  signature: string;
+}
+
+export interface GameSessionView {
+  id: string;
+  levelNumber: number;
+  level: PublicLevelParams;
+  guesses: GuessResult[];
+  attemptsLeft: number;
+  timeRemaining: number | null;
+  elapsedTime: number;
+  outcome: LevelOutcome | null;
+  reveal: { targetNumber: number; seed: number } | null;
+  result: SignedLevelResult | null;
+}
+
+export type LeaderboardBoard = GameMode | "all";
+export type LeaderboardWindow = "all" | "weekly" | "daily";
+export type LeaderboardMetric = "levels_cleared" | "best_streak" | "efficiency";
+
+export interface LeaderboardEntry {
+  rank: number;
+  displayName: string;
+  gamesPlayed: number;
+  levelsCleared: number;
+  bestStreak: number;
+  efficiency: number;
+}
+
+export interface LeaderboardResponse {
+  board: LeaderboardBoard;
+  window: LeaderboardWindow;
+  metric: LeaderboardMetric;
+  entries: LeaderboardEntry[];
+}
+
+// Head-to-head matches. Each player gets their own view; the opponent's
+// guessed numbers never leave the server.
+export type MatchOutcome = "won" | "lost" | "draw";
+
+export interface MatchView {
+  id: string;
+  level: PublicLevelParams;
+  you: {
+    displayName: string;
+    guesses: GuessResult[];
+    attemptsLeft: number;
+    outcome: LevelOutcome | null;
+  };
+  opponent: {
+    displayName: string;
+    attemptsUsed: number;
+    outcome: LevelOutcome | null;
+    connected: boolean;
+  };
+  timeRemaining: number | null;
+  result: MatchOutcome | null;
+  forfeited: boolean;
+  reveal: { targetNumber: number; seed: number } | null;
+}
+
+export type MatchClientMessage =
+  | {
+      type: "join";
+      displayName: string;
+      skillLevel: number;
+      levelNumber: number;
+    }
+  | { type: "leave" }
+  | { type: "guess"; matchId: string; guess: number }
+  | { type: "resume"; matchId: string; token: string }
+  | { type: "forfeit"; matchId: string };
+
+export type MatchServerMessage =
+  | { type: "queued" }
+  | { type: "match"; match: MatchView; token: string }
+  | { type: "match_expired"; matchId: string }
+  | { type: "error"; message: string };
+
+// Private rooms. The host picks the level settings and shares the room code;
+// everyone who joins plays the same seeded level once the host starts it.
+export interface CustomLevelSettings {
+  gameMode: GameMode;
+  rangeMin: number;
+  rangeMax: number;
+  maxAttempts: number;
+  timeLimit: number | null;
+  // Defaults to the mode's own hint style
+  hintStyle?: LevelParams["hintStyle"];
+}
+
+export type RoomStatus = "waiting" | "playing" | "finished";
+
+export interface RoomPlayerView {
+  id: string;
+  displayName: string;
+  isHost: boolean;
+  attemptsUsed: number;
+  outcome: LevelOutcome | null;
+  // Set once the room is finished; tied players share a rank
+  rank: number | null;
+  timeMs: number | null;
+}
+
+export interface RoomView {
+  code: string;
+  status: RoomStatus;
+  level: PublicLevelParams;
+  maxPlayers: number;
+  players: RoomPlayerView[];
+  you: {
+    id: string;
+    isHost: boolean;
+    guesses: GuessResult[];
+    attemptsLeft: number;
+    outcome: LevelOutcome | null;
+    timeRemaining: number | null;
+  };
+  reveal: { targetNumber: number; seed: number } | null;
+}
+
+export interface RoomMembership {
+  room: RoomView;
+  token: string;
 }
@@ -6,12 +6,35 @@ import MainMenuScreen from "@/screens/MainMenuScreen";
 import GameScreen from "@/screens/GameScreen";
 import StatsScreen from "@/screens/StatsScreen";
 import SettingsScreen from "@/screens/SettingsScreen";
+import LeaderboardScreen from "@/screens/LeaderboardScreen";
+import RankedScreen from "@/screens/RankedScreen";
+import AccountScreen from "@/screens/AccountScreen";
+import ImportProgressScreen from "@/screens/ImportProgressScreen";
+import ReplayScreen from "@/screens/ReplayScreen";
+import VersusScreen from "@/screens/VersusScreen";
+import MultiplayerScreen from "@/screens/MultiplayerScreen";
+import RoomScreen from "@/screens/RoomScreen";
+import CustomGameScreen from "@/screens/CustomGameScreen";
+import SharedLevelScreen from "@/screens/SharedLevelScreen";
+import AchievementsScreen from "@/screens/AchievementsScreen";
+import { LevelResult } from "@/lib/types";
 
 export type RootStackParamList = {
   MainMenu: undefined;
   Game: undefined;
   Stats: undefined;
   Settings: undefined;
+  Leaderboard: undefined;
+  Ranked: undefined;
+  Account: undefined;
+  ImportProgress: undefined;
+  Replay: { result: LevelResult };
+  Versus: undefined;
+  Multiplayer: undefined;
+  Room: undefined;
+  CustomGame: undefined;
+  SharedLevel: { code: string };
+  Achievements: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -41,6 +64,61 @@ export default function RootStackNavigator() {
         component={SettingsScreen}
         options={{ headerTitle: "Settings" }}
       />
+      <Stack.Screen
+        name="Leaderboard"
+        component={LeaderboardScreen}
+        options={{ headerTitle: "Leaderboards" }}
+      />
+      <Stack.Screen
+        name="Ranked"
+        component={RankedScreen}
+        options={{ headerTitle: "Ranked" }}
+      />
+      <Stack.Screen
+        name="Account"
+        component={AccountScreen}
+        options={{ headerTitle: "Account" }}
+      />
+      <Stack.Screen
+        name="ImportProgress"
+        component={ImportProgressScreen}
+        options={{ headerTitle: "Import Progress" }}
+      />
+      <Stack.Screen
+        name="Replay"
+        component={ReplayScreen}
+        options={{ headerTitle: "Replay" }}
+      />
+      <Stack.Screen
+        name="Versus"
+        component={VersusScreen}
+        options={{ headerTitle: "Versus", gestureEnabled: false }}
+      />
+      <Stack.Screen
+        name="Multiplayer"
+        component={MultiplayerScreen}
+        options={{ headerTitle: "Multiplayer", gestureEnabled: false }}
+      />
+      <Stack.Screen
+        name="Room"
+        component={RoomScreen}
+        options={{ headerTitle: "Private Room", gestureEnabled: false }}
+      />
+      <Stack.Screen
+        name="CustomGame"
+        component={CustomGameScreen}
+        options={{ headerTitle: "Custom Game" }}
+      />
+      <Stack.Screen
+        name="SharedLevel"
+        component={SharedLevelScreen}
+        options={{ headerTitle: "Shared Level" }}
+      />
+      <Stack.Screen
+        name="Achievements"
+        component={AchievementsScreen}
+        options={{ headerTitle: "Achievements" }}
+      />
     </Stack.Navigator>
   );
 }
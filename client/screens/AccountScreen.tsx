@@ -0,0 +1,327 @@
+import React, { useState } from "react";
+import { View, StyleSheet, TextInput, Pressable } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInUp } from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Card } from "@/components/Card";
+import { Button } from "@/components/Button";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import {
+  Spacing,
+  BorderRadius,
+  GameModeColors,
+  SemanticColors,
+} from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/hooks/useAuth";
+import { useGame } from "@/lib/game-context";
+import { getApiErrorMessage } from "@/lib/query-client";
+import { AccountUser } from "@/lib/types";
+
+type FormMode = "login" | "register";
+
+export default function AccountScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation();
+  const { theme } = useTheme();
+  const { user, login, register, logout } = useAuth();
+  const { profile, updateProfile, playerStats, syncProgress, lastSyncedAt } =
+    useGame();
+
+  const [mode, setMode] = useState<FormMode>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncFailed, setSyncFailed] = useState(false);
+
+  const mutation = mode === "login" ? login : register;
+  const error = mutation.error ? getApiErrorMessage(mutation.error) : null;
+
+  // Local progress is attached to whichever account signs in on this device
+  const linkProfile = (account: AccountUser) => {
+    updateProfile({
+      accountId: account.id,
+      displayName:
+        profile.displayName === "Player"
+          ? account.username
+          : profile.displayName,
+    });
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    navigation.goBack();
+  };
+
+  const handleSubmit = () => {
+    if (!username.trim() || !password) return;
+    mutation.mutate(
+      { username: username.trim(), password },
+      { onSuccess: ({ user: account }) => linkProfile(account) },
+    );
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    const synced = await syncProgress();
+    setSyncFailed(!synced);
+    setIsSyncing(false);
+    if (synced) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  };
+
+  const handleSignOut = () => {
+    logout.mutate(undefined, {
+      onSuccess: () => updateProfile({ accountId: null }),
+    });
+  };
+
+  const inputStyle = [
+    styles.textInput,
+    {
+      backgroundColor: theme.backgroundSecondary,
+      color: theme.text,
+      borderColor: theme.border,
+    },
+  ];
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAwareScrollViewCompat
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+        showsVerticalScrollIndicator={false}
+      >
+        {user ? (
+          <Animated.View entering={FadeInUp.duration(300)}>
+            <Card elevation={1} style={styles.accountCard}>
+              <View
+                style={[
+                  styles.accountIcon,
+                  { backgroundColor: GameModeColors.classic + "20" },
+                ]}
+              >
+                <Feather name="user" size={32} color={GameModeColors.classic} />
+              </View>
+              <ThemedText type="h3">{user.username}</ThemedText>
+              <ThemedText
+                type="small"
+                style={[styles.accountNote, { color: theme.textSecondary }]}
+              >
+                {profile.accountId === user.id
+                  ? `${playerStats.totalGames} games on this device belong to this account`
+                  : "Progress on this device is not linked yet"}
+              </ThemedText>
+              {profile.accountId !== user.id ? (
+                <Button
+                  onPress={() => linkProfile(user)}
+                  style={styles.fullWidth}
+                >
+                  Link This Device
+                </Button>
+              ) : (
+                <>
+                  <ThemedText
+                    type="small"
+                    style={{
+                      color: syncFailed
+                        ? SemanticColors.error
+                        : theme.textSecondary,
+                    }}
+                  >
+                    {syncFailed
+                      ? "Sync failed, try again later"
+                      : lastSyncedAt
+                        ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}`
+                        : "Not synced yet"}
+                  </ThemedText>
+                  <Button
+                    onPress={handleSync}
+                    disabled={isSyncing}
+                    style={styles.fullWidth}
+                  >
+                    {isSyncing ? "Syncing..." : "Sync Now"}
+                  </Button>
+                </>
+              )}
+            </Card>
+            <Pressable
+              onPress={handleSignOut}
+              style={({ pressed }) => [
+                styles.signOutButton,
+                {
+                  backgroundColor: SemanticColors.error + "20",
+                  opacity: pressed ? 0.7 : 1,
+                },
+              ]}
+            >
+              <Feather name="log-out" size={18} color={SemanticColors.error} />
+              <ThemedText type="body" style={{ color: SemanticColors.error }}>
+                Sign Out
+              </ThemedText>
+            </Pressable>
+          </Animated.View>
+        ) : (
+          <Animated.View entering={FadeInUp.duration(300)}>
+            <View
+              style={[
+                styles.modeToggle,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              {(["login", "register"] as FormMode[]).map((option) => (
+                <Pressable
+                  key={option}
+                  onPress={() => setMode(option)}
+                  style={[
+                    styles.modeOption,
+                    mode === option && {
+                      backgroundColor: theme.backgroundTertiary,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="body"
+                    style={{
+                      color: mode === option ? theme.text : theme.textSecondary,
+                    }}
+                  >
+                    {option === "login" ? "Sign In" : "Create Account"}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+
+            <Card elevation={1} style={styles.formCard}>
+              <ThemedText
+                type="small"
+                style={[styles.fieldLabel, { color: theme.textSecondary }]}
+              >
+                Username
+              </ThemedText>
+              <TextInput
+                value={username}
+                onChangeText={setUsername}
+                placeholder="Your username"
+                placeholderTextColor={theme.textDisabled}
+                autoCapitalize="none"
+                autoCorrect={false}
+                maxLength={20}
+                style={inputStyle}
+              />
+
+              <ThemedText
+                type="small"
+                style={[styles.fieldLabel, { color: theme.textSecondary }]}
+              >
+                Password
+              </ThemedText>
+              <TextInput
+                value={password}
+                onChangeText={setPassword}
+                placeholder={
+                  mode === "register" ? "At least 8 characters" : "Password"
+                }
+                placeholderTextColor={theme.textDisabled}
+                secureTextEntry
+                maxLength={128}
+                style={inputStyle}
+              />
+
+              {error ? (
+                <ThemedText
+                  type="small"
+                  style={[styles.error, { color: SemanticColors.error }]}
+                >
+                  {error}
+                </ThemedText>
+              ) : null}
+            </Card>
+
+            <Button
+              onPress={handleSubmit}
+              disabled={mutation.isPending}
+              style={styles.fullWidth}
+            >
+              {mode === "login" ? "Sign In" : "Create Account"}
+            </Button>
+          </Animated.View>
+        )}
+      </KeyboardAwareScrollViewCompat>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+  },
+  accountCard: {
+    alignItems: "center",
+    gap: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  accountIcon: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  accountNote: {
+    textAlign: "center",
+  },
+  modeToggle: {
+    flexDirection: "row",
+    borderRadius: BorderRadius.full,
+    padding: Spacing.xs,
+    marginBottom: Spacing.xl,
+  },
+  modeOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  formCard: {
+    marginBottom: Spacing.xl,
+  },
+  fieldLabel: {
+    marginBottom: Spacing.sm,
+  },
+  textInput: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+    borderWidth: 1,
+    marginBottom: Spacing.lg,
+  },
+  error: {
+    marginTop: -Spacing.sm,
+  },
+  fullWidth: {
+    width: "100%",
+  },
+  signOutButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    height: Spacing.buttonHeight,
+    borderRadius: BorderRadius.full,
+  },
+});
@@ -0,0 +1,186 @@
+import React from "react";
+import { View, StyleSheet, ScrollView } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInUp } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Card } from "@/components/Card";
+import { Spacing, BorderRadius, SemanticColors } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { AchievementStatus, getAchievementStatuses } from "@/lib/achievements";
+import { useGame } from "@/lib/game-context";
+
+function AchievementRow({
+  status,
+  index,
+}: {
+  status: AchievementStatus;
+  index: number;
+}) {
+  const { theme } = useTheme();
+  const { definition, progress, goal, unlockedAt } = status;
+  const unlocked = unlockedAt !== null;
+  const color = unlocked ? SemanticColors.success : theme.textSecondary;
+
+  return (
+    <Animated.View entering={FadeInUp.delay(index * 50).duration(300)}>
+      <Card elevation={1} style={styles.card}>
+        <View style={styles.row}>
+          <View
+            style={[
+              styles.iconBadge,
+              {
+                backgroundColor: unlocked
+                  ? SemanticColors.success + "20"
+                  : theme.backgroundSecondary,
+              },
+            ]}
+          >
+            <Feather name={definition.icon as any} size={22} color={color} />
+          </View>
+          <View style={styles.details}>
+            <ThemedText
+              type="h4"
+              style={unlocked ? undefined : { color: theme.textSecondary }}
+            >
+              {definition.title}
+            </ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {definition.description}
+            </ThemedText>
+          </View>
+        </View>
+
+        {unlocked ? (
+          <ThemedText type="small" style={[styles.footer, { color }]}>
+            Unlocked {new Date(unlockedAt).toLocaleDateString()}
+          </ThemedText>
+        ) : (
+          <View style={styles.footer}>
+            <View
+              style={[
+                styles.progressTrack,
+                { backgroundColor: theme.backgroundTertiary },
+              ]}
+            >
+              <View
+                style={[
+                  styles.progressFill,
+                  {
+                    width: `${(progress / goal) * 100}%`,
+                    backgroundColor: theme.textSecondary,
+                  },
+                ]}
+              />
+            </View>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {progress}/{goal}
+            </ThemedText>
+          </View>
+        )}
+      </Card>
+    </Animated.View>
+  );
+}
+
+export default function AchievementsScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { theme } = useTheme();
+  const { achievements } = useGame();
+
+  // Unlocked first, most recent on top; locked ones keep their listed order
+  const statuses = getAchievementStatuses(achievements).sort(
+    (a, b) => (b.unlockedAt ?? 0) - (a.unlockedAt ?? 0),
+  );
+  const unlockedCount = statuses.filter((s) => s.unlockedAt !== null).length;
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <ThemedText
+          type="body"
+          style={[styles.summary, { color: theme.textSecondary }]}
+        >
+          {unlockedCount} of {statuses.length} unlocked
+        </ThemedText>
+        {statuses.map((status, index) => (
+          <AchievementRow
+            key={status.definition.id}
+            status={status}
+            index={index}
+          />
+        ))}
+        <ThemedText
+          type="small"
+          style={[styles.footnote, { color: theme.textSecondary }]}
+        >
+          Campaign levels and daily challenges count toward achievements. Custom
+          games do not.
+        </ThemedText>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+  },
+  summary: {
+    textAlign: "center",
+    marginBottom: Spacing.lg,
+  },
+  card: {
+    marginBottom: Spacing.md,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.lg,
+  },
+  iconBadge: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  details: {
+    flex: 1,
+  },
+  footer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  footnote: {
+    textAlign: "center",
+    marginTop: Spacing.md,
+  },
+});
@@ -0,0 +1,423 @@
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, Pressable, TextInput } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInUp } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { Card } from "@/components/Card";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import {
+  Spacing,
+  BorderRadius,
+  GameModeColors,
+  SemanticColors,
+} from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useGame } from "@/lib/game-context";
+import {
+  HINT_STYLE_IDS,
+  HintStyle,
+  getHintStyleDescription,
+  getHintStyleMode,
+  getHintStyleName,
+} from "@/lib/hint-styles";
+import {
+  CustomLevelCheck,
+  checkCustomLevel,
+  getDifficultyTier,
+} from "@/lib/level-generator";
+import { generateSeed } from "@/lib/seeded-random";
+import { CustomLevelSettings, LevelResult } from "@/lib/types";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "CustomGame"
+>;
+
+const RECENT_CUSTOM_COUNT = 5;
+const PREVIEW_SEED = 1;
+
+const TIER_NAMES = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+  expert: "Expert",
+};
+
+// Empty or unreadable fields come out as NaN
+function parseField(value: string): number {
+  return value.trim() === "" ? NaN : Number(value);
+}
+
+function RecentCustomRow({
+  result,
+  isLast,
+  onPress,
+}: {
+  result: LevelResult;
+  isLast: boolean;
+  onPress: () => void;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.recentRow,
+        {
+          borderBottomColor: theme.border,
+          borderBottomWidth: isLast ? 0 : 1,
+          opacity: pressed ? 0.7 : 1,
+        },
+      ]}
+    >
+      <View>
+        <ThemedText type="body">
+          {result.rangeMin ?? "?"} to {result.rangeMax ?? "?"}
+        </ThemedText>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {result.hintStyle ? getHintStyleName(result.hintStyle) : "Custom"} -{" "}
+          {result.attemptsUsed}/{result.maxAttempts} attempts
+        </ThemedText>
+      </View>
+      <View style={styles.recentResult}>
+        <Feather
+          name={result.won ? "check" : "x"}
+          size={18}
+          color={result.won ? SemanticColors.success : SemanticColors.error}
+        />
+        <Feather name="play-circle" size={20} color={theme.textSecondary} />
+      </View>
+    </Pressable>
+  );
+}
+
+export default function CustomGameScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation<NavigationProp>();
+  const { theme } = useTheme();
+  const { startCustomGame, customHistory } = useGame();
+
+  const [hintStyle, setHintStyle] = useState<HintStyle>("basic");
+  const [rangeMin, setRangeMin] = useState("1");
+  const [rangeMax, setRangeMax] = useState("100");
+  const [maxAttempts, setMaxAttempts] = useState("7");
+  const [timeLimit, setTimeLimit] = useState("");
+
+  const gameMode = getHintStyleMode(hintStyle);
+  const accent = GameModeColors[gameMode];
+
+  const settings = useMemo(() => {
+    const parsed: CustomLevelSettings = {
+      gameMode,
+      hintStyle,
+      rangeMin: parseField(rangeMin),
+      rangeMax: parseField(rangeMax),
+      maxAttempts: parseField(maxAttempts),
+      timeLimit: timeLimit.trim() === "" ? null : parseField(timeLimit),
+    };
+    const numbers = [
+      parsed.rangeMin,
+      parsed.rangeMax,
+      parsed.maxAttempts,
+      parsed.timeLimit ?? 0,
+    ];
+    return numbers.every(Number.isInteger) ? parsed : null;
+  }, [gameMode, hintStyle, rangeMin, rangeMax, maxAttempts, timeLimit]);
+
+  // Re-checked on every edit so problems show up before the game starts.
+  // The preview seed only picks a target, which is never shown.
+  const check: CustomLevelCheck = useMemo(
+    () =>
+      settings
+        ? checkCustomLevel(settings, PREVIEW_SEED)
+        : {
+            level: null,
+            errors: ["Fill in the range, attempts and time with whole numbers"],
+            adjustments: [],
+          },
+    [settings],
+  );
+
+  const recent = customHistory.slice(-RECENT_CUSTOM_COUNT).reverse();
+
+  const handleStart = () => {
+    if (!settings) return;
+    // A fresh seed each time, so the same settings give a new number
+    const { level } = checkCustomLevel(settings, generateSeed());
+    if (!level) return;
+    startCustomGame(level);
+    navigation.navigate("Game");
+  };
+
+  const inputStyle = [
+    styles.textInput,
+    {
+      backgroundColor: theme.backgroundSecondary,
+      color: theme.text,
+      borderColor: theme.border,
+    },
+  ];
+
+  const renderField = (
+    label: string,
+    value: string,
+    onChange: (text: string) => void,
+    placeholder?: string,
+  ) => (
+    <View style={styles.field}>
+      <ThemedText
+        type="small"
+        style={[styles.fieldLabel, { color: theme.textSecondary }]}
+      >
+        {label}
+      </ThemedText>
+      <TextInput
+        value={value}
+        onChangeText={onChange}
+        placeholder={placeholder}
+        placeholderTextColor={theme.textDisabled}
+        keyboardType="number-pad"
+        maxLength={4}
+        style={inputStyle}
+      />
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAwareScrollViewCompat
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <Animated.View entering={FadeInUp.duration(300)}>
+          <Card elevation={1} style={styles.formCard}>
+            <ThemedText
+              type="small"
+              style={[styles.fieldLabel, { color: theme.textSecondary }]}
+            >
+              Hint Style
+            </ThemedText>
+            <View style={styles.chipRow}>
+              {HINT_STYLE_IDS.map((style) => {
+                const selected = style === hintStyle;
+                const color = GameModeColors[getHintStyleMode(style)];
+                return (
+                  <Pressable
+                    key={style}
+                    onPress={() => setHintStyle(style)}
+                    style={[
+                      styles.chip,
+                      {
+                        backgroundColor: selected
+                          ? color + "30"
+                          : theme.backgroundSecondary,
+                        borderColor: selected ? color : "transparent",
+                      },
+                    ]}
+                  >
+                    <ThemedText
+                      type="small"
+                      style={{
+                        color: selected ? color : theme.textSecondary,
+                      }}
+                    >
+                      {getHintStyleName(style)}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <ThemedText
+              type="small"
+              style={[styles.description, { color: theme.textSecondary }]}
+            >
+              {getHintStyleDescription(hintStyle)}
+            </ThemedText>
+
+            <View style={styles.fieldRow}>
+              {renderField("From", rangeMin, setRangeMin)}
+              {renderField("To", rangeMax, setRangeMax)}
+            </View>
+            <View style={styles.fieldRow}>
+              {renderField("Attempts", maxAttempts, setMaxAttempts)}
+              {renderField("Time Limit (s)", timeLimit, setTimeLimit, "None")}
+            </View>
+          </Card>
+        </Animated.View>
+
+        {check.errors.length > 0 || check.adjustments.length > 0 ? (
+          <View style={styles.notes}>
+            {check.errors.map((error) => (
+              <View key={error} style={styles.note}>
+                <Feather
+                  name="alert-circle"
+                  size={16}
+                  color={SemanticColors.error}
+                />
+                <ThemedText
+                  type="small"
+                  style={[styles.noteText, { color: SemanticColors.error }]}
+                >
+                  {error}
+                </ThemedText>
+              </View>
+            ))}
+            {check.adjustments.map((adjustment) => (
+              <View key={adjustment} style={styles.note}>
+                <Feather name="info" size={16} color={SemanticColors.warning} />
+                <ThemedText
+                  type="small"
+                  style={[styles.noteText, { color: theme.textSecondary }]}
+                >
+                  {adjustment}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        {check.level ? (
+          <ThemedText type="small" style={[styles.summary, { color: accent }]}>
+            {TIER_NAMES[getDifficultyTier(check.level.difficultyScore)]} -{" "}
+            {check.level.rangeMin} to {check.level.rangeMax},{" "}
+            {check.level.maxAttempts} attempts
+            {check.level.timeLimit !== null
+              ? `, ${check.level.timeLimit}s`
+              : ", no time limit"}
+          </ThemedText>
+        ) : null}
+
+        <Button
+          onPress={handleStart}
+          disabled={!check.level}
+          style={styles.fullWidth}
+        >
+          Start Custom Game
+        </Button>
+        <ThemedText
+          type="small"
+          style={[styles.footnote, { color: theme.textSecondary }]}
+        >
+          Custom games are saved separately and do not change your skill rating
+          or campaign stats.
+        </ThemedText>
+
+        {recent.length > 0 ? (
+          <>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Recent Custom Games
+            </ThemedText>
+            <Card elevation={1}>
+              {recent.map((result, index) => (
+                <RecentCustomRow
+                  key={result.completedAt}
+                  result={result}
+                  isLast={index === recent.length - 1}
+                  onPress={() => navigation.navigate("Replay", { result })}
+                />
+              ))}
+            </Card>
+          </>
+        ) : null}
+      </KeyboardAwareScrollViewCompat>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+  },
+  formCard: {
+    marginBottom: Spacing.lg,
+  },
+  fieldLabel: {
+    marginBottom: Spacing.sm,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  field: {
+    flex: 1,
+  },
+  textInput: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+    borderWidth: 1,
+    marginBottom: Spacing.lg,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  description: {
+    marginBottom: Spacing.lg,
+  },
+  notes: {
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  note: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+  },
+  noteText: {
+    flex: 1,
+  },
+  summary: {
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  fullWidth: {
+    width: "100%",
+  },
+  footnote: {
+    textAlign: "center",
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  recentRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+  },
+  recentResult: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+});
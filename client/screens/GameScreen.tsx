@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   View,
   StyleSheet,
@@ -24,6 +24,7 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Button } from "@/components/Button";
 import { Card } from "@/components/Card";
+import { NumberPad } from "@/components/NumberPad";
 import {
   Spacing,
   BorderRadius,
@@ -33,81 +34,40 @@ import {
 } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useGame } from "@/lib/game-context";
-import { getModeIcon } from "@/lib/level-generator";
+import {
+  getDifficultyTier,
+  getModeIcon,
+  getModeName,
+} from "@/lib/level-generator";
+import { AchievementDefinition, getUnlockedBy } from "@/lib/achievements";
+import { getAttemptsLeft, getTimeRemaining } from "@/lib/game-engine";
+import {
+  analyzeLevel,
+  findWeakestGuess,
+  getPossibleNumbers,
+  LevelAnalysis,
+  PossibleNumbers,
+} from "@/lib/solver";
+import { createShareCard } from "@/lib/share-card";
+import { getLevelLink, getResultLevelCode } from "@/lib/share-code";
+import { shareCard } from "@/lib/share-result";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
-import { GameMode, GuessResult } from "@/lib/types";
+import { GameSource, GuessResult } from "@/lib/types";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, "Game">;
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
-function NumberPad({
-  onPress,
-  onDelete,
-  onSubmit,
-  disabled,
-}: {
-  onPress: (num: string) => void;
-  onDelete: () => void;
-  onSubmit: () => void;
-  disabled: boolean;
-}) {
-  const { theme } = useTheme();
-  const keys = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "del", "0", "go"];
-
-  const handlePress = (key: string) => {
-    if (disabled) return;
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    if (key === "del") {
-      onDelete();
-    } else if (key === "go") {
-      onSubmit();
-    } else {
-      onPress(key);
-    }
-  };
-
-  return (
-    <View style={styles.numpad}>
-      {keys.map((key) => (
-        <Pressable
-          key={key}
-          onPress={() => handlePress(key)}
-          disabled={disabled}
-          style={({ pressed }) => [
-            styles.numpadKey,
-            {
-              backgroundColor:
-                key === "go"
-                  ? GameModeColors.classic
-                  : key === "del"
-                  ? theme.backgroundTertiary
-                  : theme.backgroundSecondary,
-              opacity: disabled ? 0.5 : pressed ? 0.7 : 1,
-            },
-          ]}
-        >
-          {key === "del" ? (
-            <Feather name="delete" size={24} color={theme.text} />
-          ) : key === "go" ? (
-            <Feather name="check" size={24} color={theme.buttonText} />
-          ) : (
-            <ThemedText type="h3">{key}</ThemedText>
-          )}
-        </Pressable>
-      ))}
-    </View>
-  );
-}
-
 function PauseModal({
   visible,
+  canRestart,
   onResume,
   onRestart,
   onStats,
   onMainMenu,
 }: {
   visible: boolean;
+  canRestart: boolean;
   onResume: () => void;
   onRestart: () => void;
   onStats: () => void;
@@ -129,12 +89,17 @@ function PauseModal({
             <Button onPress={onResume} style={styles.pauseButton}>
               Resume
             </Button>
-            <Button
-              onPress={onRestart}
-              style={[styles.pauseButton, { backgroundColor: theme.backgroundSecondary }]}
-            >
-              Restart Level
-            </Button>
+            {canRestart ? (
+              <Button
+                onPress={onRestart}
+                style={[
+                  styles.pauseButton,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                Restart Level
+              </Button>
+            ) : null}
             <Button
               onPress={onStats}
               style={[styles.pauseButton, { backgroundColor: theme.backgroundSecondary }]}
@@ -156,6 +121,7 @@ function PauseModal({
 
 function LevelCompleteModal({
   visible,
+  source,
   won,
   attemptsUsed,
   maxAttempts,
@@ -163,8 +129,14 @@ function LevelCompleteModal({
   targetNumber,
   onContinue,
   onStats,
+  onReplay,
+  onShare,
+  shareCopied,
+  analysis,
+  unlocked,
 }: {
   visible: boolean;
+  source: GameSource;
   won: boolean;
   attemptsUsed: number;
   maxAttempts: number;
@@ -172,8 +144,14 @@ function LevelCompleteModal({
   targetNumber: number;
   onContinue: () => void;
   onStats: () => void;
+  onReplay: () => void;
+  onShare: () => void;
+  shareCopied: boolean;
+  analysis: LevelAnalysis | null;
+  unlocked: AchievementDefinition[];
 }) {
   const { theme } = useTheme();
+  const weakest = analysis ? findWeakestGuess(analysis) : null;
   const iconScale = useSharedValue(0);
 
   useEffect(() => {
@@ -252,9 +230,63 @@ function LevelCompleteModal({
             </View>
           </View>
 
+          {analysis ? (
+            <View
+              style={[
+                styles.analysisBox,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Guess quality {Math.round(analysis.efficiency * 100)}% -{" "}
+                {analysis.bitsPerGuess.toFixed(1)} bits per guess
+              </ThemedText>
+              {!won && analysis.remaining > 1 ? (
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {analysis.remaining} numbers were still possible at the end
+                </ThemedText>
+              ) : null}
+              {weakest ? (
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {weakest.optimalGuess} would have been a stronger guess than{" "}
+                  {weakest.guess} ({weakest.optimalBits.toFixed(1)} vs{" "}
+                  {weakest.expectedBits.toFixed(1)} bits)
+                </ThemedText>
+              ) : null}
+            </View>
+          ) : null}
+
+          {unlocked.map((achievement) => (
+            <View
+              key={achievement.id}
+              style={[
+                styles.unlockedBox,
+                { backgroundColor: SemanticColors.success + "20" },
+              ]}
+            >
+              <Feather
+                name={achievement.icon as any}
+                size={16}
+                color={SemanticColors.success}
+              />
+              <ThemedText
+                type="small"
+                style={{ color: SemanticColors.success }}
+              >
+                Achievement unlocked: {achievement.title}
+              </ThemedText>
+            </View>
+          ))}
+
           <View style={styles.resultButtons}>
             <Button onPress={onContinue} style={styles.continueButton}>
-              {won ? "Next Level" : "Try Again"}
+              {source === "daily"
+                ? "Back to Menu"
+                : source === "custom"
+                  ? "Done"
+                  : won
+                    ? "Next Level"
+                    : "Try Again"}
             </Button>
             <Pressable
               onPress={onStats}
@@ -265,6 +297,26 @@ function LevelCompleteModal({
             >
               <ThemedText type="link">View Stats</ThemedText>
             </Pressable>
+            <Pressable
+              onPress={onReplay}
+              style={({ pressed }) => [
+                styles.viewStatsLink,
+                { opacity: pressed ? 0.6 : 1 },
+              ]}
+            >
+              <ThemedText type="link">Watch Replay</ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={onShare}
+              style={({ pressed }) => [
+                styles.viewStatsLink,
+                { opacity: pressed ? 0.6 : 1 },
+              ]}
+            >
+              <ThemedText type="link">
+                {shareCopied ? "Copied to Clipboard" : "Share Result"}
+              </ThemedText>
+            </Pressable>
           </View>
         </Animated.View>
       </View>
@@ -272,6 +324,68 @@ function LevelCompleteModal({
   );
 }
 
+// Longer lists of runs stop being readable at a glance
+const MAX_POSSIBLE_RUNS = 4;
+
+function formatPossibleNumbers(possible: PossibleNumbers): string {
+  if (possible.kind === "interval") {
+    return possible.low === possible.high
+      ? `${possible.low}`
+      : `${possible.low} - ${possible.high}`;
+  }
+
+  const runs: [number, number][] = [];
+  for (const value of possible.values) {
+    const last = runs[runs.length - 1];
+    if (last && value === last[1] + 1) {
+      last[1] = value;
+    } else {
+      runs.push([value, value]);
+    }
+  }
+  if (runs.length > MAX_POSSIBLE_RUNS) {
+    return `${possible.values[0]} to ${possible.values[possible.values.length - 1]}, scattered`;
+  }
+  return runs
+    .map(([low, high]) => (low === high ? `${low}` : `${low}-${high}`))
+    .join(", ");
+}
+
+function PossibleNumbersBar({
+  possible,
+  color,
+}: {
+  possible: PossibleNumbers;
+  color: string;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <Animated.View
+      entering={FadeIn.duration(200)}
+      style={[
+        styles.possibleBar,
+        { backgroundColor: theme.backgroundSecondary },
+      ]}
+    >
+      <Feather name="crosshair" size={14} color={color} />
+      <ThemedText type="small" style={{ color: theme.textSecondary }}>
+        Possible
+      </ThemedText>
+      <ThemedText
+        type="small"
+        numberOfLines={1}
+        style={[styles.possibleValues, { fontFamily: Fonts?.mono }]}
+      >
+        {formatPossibleNumbers(possible)}
+      </ThemedText>
+      <ThemedText type="small" style={{ color: theme.textSecondary }}>
+        {possible.count === 1 ? "1 left" : `${possible.count} left`}
+      </ThemedText>
+    </Animated.View>
+  );
+}
+
 function GuessHistoryItem({ result }: { result: GuessResult }) {
   const { theme } = useTheme();
   const isCorrect = result.feedback === "correct";
@@ -333,30 +447,47 @@ export default function GameScreen() {
     restartLevel,
     goToMainMenu,
     continueGame,
+    levelHistory,
+    customHistory,
+    achievements,
+    dailyChallenge,
+    profile,
   } = useGame();
 
   const [inputValue, setInputValue] = useState("");
   const [showPauseModal, setShowPauseModal] = useState(false);
   const [showCompleteModal, setShowCompleteModal] = useState(false);
   const [lastResult, setLastResult] = useState<{
+    source: GameSource;
     won: boolean;
     attemptsUsed: number;
     maxAttempts: number;
     timeUsed: number;
     targetNumber: number;
   } | null>(null);
+  const [shareCopied, setShareCopied] = useState(false);
 
   const inputScale = useSharedValue(1);
 
   const level = gameState.currentLevel;
   const modeColor = level ? GameModeColors[level.gameMode] : GameModeColors.classic;
   const modeIcon = level ? getModeIcon(level.gameMode) : "zap";
-  const attemptsLeft = level
-    ? level.maxAttempts - gameState.currentGuesses.length
-    : 0;
-  const timeRemaining = level?.timeLimit
-    ? Math.max(0, level.timeLimit - gameState.elapsedTime)
-    : null;
+  const attemptsLeft = getAttemptsLeft(gameState);
+  const timeRemaining = getTimeRemaining(gameState);
+
+  const isHardLevel = level
+    ? ["hard", "expert"].includes(getDifficultyTier(level.difficultyScore))
+    : false;
+  const showPossible =
+    gameState.currentGuesses.length > 0 &&
+    !(profile.hidePossibleOnHard && isHardLevel);
+  const possible = useMemo(
+    () =>
+      level && showPossible
+        ? getPossibleNumbers(level, gameState.currentGuesses)
+        : null,
+    [level, showPossible, gameState.currentGuesses],
+  );
 
   useFocusEffect(
     useCallback(() => {
@@ -372,6 +503,7 @@ export default function GameScreen() {
           // Fallback logic if lastResult is null
           const won = gameState.currentGuesses.some((g) => g.feedback === "correct");
           setLastResult({
+            source: gameState.source,
             won,
             attemptsUsed: gameState.currentGuesses.length,
             maxAttempts: gameState.currentLevel.maxAttempts,
@@ -389,6 +521,7 @@ export default function GameScreen() {
       const won = gameState.currentGuesses.some((g) => g.feedback === "correct");
       if (!won && level) {
         setLastResult({
+          source: gameState.source,
           won: false,
           attemptsUsed: gameState.currentGuesses.length,
           maxAttempts: level.maxAttempts,
@@ -433,6 +566,7 @@ export default function GameScreen() {
 
     if (result.feedback === "correct") {
       setLastResult({
+        source: gameState.source,
         won: true,
         attemptsUsed: gameState.currentGuesses.length + 1,
         maxAttempts: level.maxAttempts,
@@ -443,6 +577,7 @@ export default function GameScreen() {
       setTimeout(() => setShowCompleteModal(true), 600);
     } else if (gameState.currentGuesses.length + 1 >= level.maxAttempts) {
       setLastResult({
+        source: gameState.source,
         won: false,
         attemptsUsed: gameState.currentGuesses.length + 1,
         maxAttempts: level.maxAttempts,
@@ -479,6 +614,18 @@ export default function GameScreen() {
   };
 
   const handleContinue = () => {
+    if (lastResult?.source === "daily") {
+      setLastResult(null);
+      handleMainMenu();
+      return;
+    }
+    // Back to the builder when the game was started from there
+    if (lastResult?.source === "custom") {
+      setLastResult(null);
+      setShowCompleteModal(false);
+      navigation.goBack();
+      return;
+    }
     setShowCompleteModal(false);
     setInputValue("");
     if (lastResult?.won) {
@@ -497,6 +644,49 @@ export default function GameScreen() {
     navigation.navigate("Stats");
   };
 
+  const completedResult =
+    lastResult?.source === "daily"
+      ? dailyChallenge.lastResult
+      : lastResult?.source === "custom"
+        ? (customHistory[customHistory.length - 1] ?? null)
+        : (levelHistory[levelHistory.length - 1] ?? null);
+
+  const analysis = useMemo(
+    () =>
+      showCompleteModal && completedResult
+        ? analyzeLevel(completedResult)
+        : null,
+    [showCompleteModal, completedResult],
+  );
+
+  const handleReplay = () => {
+    if (!completedResult) return;
+    // Reopened by the focus check when the player comes back
+    setShowCompleteModal(false);
+    navigation.navigate("Replay", { result: completedResult });
+  };
+
+  useEffect(() => {
+    setShareCopied(false);
+  }, [completedResult]);
+
+  const handleShare = async () => {
+    if (!completedResult || !lastResult) return;
+    // Levels that rebuild from a code carry a link to play them
+    const code = getResultLevelCode(completedResult);
+    const card = createShareCard(
+      completedResult,
+      lastResult.source,
+      code ? getLevelLink(code) : null,
+    );
+    try {
+      const outcome = await shareCard(card);
+      setShareCopied(outcome === "copied");
+    } catch (error) {
+      console.error("Failed to share result", error);
+    }
+  };
+
   const inputStyle = useAnimatedStyle(() => ({
     transform: [{ scale: inputScale.value }],
   }));
@@ -511,14 +701,6 @@ export default function GameScreen() {
     );
   }
 
-  const modeNames: Record<GameMode, string> = {
-    classic: "Classic",
-    depth: "Depth",
-    strategic: "Strategic",
-    tactical: "Tactical",
-    deus: "Deus",
-  };
-
   return (
     <ThemedView style={styles.container}>
       <View
@@ -538,11 +720,17 @@ export default function GameScreen() {
         </Pressable>
 
         <View style={styles.levelInfo}>
-          <ThemedText type="h4">Level {currentLevelNumber}</ThemedText>
+          <ThemedText type="h4">
+            {gameState.source === "daily"
+              ? "Daily Challenge"
+              : gameState.source === "custom"
+                ? "Custom Game"
+                : `Level ${currentLevelNumber}`}
+          </ThemedText>
           <View style={[styles.modeBadge, { backgroundColor: modeColor + "20" }]}>
             <Feather name={modeIcon as any} size={14} color={modeColor} />
             <ThemedText type="small" style={{ color: modeColor, marginLeft: 4 }}>
-              {modeNames[level.gameMode]}
+              {getModeName(level.gameMode)}
             </ThemedText>
           </View>
         </View>
@@ -598,6 +786,10 @@ export default function GameScreen() {
           </View>
         </Card>
 
+        {possible && possible.count > 0 ? (
+          <PossibleNumbersBar possible={possible} color={modeColor} />
+        ) : null}
+
         <Animated.View style={[styles.inputDisplay, inputStyle]}>
           <ThemedText
             style={[
@@ -627,6 +819,7 @@ export default function GameScreen() {
 
       <PauseModal
         visible={showPauseModal}
+        canRestart={gameState.source !== "daily"}
         onResume={handleResume}
         onRestart={handleRestart}
         onStats={handleViewStats}
@@ -635,6 +828,7 @@ export default function GameScreen() {
 
       <LevelCompleteModal
         visible={showCompleteModal}
+        source={lastResult?.source ?? "campaign"}
         won={lastResult?.won ?? false}
         attemptsUsed={lastResult?.attemptsUsed ?? 0}
         maxAttempts={lastResult?.maxAttempts ?? 1}
@@ -642,6 +836,13 @@ export default function GameScreen() {
         targetNumber={lastResult?.targetNumber ?? 0}
         onContinue={handleContinue}
         onStats={handleViewStats}
+        onReplay={handleReplay}
+        onShare={handleShare}
+        shareCopied={shareCopied}
+        unlocked={
+          completedResult ? getUnlockedBy(achievements, completedResult) : []
+        }
+        analysis={analysis}
       />
     </ThemedView>
   );
@@ -714,6 +915,28 @@ const styles = StyleSheet.create({
     fontFamily: Fonts?.mono,
     letterSpacing: 4,
   },
+  unlockedBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    width: "100%",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+  },
+  possibleBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    marginTop: -Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  possibleValues: {
+    flex: 1,
+  },
   guessHistory: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -736,19 +959,6 @@ const styles = StyleSheet.create({
   numpadContainer: {
     paddingHorizontal: Spacing.xl,
   },
-  numpad: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    justifyContent: "center",
-    gap: Spacing.sm,
-  },
-  numpadKey: {
-    width: 80,
-    height: 60,
-    borderRadius: BorderRadius.md,
-    alignItems: "center",
-    justifyContent: "center",
-  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "rgba(0, 0, 0, 0.7)",
@@ -813,4 +1023,11 @@ const styles = StyleSheet.create({
   viewStatsLink: {
     padding: Spacing.sm,
   },
+  analysisBox: {
+    width: "100%",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.xl,
+    gap: Spacing.xs,
+  },
 });
@@ -0,0 +1,271 @@
+import React, { useState } from "react";
+import { View, StyleSheet, TextInput, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInUp } from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Card } from "@/components/Card";
+import { Button } from "@/components/Button";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import {
+  Spacing,
+  BorderRadius,
+  GameModeColors,
+  SemanticColors,
+} from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useGame } from "@/lib/game-context";
+import {
+  ProgressExport,
+  ProgressSummary,
+  parseProgressExport,
+  summarizeProgress,
+} from "@/lib/progress-export";
+
+const SUMMARY_ROWS: {
+  label: string;
+  value: (summary: ProgressSummary) => string;
+}[] = [
+  { label: "Name", value: (s) => s.displayName },
+  { label: "Level", value: (s) => `${s.levelNumber}` },
+  { label: "Games Played", value: (s) => `${s.totalGames}` },
+  { label: "Wins", value: (s) => `${s.totalWins}` },
+  { label: "Best Streak", value: (s) => `${s.bestStreak}` },
+  { label: "Saved Results", value: (s) => `${s.historyCount}` },
+  { label: "Daily Best Streak", value: (s) => `${s.dailyBestStreak}` },
+  {
+    label: "Game in Progress",
+    value: (s) => (s.hasGameInProgress ? "Yes" : "No"),
+  },
+];
+
+function ComparisonCard({
+  current,
+  incoming,
+  exportedAt,
+}: {
+  current: ProgressSummary;
+  incoming: ProgressSummary;
+  exportedAt: number;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <Card elevation={1} style={styles.previewCard}>
+      <ThemedText type="small" style={{ color: theme.textSecondary }}>
+        Backup from {new Date(exportedAt).toLocaleString()}
+      </ThemedText>
+      <View style={[styles.previewRow, { borderBottomColor: theme.border }]}>
+        <ThemedText type="small" style={styles.previewLabel} />
+        <ThemedText
+          type="small"
+          style={[styles.previewValue, { color: theme.textSecondary }]}
+        >
+          This Device
+        </ThemedText>
+        <ThemedText
+          type="small"
+          style={[styles.previewValue, { color: GameModeColors.classic }]}
+        >
+          Backup
+        </ThemedText>
+      </View>
+      {SUMMARY_ROWS.map((row) => {
+        const before = row.value(current);
+        const after = row.value(incoming);
+        return (
+          <View
+            key={row.label}
+            style={[styles.previewRow, { borderBottomColor: theme.border }]}
+          >
+            <ThemedText type="small" style={styles.previewLabel}>
+              {row.label}
+            </ThemedText>
+            <ThemedText
+              type="body"
+              style={[styles.previewValue, { color: theme.textSecondary }]}
+            >
+              {before}
+            </ThemedText>
+            <ThemedText
+              type="body"
+              style={[
+                styles.previewValue,
+                before !== after && { color: SemanticColors.warning },
+              ]}
+            >
+              {after}
+            </ThemedText>
+          </View>
+        );
+      })}
+    </Card>
+  );
+}
+
+export default function ImportProgressScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation();
+  const { theme } = useTheme();
+  const { exportProgress, importProgress } = useGame();
+
+  const [text, setText] = useState("");
+  const [backup, setBackup] = useState<ProgressExport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = () => {
+    const result = parseProgressExport(text);
+    if (result.ok) {
+      setBackup(result.backup);
+      setError(null);
+    } else {
+      setBackup(null);
+      setError(result.error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const handleChangeText = (value: string) => {
+    setText(value);
+    setBackup(null);
+    setError(null);
+  };
+
+  const handleImport = () => {
+    if (!backup) return;
+    Alert.alert(
+      "Replace Progress",
+      "Everything on this device will be replaced by the backup. This action cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Replace",
+          style: "destructive",
+          onPress: () => {
+            importProgress(backup.data);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            navigation.goBack();
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAwareScrollViewCompat
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+        showsVerticalScrollIndicator={false}
+      >
+        <Animated.View entering={FadeInUp.duration(300)}>
+          <ThemedText
+            type="small"
+            style={[styles.intro, { color: theme.textSecondary }]}
+          >
+            Paste a backup exported from NumberMind on any device.
+          </ThemedText>
+          <TextInput
+            value={text}
+            onChangeText={handleChangeText}
+            placeholder='{"format":"numbermind-progress", ...}'
+            placeholderTextColor={theme.textDisabled}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            style={[
+              styles.textInput,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                color: theme.text,
+                borderColor: error ? SemanticColors.error : theme.border,
+              },
+            ]}
+          />
+          {error ? (
+            <View style={styles.errorRow}>
+              <Feather
+                name="alert-circle"
+                size={16}
+                color={SemanticColors.error}
+              />
+              <ThemedText type="small" style={{ color: SemanticColors.error }}>
+                {error}
+              </ThemedText>
+            </View>
+          ) : null}
+        </Animated.View>
+
+        {backup ? (
+          <Animated.View entering={FadeInUp.duration(300)}>
+            <ComparisonCard
+              current={summarizeProgress(exportProgress().data)}
+              incoming={summarizeProgress(backup.data)}
+              exportedAt={backup.exportedAt}
+            />
+            <Button onPress={handleImport}>Replace My Progress</Button>
+          </Animated.View>
+        ) : (
+          <Button onPress={handleCheck} disabled={!text.trim()}>
+            Check Backup
+          </Button>
+        )}
+      </KeyboardAwareScrollViewCompat>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+  },
+  intro: {
+    marginBottom: Spacing.md,
+  },
+  textInput: {
+    minHeight: 160,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    fontSize: 13,
+    borderWidth: 1,
+    textAlignVertical: "top",
+    marginBottom: Spacing.md,
+  },
+  errorRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  previewCard: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+  },
+  previewLabel: {
+    flex: 1.4,
+  },
+  previewValue: {
+    flex: 1,
+    textAlign: "right",
+  },
+});
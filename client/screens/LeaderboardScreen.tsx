@@ -0,0 +1,331 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useQuery } from "@tanstack/react-query";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInUp } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Card } from "@/components/Card";
+import { Button } from "@/components/Button";
+import {
+  Spacing,
+  BorderRadius,
+  GameModeColors,
+  SemanticColors,
+} from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import {
+  LeaderboardBoard,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardResponse,
+  LeaderboardWindow,
+} from "@/lib/types";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "Leaderboard"
+>;
+
+const BOARDS: { value: LeaderboardBoard; label: string }[] = [
+  { value: "all", label: "All Modes" },
+  { value: "classic", label: "Classic" },
+  { value: "depth", label: "Depth" },
+  { value: "strategic", label: "Strategic" },
+  { value: "tactical", label: "Tactical" },
+  { value: "deus", label: "Deus" },
+];
+
+const WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: "all", label: "All Time" },
+  { value: "weekly", label: "This Week" },
+  { value: "daily", label: "Today" },
+];
+
+const METRICS: { value: LeaderboardMetric; label: string }[] = [
+  { value: "levels_cleared", label: "Levels Cleared" },
+  { value: "best_streak", label: "Best Streak" },
+  { value: "efficiency", label: "Efficiency" },
+];
+
+function FilterRow<T extends string>({
+  options,
+  value,
+  onChange,
+  color,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  color: string;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.filterRow}
+    >
+      {options.map((option) => {
+        const selected = option.value === value;
+        return (
+          <Pressable
+            key={option.value}
+            onPress={() => onChange(option.value)}
+            style={[
+              styles.filterChip,
+              {
+                backgroundColor: selected
+                  ? color + "30"
+                  : theme.backgroundSecondary,
+                borderColor: selected ? color : "transparent",
+              },
+            ]}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: selected ? color : theme.textSecondary }}
+            >
+              {option.label}
+            </ThemedText>
+          </Pressable>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+function formatMetric(entry: LeaderboardEntry, metric: LeaderboardMetric) {
+  switch (metric) {
+    case "levels_cleared":
+      return `${entry.levelsCleared}`;
+    case "best_streak":
+      return `${entry.bestStreak}`;
+    case "efficiency":
+      return `${Math.round(entry.efficiency * 100)}%`;
+  }
+}
+
+function LeaderboardRow({
+  entry,
+  metric,
+  isLast,
+}: {
+  entry: LeaderboardEntry;
+  metric: LeaderboardMetric;
+  isLast: boolean;
+}) {
+  const { theme } = useTheme();
+  const podiumColors = [
+    GameModeColors.strategic,
+    theme.textSecondary,
+    GameModeColors.depth,
+  ];
+  const rankColor = podiumColors[entry.rank - 1] ?? theme.textSecondary;
+
+  return (
+    <View
+      style={[
+        styles.entryRow,
+        { borderBottomColor: theme.border, borderBottomWidth: isLast ? 0 : 1 },
+      ]}
+    >
+      <View style={[styles.rankBadge, { backgroundColor: rankColor + "20" }]}>
+        <ThemedText type="body" style={{ color: rankColor, fontWeight: "700" }}>
+          {entry.rank}
+        </ThemedText>
+      </View>
+      <View style={styles.entryName}>
+        <ThemedText type="body">{entry.displayName}</ThemedText>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {entry.gamesPlayed} games
+        </ThemedText>
+      </View>
+      <ThemedText type="h4">{formatMetric(entry, metric)}</ThemedText>
+    </View>
+  );
+}
+
+export default function LeaderboardScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation<NavigationProp>();
+  const { theme } = useTheme();
+
+  const [board, setBoard] = useState<LeaderboardBoard>("all");
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("all");
+  const [metric, setMetric] = useState<LeaderboardMetric>("levels_cleared");
+
+  const accent =
+    board === "all" ? GameModeColors.classic : GameModeColors[board];
+
+  const { data, isLoading, isError } = useQuery<LeaderboardResponse>({
+    queryKey: [
+      `/api/leaderboards/${board}?window=${timeWindow}&metric=${metric}`,
+    ],
+    staleTime: 30000,
+  });
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+        showsVerticalScrollIndicator={false}
+      >
+        <Animated.View entering={FadeInUp.duration(300)} style={styles.filters}>
+          <FilterRow
+            options={BOARDS}
+            value={board}
+            onChange={setBoard}
+            color={accent}
+          />
+          <FilterRow
+            options={WINDOWS}
+            value={timeWindow}
+            onChange={setTimeWindow}
+            color={accent}
+          />
+          <FilterRow
+            options={METRICS}
+            value={metric}
+            onChange={setMetric}
+            color={accent}
+          />
+        </Animated.View>
+
+        <Animated.View entering={FadeInUp.delay(100).duration(300)}>
+          <Card elevation={1} style={styles.boardCard}>
+            {isLoading ? (
+              <View style={styles.placeholder}>
+                <ActivityIndicator color={accent} />
+              </View>
+            ) : isError ? (
+              <View style={styles.placeholder}>
+                <Feather
+                  name="wifi-off"
+                  size={24}
+                  color={SemanticColors.error}
+                />
+                <ThemedText
+                  type="small"
+                  style={[
+                    styles.placeholderText,
+                    { color: theme.textSecondary },
+                  ]}
+                >
+                  Leaderboards are unavailable right now
+                </ThemedText>
+              </View>
+            ) : !data || data.entries.length === 0 ? (
+              <View style={styles.placeholder}>
+                <Feather name="award" size={24} color={theme.textSecondary} />
+                <ThemedText
+                  type="small"
+                  style={[
+                    styles.placeholderText,
+                    { color: theme.textSecondary },
+                  ]}
+                >
+                  No ranked results yet
+                </ThemedText>
+              </View>
+            ) : (
+              data.entries.map((entry, index) => (
+                <LeaderboardRow
+                  key={`${entry.rank}-${entry.displayName}`}
+                  entry={entry}
+                  metric={metric}
+                  isLast={index === data.entries.length - 1}
+                />
+              ))
+            )}
+          </Card>
+        </Animated.View>
+
+        <Animated.View entering={FadeInUp.delay(200).duration(300)}>
+          <Button
+            onPress={() => navigation.navigate("Ranked")}
+            style={styles.playButton}
+          >
+            Play Ranked
+          </Button>
+        </Animated.View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+  },
+  filters: {
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  filterRow: {
+    gap: Spacing.sm,
+    paddingRight: Spacing.xl,
+  },
+  filterChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  boardCard: {
+    padding: 0,
+    overflow: "hidden",
+  },
+  entryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+  },
+  rankBadge: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  entryName: {
+    flex: 1,
+  },
+  placeholder: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: Spacing["3xl"],
+  },
+  playButton: {
+    marginTop: Spacing.xl,
+  },
+  placeholderText: {
+    marginTop: Spacing.sm,
+    textAlign: "center",
+  },
+});
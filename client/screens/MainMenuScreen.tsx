@@ -21,11 +21,27 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Button } from "@/components/Button";
 import { Card } from "@/components/Card";
-import { Spacing, BorderRadius, GameModeColors, Shadows } from "@/constants/theme";
+import {
+  Spacing,
+  BorderRadius,
+  GameModeColors,
+  SemanticColors,
+  Shadows,
+} from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useGame } from "@/lib/game-context";
-import { getModeDescription, getModeIcon } from "@/lib/level-generator";
+import {
+  getModeDescription,
+  getModeIcon,
+  getModeName,
+} from "@/lib/level-generator";
 import { getSkillLevelName } from "@/lib/skill-model";
+import {
+  DailyChallengeState,
+  getActiveDailyStreak,
+  getDailyDateKey,
+  hasPlayedDaily,
+} from "@/lib/daily-challenge";
 import { GameMode } from "@/lib/types";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
@@ -44,13 +60,6 @@ function ModeCard({ mode, isActive }: { mode: GameMode; isActive: boolean }) {
     transform: [{ scale: scale.value }],
   }));
 
-  const modeNames: Record<GameMode, string> = {
-    classic: "Classic",
-    depth: "Depth",
-    strategic: "Strategic",
-    tactical: "Tactical",
-  };
-
   return (
     <AnimatedPressable
       onPressIn={() => {
@@ -74,7 +83,7 @@ function ModeCard({ mode, isActive }: { mode: GameMode; isActive: boolean }) {
         <Feather name={icon as any} size={24} color={color} />
       </View>
       <ThemedText type="h4" style={styles.modeName}>
-        {modeNames[mode]}
+        {getModeName(mode)}
       </ThemedText>
       <ThemedText
         type="small"
@@ -87,6 +96,78 @@ function ModeCard({ mode, isActive }: { mode: GameMode; isActive: boolean }) {
   );
 }
 
+function DailyChallengeCard({
+  daily,
+  onPlay,
+}: {
+  daily: DailyChallengeState;
+  onPlay: () => void;
+}) {
+  const { theme } = useTheme();
+  const dateKey = getDailyDateKey();
+  const played = hasPlayedDaily(daily, dateKey);
+  const streak = getActiveDailyStreak(daily, dateKey);
+  const result = played ? daily.lastResult : null;
+  const accent = GameModeColors.deus;
+
+  return (
+    <Card elevation={1} style={styles.dailyCard}>
+      <View style={styles.dailyHeader}>
+        <View style={[styles.dailyIcon, { backgroundColor: accent + "20" }]}>
+          <Feather name="calendar" size={20} color={accent} />
+        </View>
+        <View style={styles.dailyTitle}>
+          <ThemedText type="h4">Daily Challenge</ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {dateKey} - Streak {streak} (best {daily.bestStreak})
+          </ThemedText>
+        </View>
+      </View>
+
+      {result ? (
+        <View style={styles.dailyResult}>
+          <View style={styles.statItem}>
+            <ThemedText
+              type="h4"
+              style={{
+                color: result.won
+                  ? SemanticColors.success
+                  : SemanticColors.error,
+              }}
+            >
+              {result.won ? "Solved" : "Missed"}
+            </ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Result
+            </ThemedText>
+          </View>
+          <View style={styles.statItem}>
+            <ThemedText type="h4">
+              {result.attemptsUsed}/{result.maxAttempts}
+            </ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Attempts
+            </ThemedText>
+          </View>
+          <View style={styles.statItem}>
+            <ThemedText type="h4">{result.timeUsed ?? 0}s</ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Time
+            </ThemedText>
+          </View>
+        </View>
+      ) : (
+        <Button
+          onPress={onPlay}
+          style={[styles.dailyButton, { backgroundColor: accent }]}
+        >
+          Play Today&apos;s Challenge
+        </Button>
+      )}
+    </Card>
+  );
+}
+
 export default function MainMenuScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<NavigationProp>();
@@ -97,6 +178,8 @@ export default function MainMenuScreen() {
     hasSavedGame,
     startNewGame,
     continueGame,
+    dailyChallenge,
+    startDailyChallenge,
     profile,
   } = useGame();
 
@@ -110,6 +193,12 @@ export default function MainMenuScreen() {
     navigation.navigate("Game");
   };
 
+  const handleDailyChallenge = () => {
+    if (startDailyChallenge()) {
+      navigation.navigate("Game");
+    }
+  };
+
   const handleContinueGame = () => {
     continueGame();
     navigation.navigate("Game");
@@ -168,6 +257,52 @@ export default function MainMenuScreen() {
           >
             {hasSavedGame ? "New Game" : "Start Playing"}
           </Button>
+          <Button
+            onPress={() => navigation.navigate("Versus")}
+            style={[
+              styles.secondaryButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            Versus Bot
+          </Button>
+          <Button
+            onPress={() => navigation.navigate("Multiplayer")}
+            style={[
+              styles.secondaryButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            Online Match
+          </Button>
+          <Button
+            onPress={() => navigation.navigate("Room")}
+            style={[
+              styles.secondaryButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            Private Room
+          </Button>
+          <Button
+            onPress={() => navigation.navigate("CustomGame")}
+            style={[
+              styles.secondaryButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            Custom Game
+          </Button>
+        </Animated.View>
+
+        <Animated.View
+          entering={FadeIn.delay(250).duration(400)}
+          style={styles.dailySection}
+        >
+          <DailyChallengeCard
+            daily={dailyChallenge}
+            onPlay={handleDailyChallenge}
+          />
         </Animated.View>
 
         <Animated.View
@@ -235,6 +370,30 @@ export default function MainMenuScreen() {
           { bottom: insets.bottom + Spacing.xl },
         ]}
       >
+        <Pressable
+          onPress={() => navigation.navigate("Leaderboard")}
+          style={({ pressed }) => [
+            styles.floatingButton,
+            {
+              backgroundColor: theme.backgroundSecondary,
+              opacity: pressed ? 0.7 : 1,
+            },
+          ]}
+        >
+          <Feather name="award" size={22} color={theme.text} />
+        </Pressable>
+        <Pressable
+          onPress={() => navigation.navigate("Achievements")}
+          style={({ pressed }) => [
+            styles.floatingButton,
+            {
+              backgroundColor: theme.backgroundSecondary,
+              opacity: pressed ? 0.7 : 1,
+            },
+          ]}
+        >
+          <Feather name="star" size={22} color={theme.text} />
+        </Pressable>
         <Pressable
           onPress={() => navigation.navigate("Stats")}
           style={({ pressed }) => [
@@ -300,6 +459,35 @@ const styles = StyleSheet.create({
   secondaryButton: {
     width: "100%",
   },
+  dailySection: {
+    marginBottom: Spacing["3xl"],
+  },
+  dailyCard: {
+    padding: Spacing.xl,
+  },
+  dailyHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  dailyIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: BorderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dailyTitle: {
+    flex: 1,
+  },
+  dailyResult: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  dailyButton: {
+    width: "100%",
+  },
   modesSection: {
     marginBottom: Spacing["3xl"],
   },
@@ -0,0 +1,523 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation, usePreventRemove } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeIn, FadeInUp } from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { Card } from "@/components/Card";
+import { NumberPad } from "@/components/NumberPad";
+import {
+  Spacing,
+  BorderRadius,
+  GameModeColors,
+  SemanticColors,
+  Fonts,
+} from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useMatch } from "@/hooks/useMatch";
+import { useGame } from "@/lib/game-context";
+import { getModeName } from "@/lib/level-generator";
+import { GuessResult, MatchView } from "@/lib/types";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "Multiplayer"
+>;
+
+function GuessChip({ guess }: { guess: GuessResult }) {
+  const { theme } = useTheme();
+  const isCorrect = guess.feedback === "correct";
+
+  return (
+    <Animated.View
+      entering={FadeIn.duration(200)}
+      style={[
+        styles.guessChip,
+        {
+          backgroundColor: isCorrect
+            ? SemanticColors.success + "20"
+            : theme.backgroundSecondary,
+        },
+      ]}
+    >
+      <ThemedText type="small" style={{ fontFamily: Fonts?.mono }}>
+        {guess.guess}
+      </ThemedText>
+      {isCorrect ? (
+        <Feather name="check" size={14} color={SemanticColors.success} />
+      ) : (
+        <Feather
+          name={guess.feedback === "higher" ? "arrow-up" : "arrow-down"}
+          size={14}
+          color={
+            guess.feedback === "higher"
+              ? GameModeColors.tactical
+              : GameModeColors.classic
+          }
+        />
+      )}
+      {guess.hint ? (
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {guess.hint}
+        </ThemedText>
+      ) : null}
+    </Animated.View>
+  );
+}
+
+// One pip per attempt; the opponent's numbers are never sent to us
+function AttemptPips({
+  used,
+  total,
+  color,
+}: {
+  used: number;
+  total: number;
+  color: string;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <View style={styles.pips}>
+      {Array.from({ length: total }, (_, i) => (
+        <View
+          key={i}
+          style={[
+            styles.pip,
+            { backgroundColor: i < used ? color : theme.backgroundTertiary },
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
+
+function describeOpponent(match: MatchView): string {
+  if (!match.opponent.connected) return "Reconnecting...";
+  if (match.opponent.outcome === "won") return "Found it";
+  if (match.opponent.outcome === "lost") return "Out of tries";
+  return "Guessing";
+}
+
+function getResultTitle(match: MatchView): string {
+  if (match.result === "won") return "You Win";
+  if (match.result === "lost") return "You Lose";
+  return "Draw";
+}
+
+export default function MultiplayerScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation<NavigationProp>();
+  const { theme } = useTheme();
+  const { profile, skillMetrics, currentLevelNumber } = useGame();
+  const { phase, match, connected, error, findMatch, leave, guess, forfeit } =
+    useMatch();
+  const [inputValue, setInputValue] = useState("");
+
+  usePreventRemove(phase === "playing", ({ data }) => {
+    Alert.alert("Leave Match", "Leaving now counts as a forfeit.", [
+      { text: "Stay", style: "cancel" },
+      {
+        text: "Forfeit",
+        style: "destructive",
+        onPress: () => {
+          forfeit();
+          navigation.dispatch(data.action);
+        },
+      },
+    ]);
+  });
+
+  const handleFindMatch = () => {
+    setInputValue("");
+    findMatch({
+      displayName: profile.displayName,
+      skillLevel: skillMetrics.skillLevel,
+      levelNumber: currentLevelNumber,
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!inputValue || !match) return;
+    const value = parseInt(inputValue, 10);
+    setInputValue("");
+    if (
+      match.you.guesses.some((g) => g.guess === value) ||
+      value < match.level.rangeMin ||
+      value > match.level.rangeMax
+    ) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+    guess(value);
+  };
+
+  const handleForfeit = () => {
+    Alert.alert("Forfeit Match", "Your opponent will be given the win.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Forfeit", style: "destructive", onPress: forfeit },
+    ]);
+  };
+
+  if (phase === "idle" || phase === "queued" || !match) {
+    const searching = phase === "queued";
+    return (
+      <ThemedView style={styles.container}>
+        <View
+          style={[
+            styles.content,
+            {
+              paddingTop: headerHeight + Spacing.xl,
+              paddingBottom: insets.bottom + Spacing.xl,
+            },
+          ]}
+        >
+          <Animated.View entering={FadeInUp.duration(300)}>
+            <Card elevation={1} style={styles.lobbyCard}>
+              <ThemedText type="h4">Head to Head</ThemedText>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                Play the same level as someone near your skill level. You will
+                see how many attempts they have used, never their numbers. Fewer
+                guesses wins, and time breaks a tie.
+              </ThemedText>
+            </Card>
+          </Animated.View>
+
+          {searching ? (
+            <View style={styles.searching}>
+              <ActivityIndicator color={GameModeColors.classic} />
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                {connected
+                  ? "Looking for an opponent..."
+                  : "Connecting to the match server..."}
+              </ThemedText>
+              <Pressable
+                onPress={leave}
+                style={({ pressed }) => [
+                  styles.link,
+                  { opacity: pressed ? 0.6 : 1 },
+                ]}
+              >
+                <ThemedText type="link">Cancel</ThemedText>
+              </Pressable>
+            </View>
+          ) : (
+            <Button onPress={handleFindMatch} style={styles.primaryButton}>
+              Find Match
+            </Button>
+          )}
+
+          {error ? (
+            <ThemedText
+              type="small"
+              style={[styles.error, { color: SemanticColors.error }]}
+            >
+              {error}
+            </ThemedText>
+          ) : null}
+        </View>
+      </ThemedView>
+    );
+  }
+
+  const modeColor = GameModeColors[match.level.gameMode];
+  const finished = phase === "finished";
+
+  return (
+    <ThemedView style={styles.container}>
+      <View
+        style={[styles.gameArea, { paddingTop: headerHeight + Spacing.lg }]}
+      >
+        {!connected && !finished ? (
+          <View
+            style={[
+              styles.banner,
+              { backgroundColor: SemanticColors.warning + "20" },
+            ]}
+          >
+            <ActivityIndicator size="small" color={SemanticColors.warning} />
+            <ThemedText type="small">
+              Connection lost, reconnecting...
+            </ThemedText>
+          </View>
+        ) : null}
+
+        <Card elevation={1} style={styles.matchCard}>
+          <View style={styles.row}>
+            <ThemedText type="small" style={{ color: modeColor }}>
+              {getModeName(match.level.gameMode)} - {match.level.rangeMin} to{" "}
+              {match.level.rangeMax}
+            </ThemedText>
+            {match.timeRemaining !== null ? (
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {match.timeRemaining}s left
+              </ThemedText>
+            ) : null}
+          </View>
+
+          <View style={styles.row}>
+            <ThemedText type="body" style={{ fontWeight: "600" }}>
+              You
+            </ThemedText>
+            <AttemptPips
+              used={match.you.guesses.length}
+              total={match.level.maxAttempts}
+              color={modeColor}
+            />
+          </View>
+          <View style={styles.row}>
+            <View>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {match.opponent.displayName}
+              </ThemedText>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {describeOpponent(match)}
+              </ThemedText>
+            </View>
+            <AttemptPips
+              used={match.opponent.attemptsUsed}
+              total={match.level.maxAttempts}
+              color={theme.textSecondary}
+            />
+          </View>
+        </Card>
+
+        <View style={styles.guesses}>
+          {match.you.guesses.map((g) => (
+            <GuessChip key={g.guess} guess={g} />
+          ))}
+        </View>
+
+        {finished ? (
+          <Animated.View entering={FadeInUp.duration(300)}>
+            <Card elevation={1} style={styles.resultCard}>
+              <Feather
+                name={
+                  match.result === "won"
+                    ? "award"
+                    : match.result === "lost"
+                      ? "x-circle"
+                      : "minus-circle"
+                }
+                size={40}
+                color={
+                  match.result === "won"
+                    ? SemanticColors.success
+                    : match.result === "lost"
+                      ? SemanticColors.error
+                      : theme.textSecondary
+                }
+              />
+              <ThemedText type="h3">{getResultTitle(match)}</ThemedText>
+              {match.forfeited ? (
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {match.result === "won"
+                    ? `${match.opponent.displayName} left the match`
+                    : "You left the match"}
+                </ThemedText>
+              ) : null}
+              {match.reveal ? (
+                <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                  The number was {match.reveal.targetNumber}
+                </ThemedText>
+              ) : null}
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                You used {match.you.guesses.length},{" "}
+                {match.opponent.displayName} used {match.opponent.attemptsUsed}
+              </ThemedText>
+              <Button onPress={handleFindMatch} style={styles.primaryButton}>
+                Play Again
+              </Button>
+              <Pressable
+                onPress={() => {
+                  leave();
+                  navigation.goBack();
+                }}
+                style={({ pressed }) => [
+                  styles.link,
+                  { opacity: pressed ? 0.6 : 1 },
+                ]}
+              >
+                <ThemedText type="link">Back to Menu</ThemedText>
+              </Pressable>
+            </Card>
+          </Animated.View>
+        ) : (
+          <>
+            <View style={styles.inputDisplay}>
+              <ThemedText
+                style={[
+                  styles.inputText,
+                  { color: inputValue ? theme.text : theme.textDisabled },
+                ]}
+              >
+                {inputValue || "?"}
+              </ThemedText>
+              {error ? (
+                <ThemedText
+                  type="small"
+                  style={{ color: SemanticColors.error }}
+                >
+                  {error}
+                </ThemedText>
+              ) : null}
+            </View>
+            {match.you.outcome !== null ? (
+              <ThemedText
+                type="small"
+                style={[styles.waiting, { color: theme.textSecondary }]}
+              >
+                Waiting for {match.opponent.displayName} to finish...
+              </ThemedText>
+            ) : null}
+          </>
+        )}
+      </View>
+
+      {!finished ? (
+        <View
+          style={[
+            styles.numpadContainer,
+            { paddingBottom: insets.bottom + Spacing.lg },
+          ]}
+        >
+          <NumberPad
+            onPress={(num) =>
+              setInputValue((prev) => (prev.length < 4 ? prev + num : prev))
+            }
+            onDelete={() => setInputValue((prev) => prev.slice(0, -1))}
+            onSubmit={handleSubmit}
+            disabled={!connected || match.you.outcome !== null}
+          />
+          <Pressable
+            onPress={handleForfeit}
+            style={({ pressed }) => [
+              styles.link,
+              styles.forfeit,
+              { opacity: pressed ? 0.6 : 1 },
+            ]}
+          >
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Forfeit
+            </ThemedText>
+          </Pressable>
+        </View>
+      ) : null}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: Spacing.xl,
+  },
+  lobbyCard: {
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  searching: {
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  primaryButton: {
+    width: "100%",
+    marginTop: Spacing.md,
+  },
+  link: {
+    padding: Spacing.sm,
+    alignItems: "center",
+  },
+  error: {
+    textAlign: "center",
+    marginTop: Spacing.md,
+  },
+  gameArea: {
+    flex: 1,
+    paddingHorizontal: Spacing.xl,
+  },
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+  },
+  matchCard: {
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  pips: {
+    flexDirection: "row",
+    gap: Spacing.xs,
+  },
+  pip: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  guesses: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: Spacing.sm,
+  },
+  guessChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.md,
+  },
+  inputDisplay: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  inputText: {
+    fontSize: 72,
+    fontWeight: "700",
+    fontFamily: Fonts?.mono,
+    letterSpacing: 4,
+  },
+  waiting: {
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  resultCard: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.xl,
+  },
+  numpadContainer: {
+    paddingHorizontal: Spacing.xl,
+  },
+  forfeit: {
+    marginTop: Spacing.sm,
+  },
+});
@@ -0,0 +1,369 @@
+import React, { useState } from "react";
+import { View, StyleSheet } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useQuery } from "@tanstack/react-query";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeIn, FadeInUp } from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { Card } from "@/components/Card";
+import { NumberPad } from "@/components/NumberPad";
+import {
+  Spacing,
+  BorderRadius,
+  GameModeColors,
+  SemanticColors,
+  Fonts,
+} from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/hooks/useAuth";
+import { getModeName } from "@/lib/level-generator";
+import { getApiErrorMessage, queryClient } from "@/lib/query-client";
+import {
+  createGameSession,
+  fetchGameSession,
+  submitSessionGuess,
+} from "@/lib/session-api";
+import { GameSessionView, GuessResult } from "@/lib/types";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, "Ranked">;
+
+// Timed rounds are polled so the clock and a timeout come from the server
+const POLL_INTERVAL = 1000;
+
+function GuessChip({ guess }: { guess: GuessResult }) {
+  const { theme } = useTheme();
+  const isCorrect = guess.feedback === "correct";
+
+  return (
+    <Animated.View
+      entering={FadeIn.duration(200)}
+      style={[
+        styles.guessChip,
+        {
+          backgroundColor: isCorrect
+            ? SemanticColors.success + "20"
+            : theme.backgroundSecondary,
+        },
+      ]}
+    >
+      <ThemedText type="small" style={{ fontFamily: Fonts?.mono }}>
+        {guess.guess}
+      </ThemedText>
+      {isCorrect ? (
+        <Feather name="check" size={14} color={SemanticColors.success} />
+      ) : (
+        <Feather
+          name={guess.feedback === "higher" ? "arrow-up" : "arrow-down"}
+          size={14}
+          color={
+            guess.feedback === "higher"
+              ? GameModeColors.tactical
+              : GameModeColors.classic
+          }
+        />
+      )}
+      {guess.hint ? (
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {guess.hint}
+        </ThemedText>
+      ) : null}
+    </Animated.View>
+  );
+}
+
+function describeOutcome(session: GameSessionView): string {
+  if (session.outcome === "won") {
+    return `Found it in ${session.guesses.length}`;
+  }
+  return session.timeRemaining === 0 ? "Out of time" : "Out of tries";
+}
+
+// Ranked rounds are played against /api/sessions, so the target never
+// reaches the device and every result on the boards was scored by the server.
+export default function RankedScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation<NavigationProp>();
+  const { theme } = useTheme();
+  const { user } = useAuth();
+
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inputValue, setInputValue] = useState("");
+
+  const queryKey = ["session", sessionId];
+  const { data: session } = useQuery({
+    queryKey,
+    queryFn: () => fetchGameSession(sessionId!),
+    enabled: sessionId !== null,
+    refetchInterval: (query) =>
+      query.state.data?.outcome === null &&
+      query.state.data.timeRemaining !== null
+        ? POLL_INTERVAL
+        : false,
+  });
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = () => {
+    run(async () => {
+      const created = await createGameSession();
+      queryClient.setQueryData(["session", created.id], created);
+      setSessionId(created.id);
+      setInputValue("");
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!inputValue || !session) return;
+    const guess = parseInt(inputValue, 10);
+    setInputValue("");
+    run(async () => {
+      const result = await submitSessionGuess(session.id, guess);
+      queryClient.setQueryData(queryKey, result.session);
+      if (result.session.outcome === "won") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } else if (result.session.outcome === "lost") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+    });
+  };
+
+  const errorText = error ? (
+    <ThemedText
+      type="small"
+      style={[styles.error, { color: SemanticColors.error }]}
+    >
+      {error}
+    </ThemedText>
+  ) : null;
+
+  if (!session) {
+    return (
+      <ThemedView style={styles.container}>
+        <View
+          style={[
+            styles.content,
+            {
+              paddingTop: headerHeight + Spacing.xl,
+              paddingBottom: insets.bottom + Spacing.xl,
+            },
+          ]}
+        >
+          <Animated.View entering={FadeInUp.duration(300)}>
+            <Card elevation={1} style={styles.introCard}>
+              <Feather name="award" size={32} color={GameModeColors.classic} />
+              <ThemedText type="h3">Ranked Play</ThemedText>
+              <ThemedText
+                type="small"
+                style={[styles.introText, { color: theme.textSecondary }]}
+              >
+                The server picks each number and scores every guess. Clear a
+                level to move up the leaderboards; a loss plays the same level
+                again, and a level you leave stays open until you finish it.
+              </ThemedText>
+            </Card>
+          </Animated.View>
+          {errorText}
+          {user ? (
+            <Button
+              onPress={handleStart}
+              disabled={busy}
+              style={styles.fullWidth}
+            >
+              Start Ranked Level
+            </Button>
+          ) : (
+            <Button
+              onPress={() => navigation.navigate("Account")}
+              style={styles.fullWidth}
+            >
+              Sign In to Play Ranked
+            </Button>
+          )}
+        </View>
+      </ThemedView>
+    );
+  }
+
+  const modeColor = GameModeColors[session.level.gameMode];
+  const done = session.outcome !== null;
+
+  return (
+    <ThemedView style={styles.container}>
+      <View
+        style={[styles.gameArea, { paddingTop: headerHeight + Spacing.lg }]}
+      >
+        <Card elevation={1} style={styles.levelCard}>
+          <View style={styles.levelHeader}>
+            <ThemedText type="h4">Level {session.levelNumber}</ThemedText>
+            {session.timeRemaining !== null && !done ? (
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {Math.ceil(session.timeRemaining)}s left
+              </ThemedText>
+            ) : null}
+          </View>
+          <ThemedText type="small" style={{ color: modeColor }}>
+            {getModeName(session.level.gameMode)} - {session.level.rangeMin} to{" "}
+            {session.level.rangeMax}, {session.attemptsLeft} attempts left
+          </ThemedText>
+        </Card>
+
+        <View style={styles.guesses}>
+          {session.guesses.map((guess) => (
+            <GuessChip key={guess.guess} guess={guess} />
+          ))}
+        </View>
+
+        <View style={styles.inputDisplay}>
+          {done ? (
+            <Animated.View
+              entering={FadeInUp.duration(300)}
+              style={styles.outcome}
+            >
+              <ThemedText
+                type="h3"
+                style={{
+                  color:
+                    session.outcome === "won"
+                      ? SemanticColors.success
+                      : SemanticColors.error,
+                }}
+              >
+                {describeOutcome(session)}
+              </ThemedText>
+              {session.reveal ? (
+                <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                  The number was {session.reveal.targetNumber}
+                </ThemedText>
+              ) : null}
+              <Button
+                onPress={handleStart}
+                disabled={busy}
+                style={styles.fullWidth}
+              >
+                {session.outcome === "won" ? "Next Level" : "Try Again"}
+              </Button>
+            </Animated.View>
+          ) : (
+            <ThemedText
+              style={[
+                styles.inputText,
+                { color: inputValue ? theme.text : theme.textDisabled },
+              ]}
+            >
+              {inputValue || "?"}
+            </ThemedText>
+          )}
+          {errorText}
+        </View>
+      </View>
+
+      <View
+        style={[
+          styles.numpadContainer,
+          { paddingBottom: insets.bottom + Spacing.lg },
+        ]}
+      >
+        <NumberPad
+          onPress={(num) =>
+            setInputValue((prev) => (prev.length < 4 ? prev + num : prev))
+          }
+          onDelete={() => setInputValue((prev) => prev.slice(0, -1))}
+          onSubmit={handleSubmit}
+          disabled={busy || done}
+        />
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+  },
+  introCard: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  introText: {
+    textAlign: "center",
+  },
+  error: {
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  fullWidth: {
+    width: "100%",
+  },
+  gameArea: {
+    flex: 1,
+    paddingHorizontal: Spacing.xl,
+  },
+  levelCard: {
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  levelHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  guesses: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: Spacing.sm,
+  },
+  guessChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.md,
+  },
+  inputDisplay: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  inputText: {
+    fontSize: 72,
+    fontWeight: "700",
+    fontFamily: Fonts?.mono,
+    letterSpacing: 4,
+  },
+  outcome: {
+    alignItems: "center",
+    gap: Spacing.md,
+    width: "100%",
+  },
+  numpadContainer: {
+    paddingHorizontal: Spacing.xl,
+  },
+});
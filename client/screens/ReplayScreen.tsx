@@ -0,0 +1,449 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { View, StyleSheet, ScrollView, Pressable } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { RouteProp, useRoute } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import Animated, {
+  FadeInUp,
+  useAnimatedStyle,
+  withTiming,
+} from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Card } from "@/components/Card";
+import {
+  Spacing,
+  BorderRadius,
+  GameModeColors,
+  SemanticColors,
+  Fonts,
+} from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { getModeIcon, getModeName } from "@/lib/level-generator";
+import { REPLAY_SPEEDS, ReplaySpeed, buildReplay } from "@/lib/replay";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type ReplayRouteProp = RouteProp<RootStackParamList, "Replay">;
+
+function RangeBar({
+  rangeMin,
+  rangeMax,
+  low,
+  high,
+  color,
+}: {
+  rangeMin: number;
+  rangeMax: number;
+  low: number;
+  high: number;
+  color: string;
+}) {
+  const { theme } = useTheme();
+  const span = Math.max(1, rangeMax - rangeMin + 1);
+  const left = ((low - rangeMin) / span) * 100;
+  const width = (Math.max(1, high - low + 1) / span) * 100;
+
+  const fillStyle = useAnimatedStyle(() => ({
+    left: withTiming(`${left}%`, { duration: 350 }),
+    width: withTiming(`${width}%`, { duration: 350 }),
+  }));
+
+  return (
+    <View>
+      <View
+        style={[
+          styles.rangeTrack,
+          { backgroundColor: theme.backgroundTertiary },
+        ]}
+      >
+        <Animated.View
+          style={[styles.rangeFill, { backgroundColor: color }, fillStyle]}
+        />
+      </View>
+      <View style={styles.rangeLabels}>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {rangeMin}
+        </ThemedText>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {rangeMax}
+        </ThemedText>
+      </View>
+    </View>
+  );
+}
+
+function ControlButton({
+  icon,
+  onPress,
+  disabled,
+  color,
+}: {
+  icon: string;
+  onPress: () => void;
+  disabled?: boolean;
+  color: string;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={({ pressed }) => [
+        styles.controlButton,
+        {
+          backgroundColor: theme.backgroundSecondary,
+          opacity: disabled ? 0.4 : pressed ? 0.7 : 1,
+        },
+      ]}
+    >
+      <Feather name={icon as any} size={22} color={color} />
+    </Pressable>
+  );
+}
+
+export default function ReplayScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { theme } = useTheme();
+  const { result } = useRoute<ReplayRouteProp>().params;
+
+  const replay = useMemo(() => buildReplay(result), [result]);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+
+  const stepCount = replay.steps.length;
+  const modeColor = GameModeColors[result.gameMode];
+  const current = position > 0 ? replay.steps[position - 1] : null;
+  const low = current?.low ?? replay.rangeMin;
+  const high = current?.high ?? replay.rangeMax;
+
+  // Each guess appears after the pause the player actually took before it
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (position >= stepCount) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(
+      () => setPosition((prev) => prev + 1),
+      replay.steps[position].delay / speed,
+    );
+    return () => clearTimeout(timeout);
+  }, [isPlaying, position, stepCount, replay, speed]);
+
+  const handlePlayPause = () => {
+    if (position >= stepCount) {
+      setPosition(0);
+      setIsPlaying(true);
+    } else {
+      setIsPlaying((prev) => !prev);
+    }
+  };
+
+  const handleStep = (delta: number) => {
+    setIsPlaying(false);
+    setPosition((prev) => Math.min(stepCount, Math.max(0, prev + delta)));
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+        showsVerticalScrollIndicator={false}
+      >
+        <Animated.View entering={FadeInUp.duration(300)}>
+          <Card elevation={1} style={styles.summaryCard}>
+            <View style={styles.summaryHeader}>
+              <View
+                style={[styles.modeIcon, { backgroundColor: modeColor + "20" }]}
+              >
+                <Feather
+                  name={getModeIcon(result.gameMode) as any}
+                  size={20}
+                  color={modeColor}
+                />
+              </View>
+              <View style={styles.summaryTitle}>
+                <ThemedText type="h4">Level {result.levelNumber}</ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {getModeName(result.gameMode)} -{" "}
+                  {new Date(result.completedAt).toLocaleDateString()}
+                </ThemedText>
+              </View>
+              <Feather
+                name={result.won ? "check-circle" : "x-circle"}
+                size={24}
+                color={
+                  result.won ? SemanticColors.success : SemanticColors.error
+                }
+              />
+            </View>
+
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Possible numbers
+            </ThemedText>
+            <ThemedText
+              type="h2"
+              style={[styles.rangeText, { color: modeColor }]}
+            >
+              {low === high ? low : `${low} - ${high}`}
+            </ThemedText>
+            <RangeBar
+              rangeMin={replay.rangeMin}
+              rangeMax={replay.rangeMax}
+              low={low}
+              high={high}
+              color={modeColor}
+            />
+            {!replay.rangeKnown ? (
+              <ThemedText
+                type="small"
+                style={[styles.rangeNote, { color: theme.textSecondary }]}
+              >
+                This result was saved before ranges were recorded, so the
+                starting range is estimated.
+              </ThemedText>
+            ) : null}
+          </Card>
+        </Animated.View>
+
+        <Animated.View
+          entering={FadeInUp.delay(100).duration(300)}
+          style={styles.controls}
+        >
+          <ControlButton
+            icon="skip-back"
+            onPress={() => handleStep(-1)}
+            disabled={position === 0}
+            color={theme.text}
+          />
+          <ControlButton
+            icon={
+              isPlaying
+                ? "pause"
+                : position >= stepCount
+                  ? "rotate-ccw"
+                  : "play"
+            }
+            onPress={handlePlayPause}
+            color={modeColor}
+          />
+          <ControlButton
+            icon="skip-forward"
+            onPress={() => handleStep(1)}
+            disabled={position >= stepCount}
+            color={theme.text}
+          />
+        </Animated.View>
+
+        <View style={styles.speedRow}>
+          {REPLAY_SPEEDS.map((option) => (
+            <Pressable
+              key={option}
+              onPress={() => setSpeed(option)}
+              style={[
+                styles.speedChip,
+                {
+                  backgroundColor:
+                    speed === option
+                      ? modeColor + "30"
+                      : theme.backgroundSecondary,
+                  borderColor: speed === option ? modeColor : "transparent",
+                },
+              ]}
+            >
+              <ThemedText
+                type="small"
+                style={{
+                  color: speed === option ? modeColor : theme.textSecondary,
+                }}
+              >
+                {option}x
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+
+        <ThemedText type="h4" style={styles.sectionTitle}>
+          Guesses ({position}/{stepCount})
+        </ThemedText>
+        {replay.steps.slice(0, position).map((step, index) => {
+          const isCorrect = step.guess.feedback === "correct";
+          return (
+            <Animated.View
+              key={`${index}-${step.guess.guess}`}
+              entering={FadeInUp.duration(200)}
+              style={[
+                styles.guessItem,
+                {
+                  backgroundColor: isCorrect
+                    ? SemanticColors.success + "20"
+                    : theme.backgroundSecondary,
+                },
+              ]}
+            >
+              <ThemedText type="body" style={{ fontFamily: Fonts?.mono }}>
+                {step.guess.guess}
+              </ThemedText>
+              <View style={styles.guessFeedback}>
+                {isCorrect ? (
+                  <Feather
+                    name="check"
+                    size={16}
+                    color={SemanticColors.success}
+                  />
+                ) : (
+                  <Feather
+                    name={
+                      step.guess.feedback === "higher"
+                        ? "arrow-up"
+                        : "arrow-down"
+                    }
+                    size={16}
+                    color={
+                      step.guess.feedback === "higher"
+                        ? GameModeColors.tactical
+                        : GameModeColors.classic
+                    }
+                  />
+                )}
+                {step.guess.hint ? (
+                  <ThemedText
+                    type="small"
+                    style={{
+                      color: theme.textSecondary,
+                      marginLeft: Spacing.xs,
+                    }}
+                  >
+                    {step.guess.hint}
+                  </ThemedText>
+                ) : null}
+              </View>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {step.low === step.high
+                  ? `${step.low}`
+                  : `${step.low}-${step.high}`}
+              </ThemedText>
+            </Animated.View>
+          );
+        })}
+        {position >= stepCount && !result.won ? (
+          <ThemedText
+            type="body"
+            style={[styles.reveal, { color: theme.textSecondary }]}
+          >
+            The number was {result.targetNumber}
+          </ThemedText>
+        ) : null}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+  },
+  summaryCard: {
+    marginBottom: Spacing.xl,
+  },
+  summaryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  summaryTitle: {
+    flex: 1,
+  },
+  modeIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  rangeText: {
+    marginVertical: Spacing.sm,
+  },
+  rangeTrack: {
+    height: 12,
+    borderRadius: BorderRadius.full,
+    overflow: "hidden",
+  },
+  rangeFill: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    borderRadius: BorderRadius.full,
+  },
+  rangeLabels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: Spacing.xs,
+  },
+  rangeNote: {
+    marginTop: Spacing.md,
+  },
+  controls: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  controlButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  speedRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  speedChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  guessItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+  },
+  guessFeedback: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    marginLeft: Spacing.lg,
+  },
+  reveal: {
+    textAlign: "center",
+    marginTop: Spacing.md,
+  },
+});
@@ -0,0 +1,872 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation, usePreventRemove } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useQuery } from "@tanstack/react-query";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeIn, FadeInUp } from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { Card } from "@/components/Card";
+import { NumberPad } from "@/components/NumberPad";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import {
+  Spacing,
+  BorderRadius,
+  GameModeColors,
+  SemanticColors,
+  Fonts,
+} from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useGame } from "@/lib/game-context";
+import { getModeName } from "@/lib/level-generator";
+import { getApiErrorMessage, queryClient } from "@/lib/query-client";
+import {
+  createRoom,
+  fetchRoom,
+  joinRoom,
+  leaveRoom,
+  startRoom,
+  submitRoomGuess,
+} from "@/lib/room-api";
+import {
+  CustomLevelSettings,
+  GameMode,
+  GuessResult,
+  RoomMembership,
+  RoomPlayerView,
+  RoomView,
+} from "@/lib/types";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, "Room">;
+
+type SetupMode = "create" | "join";
+
+const ROOM_MODES: GameMode[] = [
+  "classic",
+  "depth",
+  "strategic",
+  "tactical",
+  "deus",
+];
+
+const TIME_LIMIT_OPTIONS: (number | null)[] = [null, 30, 60, 120];
+
+const DEFAULT_SETTINGS = {
+  gameMode: "classic" as GameMode,
+  rangeMin: "1",
+  rangeMax: "100",
+  maxAttempts: "7",
+  timeLimit: null as number | null,
+};
+
+const POLL_INTERVAL = 1500;
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function parseSettings(
+  form: typeof DEFAULT_SETTINGS,
+): CustomLevelSettings | string {
+  const rangeMin = parseInt(form.rangeMin, 10);
+  const rangeMax = parseInt(form.rangeMax, 10);
+  const maxAttempts = parseInt(form.maxAttempts, 10);
+  if ([rangeMin, rangeMax, maxAttempts].some(Number.isNaN)) {
+    return "Fill in the range and attempts";
+  }
+  if (rangeMax <= rangeMin)
+    return "The range maximum must be above the minimum";
+  return {
+    gameMode: form.gameMode,
+    rangeMin,
+    rangeMax,
+    maxAttempts,
+    timeLimit: form.timeLimit,
+  };
+}
+
+function Chip({
+  label,
+  selected,
+  color,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  color: string;
+  onPress: () => void;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? color + "30" : theme.backgroundSecondary,
+          borderColor: selected ? color : "transparent",
+        },
+      ]}
+    >
+      <ThemedText
+        type="small"
+        style={{ color: selected ? color : theme.textSecondary }}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+function GuessChip({ guess }: { guess: GuessResult }) {
+  const { theme } = useTheme();
+  const isCorrect = guess.feedback === "correct";
+
+  return (
+    <Animated.View
+      entering={FadeIn.duration(200)}
+      style={[
+        styles.guessChip,
+        {
+          backgroundColor: isCorrect
+            ? SemanticColors.success + "20"
+            : theme.backgroundSecondary,
+        },
+      ]}
+    >
+      <ThemedText type="small" style={{ fontFamily: Fonts?.mono }}>
+        {guess.guess}
+      </ThemedText>
+      {isCorrect ? (
+        <Feather name="check" size={14} color={SemanticColors.success} />
+      ) : (
+        <Feather
+          name={guess.feedback === "higher" ? "arrow-up" : "arrow-down"}
+          size={14}
+          color={
+            guess.feedback === "higher"
+              ? GameModeColors.tactical
+              : GameModeColors.classic
+          }
+        />
+      )}
+      {guess.hint ? (
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {guess.hint}
+        </ThemedText>
+      ) : null}
+    </Animated.View>
+  );
+}
+
+function describePlayer(player: RoomPlayerView, status: RoomView["status"]) {
+  if (status === "waiting") return player.isHost ? "Host" : "Ready";
+  if (player.outcome === "won") return `Found it in ${player.attemptsUsed}`;
+  if (player.outcome === "lost") return "Out of tries";
+  return `${player.attemptsUsed} guesses`;
+}
+
+// Other players' numbers are never sent, only how far along they are
+function PlayerRow({
+  player,
+  room,
+  isYou,
+}: {
+  player: RoomPlayerView;
+  room: RoomView;
+  isYou: boolean;
+}) {
+  const { theme } = useTheme();
+  const finished = room.status === "finished";
+
+  return (
+    <View style={styles.playerRow}>
+      <View
+        style={[
+          styles.playerBadge,
+          { backgroundColor: theme.backgroundSecondary },
+        ]}
+      >
+        {finished ? (
+          <ThemedText type="small" style={{ fontWeight: "700" }}>
+            {player.rank}
+          </ThemedText>
+        ) : (
+          <Feather
+            name={player.isHost ? "star" : "user"}
+            size={14}
+            color={theme.text}
+          />
+        )}
+      </View>
+      <View style={styles.playerInfo}>
+        <ThemedText type="body" style={{ fontWeight: isYou ? "700" : "400" }}>
+          {player.displayName}
+          {isYou ? " (you)" : ""}
+        </ThemedText>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {describePlayer(player, room.status)}
+        </ThemedText>
+      </View>
+      {finished && player.outcome === "won" && player.timeMs !== null ? (
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {formatSeconds(player.timeMs)}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+}
+
+export default function RoomScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation<NavigationProp>();
+  const { theme } = useTheme();
+  const { profile } = useGame();
+
+  const [setupMode, setSetupMode] = useState<SetupMode>("create");
+  const [form, setForm] = useState(DEFAULT_SETTINGS);
+  const [joinCode, setJoinCode] = useState("");
+  const [membership, setMembership] = useState<RoomMembership | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inputValue, setInputValue] = useState("");
+
+  const code = membership?.room.code ?? "";
+  const token = membership?.token ?? "";
+  const queryKey = ["room", code, token];
+
+  const { data: polled } = useQuery({
+    queryKey,
+    queryFn: () => fetchRoom(code, token),
+    enabled: membership !== null,
+    refetchInterval: (query) =>
+      query.state.data?.status === "finished" ? false : POLL_INTERVAL,
+  });
+  const room = membership ? (polled ?? membership.room) : null;
+
+  // Leaving the screen gives up the seat, or the round if it has started
+  const leaveRef = useRef<(() => void) | null>(null);
+  leaveRef.current =
+    membership && room?.status !== "finished"
+      ? () => {
+          leaveRoom(membership.room.code, membership.token).catch(() => {});
+        }
+      : null;
+  useEffect(() => () => leaveRef.current?.(), []);
+
+  usePreventRemove(room?.status === "playing", ({ data }) => {
+    Alert.alert("Leave Room", "Leaving now ends your round as a loss.", [
+      { text: "Stay", style: "cancel" },
+      {
+        text: "Leave",
+        style: "destructive",
+        onPress: () => navigation.dispatch(data.action),
+      },
+    ]);
+  });
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const settings = parseSettings(form);
+    if (typeof settings === "string") {
+      setError(settings);
+      return;
+    }
+    run(async () => {
+      setMembership(await createRoom(profile.displayName, settings));
+    });
+  };
+
+  const handleJoin = () => {
+    const trimmed = joinCode.trim().toUpperCase();
+    if (!trimmed) return;
+    run(async () => {
+      setMembership(await joinRoom(trimmed, profile.displayName));
+    });
+  };
+
+  const handleStart = () => {
+    run(async () => {
+      queryClient.setQueryData(queryKey, await startRoom(code, token));
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!inputValue || !room) return;
+    const guess = parseInt(inputValue, 10);
+    setInputValue("");
+    run(async () => {
+      const result = await submitRoomGuess(code, token, guess);
+      queryClient.setQueryData(queryKey, result.room);
+      if (result.guess?.feedback === "correct") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    });
+  };
+
+  const handleLeave = () => {
+    leaveRef.current?.();
+    setMembership(null);
+    setError(null);
+  };
+
+  const inputStyle = [
+    styles.textInput,
+    {
+      backgroundColor: theme.backgroundSecondary,
+      color: theme.text,
+      borderColor: theme.border,
+    },
+  ];
+
+  const errorText = error ? (
+    <ThemedText
+      type="small"
+      style={[styles.error, { color: SemanticColors.error }]}
+    >
+      {error}
+    </ThemedText>
+  ) : null;
+
+  if (!room) {
+    return (
+      <ThemedView style={styles.container}>
+        <KeyboardAwareScrollViewCompat
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: headerHeight + Spacing.xl,
+              paddingBottom: insets.bottom + Spacing.xl,
+            },
+          ]}
+        >
+          <View
+            style={[
+              styles.modeToggle,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            {(["create", "join"] as SetupMode[]).map((option) => (
+              <Pressable
+                key={option}
+                onPress={() => {
+                  setSetupMode(option);
+                  setError(null);
+                }}
+                style={[
+                  styles.modeOption,
+                  setupMode === option && {
+                    backgroundColor: theme.backgroundTertiary,
+                  },
+                ]}
+              >
+                <ThemedText
+                  type="body"
+                  style={{
+                    color:
+                      setupMode === option ? theme.text : theme.textSecondary,
+                  }}
+                >
+                  {option === "create" ? "Create Room" : "Join Room"}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+
+          {setupMode === "create" ? (
+            <Animated.View entering={FadeInUp.duration(300)}>
+              <Card elevation={1} style={styles.formCard}>
+                <ThemedText
+                  type="small"
+                  style={[styles.fieldLabel, { color: theme.textSecondary }]}
+                >
+                  Mode
+                </ThemedText>
+                <View style={styles.chipRow}>
+                  {ROOM_MODES.map((mode) => (
+                    <Chip
+                      key={mode}
+                      label={getModeName(mode)}
+                      selected={form.gameMode === mode}
+                      color={GameModeColors[mode]}
+                      onPress={() => setForm({ ...form, gameMode: mode })}
+                    />
+                  ))}
+                </View>
+
+                <View style={styles.fieldRow}>
+                  <View style={styles.field}>
+                    <ThemedText
+                      type="small"
+                      style={[
+                        styles.fieldLabel,
+                        { color: theme.textSecondary },
+                      ]}
+                    >
+                      From
+                    </ThemedText>
+                    <TextInput
+                      value={form.rangeMin}
+                      onChangeText={(rangeMin) =>
+                        setForm({ ...form, rangeMin })
+                      }
+                      keyboardType="number-pad"
+                      maxLength={3}
+                      style={inputStyle}
+                    />
+                  </View>
+                  <View style={styles.field}>
+                    <ThemedText
+                      type="small"
+                      style={[
+                        styles.fieldLabel,
+                        { color: theme.textSecondary },
+                      ]}
+                    >
+                      To
+                    </ThemedText>
+                    <TextInput
+                      value={form.rangeMax}
+                      onChangeText={(rangeMax) =>
+                        setForm({ ...form, rangeMax })
+                      }
+                      keyboardType="number-pad"
+                      maxLength={4}
+                      style={inputStyle}
+                    />
+                  </View>
+                  <View style={styles.field}>
+                    <ThemedText
+                      type="small"
+                      style={[
+                        styles.fieldLabel,
+                        { color: theme.textSecondary },
+                      ]}
+                    >
+                      Attempts
+                    </ThemedText>
+                    <TextInput
+                      value={form.maxAttempts}
+                      onChangeText={(maxAttempts) =>
+                        setForm({ ...form, maxAttempts })
+                      }
+                      keyboardType="number-pad"
+                      maxLength={2}
+                      style={inputStyle}
+                    />
+                  </View>
+                </View>
+
+                <ThemedText
+                  type="small"
+                  style={[styles.fieldLabel, { color: theme.textSecondary }]}
+                >
+                  Time Limit
+                </ThemedText>
+                <View style={styles.chipRow}>
+                  {TIME_LIMIT_OPTIONS.map((limit) => (
+                    <Chip
+                      key={String(limit)}
+                      label={limit === null ? "None" : `${limit}s`}
+                      selected={form.timeLimit === limit}
+                      color={GameModeColors.classic}
+                      onPress={() => setForm({ ...form, timeLimit: limit })}
+                    />
+                  ))}
+                </View>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Up to 8 players. Attempts are raised if the range needs more.
+                </ThemedText>
+              </Card>
+              {errorText}
+              <Button
+                onPress={handleCreate}
+                disabled={busy}
+                style={styles.fullWidth}
+              >
+                Create Room
+              </Button>
+            </Animated.View>
+          ) : (
+            <Animated.View entering={FadeInUp.duration(300)}>
+              <Card elevation={1} style={styles.formCard}>
+                <ThemedText
+                  type="small"
+                  style={[styles.fieldLabel, { color: theme.textSecondary }]}
+                >
+                  Room Code
+                </ThemedText>
+                <TextInput
+                  value={joinCode}
+                  onChangeText={setJoinCode}
+                  placeholder="ABCDE"
+                  placeholderTextColor={theme.textDisabled}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  maxLength={5}
+                  style={[inputStyle, styles.codeInput]}
+                />
+              </Card>
+              {errorText}
+              <Button
+                onPress={handleJoin}
+                disabled={busy}
+                style={styles.fullWidth}
+              >
+                Join Room
+              </Button>
+            </Animated.View>
+          )}
+        </KeyboardAwareScrollViewCompat>
+      </ThemedView>
+    );
+  }
+
+  const modeColor = GameModeColors[room.level.gameMode];
+  const levelSummary = (
+    <ThemedText type="small" style={{ color: modeColor }}>
+      {getModeName(room.level.gameMode)} - {room.level.rangeMin} to{" "}
+      {room.level.rangeMax}, {room.level.maxAttempts} attempts
+      {room.level.timeLimit !== null ? `, ${room.level.timeLimit}s` : ""}
+    </ThemedText>
+  );
+  const playerList = room.players.map((player) => (
+    <PlayerRow
+      key={player.id}
+      player={player}
+      room={room}
+      isYou={player.id === room.you.id}
+    />
+  ));
+
+  if (room.status !== "playing") {
+    const finished = room.status === "finished";
+    return (
+      <ThemedView style={styles.container}>
+        <KeyboardAwareScrollViewCompat
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: headerHeight + Spacing.xl,
+              paddingBottom: insets.bottom + Spacing.xl,
+            },
+          ]}
+        >
+          <Animated.View entering={FadeInUp.duration(300)}>
+            <Card elevation={1} style={styles.codeCard}>
+              {finished ? (
+                <>
+                  <ThemedText type="h3">Results</ThemedText>
+                  {room.reveal ? (
+                    <ThemedText
+                      type="body"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      The number was {room.reveal.targetNumber}
+                    </ThemedText>
+                  ) : null}
+                </>
+              ) : (
+                <>
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    Share this code
+                  </ThemedText>
+                  <ThemedText style={styles.roomCode}>{room.code}</ThemedText>
+                </>
+              )}
+              {levelSummary}
+            </Card>
+          </Animated.View>
+
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            {finished
+              ? "Players"
+              : `Players ${room.players.length}/${room.maxPlayers}`}
+          </ThemedText>
+          <Card elevation={1} style={styles.playersCard}>
+            {playerList}
+          </Card>
+
+          {errorText}
+          {finished ? (
+            <Button
+              onPress={() => navigation.goBack()}
+              style={styles.fullWidth}
+            >
+              Back to Menu
+            </Button>
+          ) : room.you.isHost ? (
+            <Button
+              onPress={handleStart}
+              disabled={busy || room.players.length < 2}
+              style={styles.fullWidth}
+            >
+              {room.players.length < 2 ? "Waiting for Players" : "Start Game"}
+            </Button>
+          ) : (
+            <View style={styles.waiting}>
+              <ActivityIndicator color={GameModeColors.classic} />
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                Waiting for the host to start
+              </ThemedText>
+            </View>
+          )}
+          {!finished ? (
+            <Pressable
+              onPress={handleLeave}
+              style={({ pressed }) => [
+                styles.link,
+                { opacity: pressed ? 0.6 : 1 },
+              ]}
+            >
+              <ThemedText type="link">Leave Room</ThemedText>
+            </Pressable>
+          ) : null}
+        </KeyboardAwareScrollViewCompat>
+      </ThemedView>
+    );
+  }
+
+  const done = room.you.outcome !== null;
+
+  return (
+    <ThemedView style={styles.container}>
+      <View
+        style={[styles.gameArea, { paddingTop: headerHeight + Spacing.lg }]}
+      >
+        <Card elevation={1} style={styles.playersCard}>
+          <View style={styles.levelHeader}>
+            {levelSummary}
+            {room.you.timeRemaining !== null ? (
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {room.you.timeRemaining}s left
+              </ThemedText>
+            ) : null}
+          </View>
+          {playerList}
+        </Card>
+
+        <View style={styles.guesses}>
+          {room.you.guesses.map((guess) => (
+            <GuessChip key={guess.guess} guess={guess} />
+          ))}
+        </View>
+
+        <View style={styles.inputDisplay}>
+          {done ? (
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              {room.you.outcome === "won"
+                ? "Solved. Waiting for the others to finish..."
+                : "Out of tries. Waiting for the others to finish..."}
+            </ThemedText>
+          ) : (
+            <ThemedText
+              style={[
+                styles.inputText,
+                { color: inputValue ? theme.text : theme.textDisabled },
+              ]}
+            >
+              {inputValue || "?"}
+            </ThemedText>
+          )}
+          {errorText}
+        </View>
+      </View>
+
+      <View
+        style={[
+          styles.numpadContainer,
+          { paddingBottom: insets.bottom + Spacing.lg },
+        ]}
+      >
+        <NumberPad
+          onPress={(num) =>
+            setInputValue((prev) => (prev.length < 4 ? prev + num : prev))
+          }
+          onDelete={() => setInputValue((prev) => prev.slice(0, -1))}
+          onSubmit={handleSubmit}
+          disabled={busy || done}
+        />
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+  },
+  modeToggle: {
+    flexDirection: "row",
+    borderRadius: BorderRadius.full,
+    padding: Spacing.xs,
+    marginBottom: Spacing.xl,
+  },
+  modeOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  formCard: {
+    marginBottom: Spacing.xl,
+  },
+  fieldLabel: {
+    marginBottom: Spacing.sm,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  field: {
+    flex: 1,
+  },
+  textInput: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+    borderWidth: 1,
+    marginBottom: Spacing.lg,
+  },
+  codeInput: {
+    fontFamily: Fonts?.mono,
+    fontSize: 24,
+    letterSpacing: 6,
+    textAlign: "center",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  error: {
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  fullWidth: {
+    width: "100%",
+  },
+  codeCard: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  roomCode: {
+    fontSize: 40,
+    lineHeight: 48,
+    fontWeight: "700",
+    fontFamily: Fonts?.mono,
+    letterSpacing: 8,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  playersCard: {
+    gap: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  playerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  playerBadge: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  playerInfo: {
+    flex: 1,
+  },
+  waiting: {
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  link: {
+    padding: Spacing.sm,
+    alignItems: "center",
+    marginTop: Spacing.md,
+  },
+  gameArea: {
+    flex: 1,
+    paddingHorizontal: Spacing.xl,
+  },
+  levelHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  guesses: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: Spacing.sm,
+  },
+  guessChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.md,
+  },
+  inputDisplay: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  inputText: {
+    fontSize: 72,
+    fontWeight: "700",
+    fontFamily: Fonts?.mono,
+    letterSpacing: 4,
+  },
+  numpadContainer: {
+    paddingHorizontal: Spacing.xl,
+  },
+});
@@ -12,6 +12,7 @@ import {
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Feather } from "@expo/vector-icons";
 import Animated, { FadeInUp } from "react-native-reanimated";
 import * as Haptics from "expo-haptics";
@@ -28,6 +29,15 @@ import {
 } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useGame } from "@/lib/game-context";
+import { useAuth } from "@/hooks/useAuth";
+import { shareProgressExport } from "@/lib/progress-file";
+import {
+  DIFFICULTY_PRESETS,
+  DIFFICULTY_PRESET_ORDER,
+} from "@/lib/flow-controller";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, "Settings">;
 
 const AVATARS = [
   { id: 0, icon: "cpu", color: GameModeColors.classic },
@@ -65,14 +75,23 @@ function SettingRow({
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
-  const navigation = useNavigation();
+  const navigation = useNavigation<NavigationProp>();
   const { theme } = useTheme();
-  const { profile, updateProfile, resetProgress, playerStats } = useGame();
+  const { profile, updateProfile, resetProgress, playerStats, exportProgress } =
+    useGame();
+  const { user } = useAuth();
 
   const [displayName, setDisplayName] = useState(profile.displayName);
   const [soundEnabled, setSoundEnabled] = useState(profile.soundEnabled);
   const [hapticsEnabled, setHapticsEnabled] = useState(profile.hapticsEnabled);
+  const [hidePossibleOnHard, setHidePossibleOnHard] = useState(
+    profile.hidePossibleOnHard,
+  );
   const [selectedAvatar, setSelectedAvatar] = useState(profile.avatarId);
+  const [difficultyPreset, setDifficultyPreset] = useState(
+    profile.difficultyPreset,
+  );
+  const [exportDownloaded, setExportDownloaded] = useState(false);
 
   const handleSave = () => {
     updateProfile({
@@ -80,6 +99,8 @@ export default function SettingsScreen() {
       avatarId: selectedAvatar,
       soundEnabled,
       hapticsEnabled,
+      hidePossibleOnHard,
+      difficultyPreset,
     });
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     navigation.goBack();
@@ -88,7 +109,7 @@ export default function SettingsScreen() {
   const handleReset = () => {
     Alert.alert(
       "Reset Progress",
-      "This will delete all your game data including stats, level progress, and achievements. This action cannot be undone.",
+      "This will delete all your game data including stats, level progress, and achievements. This device is also unlinked from your account, so its saved progress is not merged back. This action cannot be undone.",
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -104,6 +125,15 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleExport = async () => {
+    try {
+      const outcome = await shareProgressExport(exportProgress());
+      setExportDownloaded(outcome === "downloaded");
+    } catch (error) {
+      console.error("Failed to export progress", error);
+    }
+  };
+
   const handleAvatarSelect = (id: number) => {
     setSelectedAvatar(id);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -182,6 +212,115 @@ export default function SettingsScreen() {
           </Card>
         </Animated.View>
 
+        <Animated.View entering={FadeInUp.delay(50).duration(300)}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Account
+          </ThemedText>
+          <Card elevation={1} style={styles.preferencesCard}>
+            <Pressable
+              onPress={() => navigation.navigate("Account")}
+              style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+            >
+              <SettingRow
+                icon="user"
+                label={user ? user.username : "Sign in or create account"}
+              >
+                <Feather
+                  name="chevron-right"
+                  size={20}
+                  color={theme.textSecondary}
+                />
+              </SettingRow>
+            </Pressable>
+          </Card>
+        </Animated.View>
+
+        <Animated.View entering={FadeInUp.delay(75).duration(300)}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Data
+          </ThemedText>
+          <Card elevation={1} style={styles.preferencesCard}>
+            <Pressable
+              onPress={handleExport}
+              style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+            >
+              <SettingRow icon="upload" label="Export Progress">
+                {exportDownloaded ? (
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    Downloaded
+                  </ThemedText>
+                ) : (
+                  <Feather
+                    name="chevron-right"
+                    size={20}
+                    color={theme.textSecondary}
+                  />
+                )}
+              </SettingRow>
+            </Pressable>
+            <Pressable
+              onPress={() => navigation.navigate("ImportProgress")}
+              style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+            >
+              <SettingRow icon="download" label="Import Progress">
+                <Feather
+                  name="chevron-right"
+                  size={20}
+                  color={theme.textSecondary}
+                />
+              </SettingRow>
+            </Pressable>
+          </Card>
+        </Animated.View>
+
+        <Animated.View entering={FadeInUp.delay(90).duration(300)}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Difficulty
+          </ThemedText>
+          <Card elevation={1} style={styles.profileCard}>
+            <View style={styles.presetRow}>
+              {DIFFICULTY_PRESET_ORDER.map((preset) => {
+                const selected = preset === difficultyPreset;
+                return (
+                  <Pressable
+                    key={preset}
+                    onPress={() => setDifficultyPreset(preset)}
+                    style={[
+                      styles.presetChip,
+                      {
+                        backgroundColor: selected
+                          ? GameModeColors.classic + "30"
+                          : theme.backgroundSecondary,
+                        borderColor: selected
+                          ? GameModeColors.classic
+                          : "transparent",
+                      },
+                    ]}
+                  >
+                    <ThemedText
+                      type="small"
+                      style={{
+                        color: selected
+                          ? GameModeColors.classic
+                          : theme.textSecondary,
+                      }}
+                    >
+                      {DIFFICULTY_PRESETS[preset].name}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {DIFFICULTY_PRESETS[difficultyPreset].description}. Applies to
+              campaign levels from the next one on.
+            </ThemedText>
+          </Card>
+        </Animated.View>
+
         <Animated.View entering={FadeInUp.delay(100).duration(300)}>
           <ThemedText type="h4" style={styles.sectionTitle}>
             Preferences
@@ -209,6 +348,20 @@ export default function SettingsScreen() {
                 thumbColor={theme.text}
               />
             </SettingRow>
+            <SettingRow
+              icon="eye-off"
+              label="Hide Possible Numbers on Hard Levels"
+            >
+              <Switch
+                value={hidePossibleOnHard}
+                onValueChange={setHidePossibleOnHard}
+                trackColor={{
+                  false: theme.backgroundTertiary,
+                  true: GameModeColors.classic,
+                }}
+                thumbColor={theme.text}
+              />
+            </SettingRow>
           </Card>
         </Animated.View>
 
@@ -316,6 +469,18 @@ const styles = StyleSheet.create({
     fontSize: 16,
     borderWidth: 1,
   },
+  presetRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  presetChip: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
   preferencesCard: {
     marginBottom: Spacing.xl,
     padding: 0,
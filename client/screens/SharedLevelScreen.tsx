@@ -0,0 +1,184 @@
+import React, { useMemo } from "react";
+import { View, StyleSheet, ScrollView } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeInUp } from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { Card } from "@/components/Card";
+import { Spacing, GameModeColors, SemanticColors } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useGame } from "@/lib/game-context";
+import { getHintStyleDescription, getHintStyleName } from "@/lib/hint-styles";
+import { getDifficultyTier, getModeIcon } from "@/lib/level-generator";
+import { decodeLevelCode } from "@/lib/share-code";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "SharedLevel"
+>;
+type SharedLevelRouteProp = RouteProp<RootStackParamList, "SharedLevel">;
+
+const TIER_NAMES = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+  expert: "Expert",
+};
+
+export default function SharedLevelScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<SharedLevelRouteProp>();
+  const { theme } = useTheme();
+  const { startCustomGame } = useGame();
+
+  const level = useMemo(
+    () => decodeLevelCode(route.params.code),
+    [route.params.code],
+  );
+
+  const handlePlay = () => {
+    if (!level) return;
+    startCustomGame(level);
+    // Finishing goes back, which should land on the menu rather than here
+    navigation.replace("Game");
+  };
+
+  const renderDetail = (label: string, value: string) => (
+    <View style={[styles.detailRow, { borderBottomColor: theme.border }]}>
+      <ThemedText type="body" style={{ color: theme.textSecondary }}>
+        {label}
+      </ThemedText>
+      <ThemedText type="body">{value}</ThemedText>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        {level ? (
+          <Animated.View entering={FadeInUp.duration(300)}>
+            <View style={styles.heading}>
+              <Feather
+                name={getModeIcon(level.gameMode) as any}
+                size={32}
+                color={GameModeColors[level.gameMode]}
+              />
+              <ThemedText type="h3" style={styles.title}>
+                {getHintStyleName(level.hintStyle)}
+              </ThemedText>
+              <ThemedText
+                type="small"
+                style={[styles.centered, { color: theme.textSecondary }]}
+              >
+                {getHintStyleDescription(level.hintStyle)}
+              </ThemedText>
+            </View>
+
+            <Card elevation={1} style={styles.detailsCard}>
+              {renderDetail("Range", `${level.rangeMin} to ${level.rangeMax}`)}
+              {renderDetail("Attempts", `${level.maxAttempts}`)}
+              {renderDetail(
+                "Time Limit",
+                level.timeLimit !== null ? `${level.timeLimit}s` : "None",
+              )}
+              {renderDetail(
+                "Difficulty",
+                TIER_NAMES[getDifficultyTier(level.difficultyScore)],
+              )}
+            </Card>
+
+            <Button onPress={handlePlay} style={styles.fullWidth}>
+              Play Level
+            </Button>
+            <ThemedText
+              type="small"
+              style={[styles.footnote, { color: theme.textSecondary }]}
+            >
+              Shared levels are saved with your custom games and do not change
+              your skill rating or campaign stats.
+            </ThemedText>
+          </Animated.View>
+        ) : (
+          <Animated.View
+            entering={FadeInUp.duration(300)}
+            style={styles.heading}
+          >
+            <Feather name="link-2" size={32} color={SemanticColors.error} />
+            <ThemedText type="h3" style={styles.title}>
+              Level Not Found
+            </ThemedText>
+            <ThemedText
+              type="body"
+              style={[styles.centered, { color: theme.textSecondary }]}
+            >
+              This level code is not valid. It may have been cut short, or it
+              came from a newer version of the app.
+            </ThemedText>
+            <Button
+              onPress={() => navigation.navigate("MainMenu")}
+              style={[styles.fullWidth, styles.menuButton]}
+            >
+              Main Menu
+            </Button>
+          </Animated.View>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+  },
+  heading: {
+    alignItems: "center",
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  centered: {
+    textAlign: "center",
+  },
+  detailsCard: {
+    marginBottom: Spacing.xl,
+  },
+  detailRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  fullWidth: {
+    width: "100%",
+  },
+  menuButton: {
+    marginTop: Spacing.xl,
+  },
+  footnote: {
+    textAlign: "center",
+    marginTop: Spacing.md,
+  },
+});
@@ -1,19 +1,28 @@
-import React from "react";
-import { View, StyleSheet, ScrollView } from "react-native";
+import React, { useMemo } from "react";
+import { View, StyleSheet, ScrollView, Pressable } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Feather } from "@expo/vector-icons";
 import Animated, { FadeInUp } from "react-native-reanimated";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Card } from "@/components/Card";
-import { Spacing, BorderRadius, GameModeColors } from "@/constants/theme";
+import { Spacing, GameModeColors, SemanticColors } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useGame } from "@/lib/game-context";
 import { getSkillLevelName } from "@/lib/skill-model";
-import { getModeIcon } from "@/lib/level-generator";
-import { GameMode } from "@/lib/types";
+import { getModeIcon, getModeName } from "@/lib/level-generator";
+import { analyzeLevel, LevelAnalysis, summarizeAnalyses } from "@/lib/solver";
+import { GameMode, LevelResult } from "@/lib/types";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, "Stats">;
+
+const RECENT_GAMES_COUNT = 10;
+const ANALYZED_GAMES_COUNT = 20;
 
 function StatCard({
   icon,
@@ -52,18 +61,12 @@ function StatCard({
 
 function ModeStatRow({ mode }: { mode: GameMode }) {
   const { theme } = useTheme();
-  const { playerStats } = useGame();
+  const { playerStats, ratings } = useGame();
   const stats = playerStats.modeStats[mode];
+  const rating = ratings.modes[mode];
   const color = GameModeColors[mode];
   const icon = getModeIcon(mode);
 
-  const modeNames: Record<GameMode, string> = {
-    classic: "Classic",
-    depth: "Depth",
-    strategic: "Strategic",
-    tactical: "Tactical",
-  };
-
   const winRate = stats.gamesPlayed > 0
     ? Math.round((stats.wins / stats.gamesPlayed) * 100)
     : 0;
@@ -74,7 +77,7 @@ function ModeStatRow({ mode }: { mode: GameMode }) {
         <View style={[styles.modeIcon, { backgroundColor: color + "20" }]}>
           <Feather name={icon as any} size={18} color={color} />
         </View>
-        <ThemedText type="body">{modeNames[mode]}</ThemedText>
+        <ThemedText type="body">{getModeName(mode)}</ThemedText>
       </View>
       <View style={styles.modeStats}>
         <View style={styles.modeStat}>
@@ -101,6 +104,14 @@ function ModeStatRow({ mode }: { mode: GameMode }) {
             Avg
           </ThemedText>
         </View>
+        <View style={styles.modeStat}>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {rating.matches > 0 ? Math.round(rating.rating) : "-"}
+          </ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            Rating
+          </ThemedText>
+        </View>
       </View>
     </View>
   );
@@ -148,11 +159,79 @@ function AccuracyGraph() {
   );
 }
 
+function RecentGameRow({
+  result,
+  analysis,
+  isLast,
+  onPress,
+}: {
+  result: LevelResult;
+  analysis: LevelAnalysis | null;
+  isLast: boolean;
+  onPress: () => void;
+}) {
+  const { theme } = useTheme();
+  const color = GameModeColors[result.gameMode];
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.modeRow,
+        {
+          borderBottomColor: theme.border,
+          borderBottomWidth: isLast ? 0 : 1,
+          opacity: pressed ? 0.7 : 1,
+        },
+      ]}
+    >
+      <View style={styles.modeInfo}>
+        <View style={[styles.modeIcon, { backgroundColor: color + "20" }]}>
+          <Feather
+            name={getModeIcon(result.gameMode) as any}
+            size={18}
+            color={color}
+          />
+        </View>
+        <View>
+          <ThemedText type="body">Level {result.levelNumber}</ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {getModeName(result.gameMode)} - {result.attemptsUsed}/
+            {result.maxAttempts} attempts
+            {analysis
+              ? ` - ${Math.round(analysis.efficiency * 100)}% quality`
+              : ""}
+          </ThemedText>
+        </View>
+      </View>
+      <View style={styles.recentResult}>
+        <Feather
+          name={result.won ? "check" : "x"}
+          size={18}
+          color={result.won ? SemanticColors.success : SemanticColors.error}
+        />
+        <Feather name="play-circle" size={20} color={theme.textSecondary} />
+      </View>
+    </Pressable>
+  );
+}
+
 export default function StatsScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
+  const navigation = useNavigation<NavigationProp>();
   const { theme } = useTheme();
-  const { playerStats, skillMetrics } = useGame();
+  const { playerStats, skillMetrics, levelHistory, ratings } = useGame();
+
+  // Newest first; the solver is costly enough to keep out of every render
+  const analyses = useMemo(
+    () => levelHistory.slice(-ANALYZED_GAMES_COUNT).reverse().map(analyzeLevel),
+    [levelHistory],
+  );
+  const recentGames = levelHistory.slice(-RECENT_GAMES_COUNT).reverse();
+  const guessSummary = summarizeAnalyses(
+    analyses.filter((a): a is LevelAnalysis => a !== null),
+  );
 
   const winRate =
     playerStats.totalGames > 0
@@ -264,6 +343,54 @@ export default function StatsScreen() {
           </Card>
         </Animated.View>
 
+        {guessSummary.games > 0 ? (
+          <Animated.View entering={FadeInUp.delay(425).duration(300)}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Guess Quality
+            </ThemedText>
+            <Card elevation={1} style={styles.analysisCard}>
+              <View style={styles.metricRow}>
+                <ThemedText type="body">Compared to Optimal</ThemedText>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {Math.round(guessSummary.efficiency * 100)}%
+                </ThemedText>
+              </View>
+              <View style={styles.metricRow}>
+                <ThemedText type="body">Bits per Guess</ThemedText>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {guessSummary.bitsPerGuess.toFixed(2)}
+                </ThemedText>
+              </View>
+              <ThemedText
+                type="small"
+                style={[styles.analysisNote, { color: theme.textSecondary }]}
+              >
+                Each bit halves the numbers that could still be the answer.
+                Based on your last {guessSummary.games} games.
+              </ThemedText>
+            </Card>
+          </Animated.View>
+        ) : null}
+
+        {recentGames.length > 0 ? (
+          <Animated.View entering={FadeInUp.delay(450).duration(300)}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Recent Games
+            </ThemedText>
+            <Card elevation={1} style={styles.modesCard}>
+              {recentGames.map((result, idx) => (
+                <RecentGameRow
+                  key={result.completedAt}
+                  result={result}
+                  analysis={analyses[idx]}
+                  isLast={idx === recentGames.length - 1}
+                  onPress={() => navigation.navigate("Replay", { result })}
+                />
+              ))}
+            </Card>
+          </Animated.View>
+        ) : null}
+
         <Animated.View
           entering={FadeInUp.delay(500).duration(300)}
           style={styles.metricsSection}
@@ -272,6 +399,13 @@ export default function StatsScreen() {
             Performance Metrics
           </ThemedText>
           <Card elevation={1}>
+            <View style={styles.metricRow}>
+              <ThemedText type="body">Rating</ThemedText>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {Math.round(ratings.overall.rating)} ±{" "}
+                {Math.round(ratings.overall.deviation)}
+              </ThemedText>
+            </View>
             <View style={styles.metricRow}>
               <ThemedText type="body">Success Rate</ThemedText>
               <ThemedText type="body" style={{ fontWeight: "600" }}>
@@ -396,6 +530,12 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  analysisCard: {
+    marginBottom: Spacing.xl,
+  },
+  analysisNote: {
+    marginTop: Spacing.md,
+  },
   modesCard: {
     marginBottom: Spacing.xl,
     padding: 0,
@@ -422,12 +562,17 @@ const styles = StyleSheet.create({
   },
   modeStats: {
     flexDirection: "row",
-    gap: Spacing.xl,
+    gap: Spacing.lg,
   },
   modeStat: {
     alignItems: "center",
     minWidth: 40,
   },
+  recentResult: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
   metricsSection: {
     marginBottom: Spacing.xl,
   },
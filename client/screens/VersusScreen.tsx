@@ -0,0 +1,513 @@
+import React, { useEffect, useReducer, useState } from "react";
+import { View, StyleSheet, Pressable, ScrollView } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeIn, FadeInUp } from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { Card } from "@/components/Card";
+import { NumberPad } from "@/components/NumberPad";
+import {
+  Spacing,
+  BorderRadius,
+  GameModeColors,
+  SemanticColors,
+  Fonts,
+} from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useGame } from "@/lib/game-context";
+import {
+  BOT_STRENGTHS,
+  BotStrength,
+  VersusWinner,
+  decideVersus,
+  getBotStrengthForSkill,
+  getBotStrengthName,
+  getRevealedGuesses,
+  getVersusEntry,
+  playBotRound,
+} from "@/lib/bot";
+import {
+  createIdleState,
+  getGuessError,
+  getTimeRemaining,
+  reduceGame,
+} from "@/lib/game-engine";
+import { generateLevel, getModeName } from "@/lib/level-generator";
+import { GameState, GuessResult } from "@/lib/types";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, "Versus">;
+
+type StrengthChoice = BotStrength | "auto";
+
+const TICK_INTERVAL = 250;
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function FeedbackIcon({ guess }: { guess: GuessResult }) {
+  if (guess.feedback === "correct") {
+    return <Feather name="check" size={14} color={SemanticColors.success} />;
+  }
+  return (
+    <Feather
+      name={guess.feedback === "higher" ? "arrow-up" : "arrow-down"}
+      size={14}
+      color={
+        guess.feedback === "higher"
+          ? GameModeColors.tactical
+          : GameModeColors.classic
+      }
+    />
+  );
+}
+
+// The bot's numbers stay hidden: they would give its hints away
+function CompetitorRow({
+  icon,
+  name,
+  guesses,
+  maxAttempts,
+  status,
+  showNumbers,
+}: {
+  icon: string;
+  name: string;
+  guesses: GuessResult[];
+  maxAttempts: number;
+  status: string;
+  showNumbers: boolean;
+}) {
+  const { theme } = useTheme();
+
+  return (
+    <View style={styles.competitorRow}>
+      <View
+        style={[
+          styles.competitorIcon,
+          { backgroundColor: theme.backgroundSecondary },
+        ]}
+      >
+        <Feather name={icon as any} size={18} color={theme.text} />
+      </View>
+      <View style={styles.competitorInfo}>
+        <View style={styles.competitorHeader}>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {name}
+          </ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {guesses.length}/{maxAttempts} - {status}
+          </ThemedText>
+        </View>
+        <View style={styles.competitorGuesses}>
+          {guesses.map((guess, index) => (
+            <Animated.View
+              key={`${index}-${guess.guess}`}
+              entering={FadeIn.duration(200)}
+              style={[
+                styles.guessChip,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              {showNumbers ? (
+                <ThemedText type="small" style={{ fontFamily: Fonts?.mono }}>
+                  {guess.guess}
+                </ThemedText>
+              ) : null}
+              <FeedbackIcon guess={guess} />
+            </Animated.View>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function getStatus(state: GameState, revealedAll: boolean): string {
+  if (!revealedAll || state.outcome === null) return "Guessing";
+  return state.outcome === "won" ? "Found it" : "Out of tries";
+}
+
+export default function VersusScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const navigation = useNavigation<NavigationProp>();
+  const { theme } = useTheme();
+  const { currentLevelNumber, skillMetrics } = useGame();
+
+  const autoStrength = getBotStrengthForSkill(skillMetrics.skillLevel);
+  const [choice, setChoice] = useState<StrengthChoice>("auto");
+  const [player, dispatch] = useReducer(reduceGame, undefined, createIdleState);
+  const [bot, setBot] = useState<GameState | null>(null);
+  const [strength, setStrength] = useState<BotStrength>(autoStrength);
+  const [inputValue, setInputValue] = useState("");
+  const [now, setNow] = useState(Date.now());
+  const [tally, setTally] = useState({ player: 0, bot: 0, draw: 0 });
+  const [winner, setWinner] = useState<VersusWinner | null>(null);
+
+  const level = player.currentLevel;
+  const isRunning = level !== null && player.outcome === null;
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      dispatch({ type: "tick", now: time });
+    }, TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  // The bot's round is already decided, so the match ends with the player's
+  useEffect(() => {
+    if (!bot || player.outcome === null || winner !== null) return;
+    const result = decideVersus(getVersusEntry(player), getVersusEntry(bot));
+    setWinner(result);
+    setTally((prev) => ({ ...prev, [result]: prev[result] + 1 }));
+    Haptics.notificationAsync(
+      result === "player"
+        ? Haptics.NotificationFeedbackType.Success
+        : Haptics.NotificationFeedbackType.Warning,
+    );
+  }, [bot, player, winner]);
+
+  const handleStart = () => {
+    const nextLevel = generateLevel(currentLevelNumber, skillMetrics);
+    const nextStrength = choice === "auto" ? autoStrength : choice;
+    const time = Date.now();
+    setStrength(nextStrength);
+    setBot(playBotRound(nextLevel, nextStrength, nextLevel.seed + 1));
+    setWinner(null);
+    setInputValue("");
+    setNow(time);
+    dispatch({ type: "start", level: nextLevel, now: time });
+  };
+
+  const handleNumberPress = (num: string) => {
+    if (inputValue.length < 4) {
+      setInputValue((prev) => prev + num);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!inputValue) return;
+    const guess = parseInt(inputValue, 10);
+    if (getGuessError(player, guess) !== null) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setInputValue("");
+      return;
+    }
+    const time = Date.now();
+    setNow(time);
+    dispatch({ type: "guess", guess, now: time });
+    setInputValue("");
+  };
+
+  if (!level || !bot) {
+    return (
+      <ThemedView style={styles.container}>
+        <ScrollView
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: headerHeight + Spacing.xl,
+              paddingBottom: insets.bottom + Spacing.xl,
+            },
+          ]}
+        >
+          <Animated.View entering={FadeInUp.duration(300)}>
+            <Card elevation={1} style={styles.setupCard}>
+              <ThemedText type="h4">Race the Bot</ThemedText>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                You and the bot get the same level. Whoever finds the number in
+                fewer guesses wins, and time breaks a tie. Versus rounds do not
+                count toward your campaign.
+              </ThemedText>
+            </Card>
+          </Animated.View>
+
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Bot Strength
+          </ThemedText>
+          <View style={styles.strengthRow}>
+            {(["auto", ...BOT_STRENGTHS] as StrengthChoice[]).map((option) => {
+              const selected = choice === option;
+              return (
+                <Pressable
+                  key={option}
+                  onPress={() => setChoice(option)}
+                  style={[
+                    styles.strengthChip,
+                    {
+                      backgroundColor: selected
+                        ? GameModeColors.classic + "30"
+                        : theme.backgroundSecondary,
+                      borderColor: selected
+                        ? GameModeColors.classic
+                        : "transparent",
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="small"
+                    style={{
+                      color: selected
+                        ? GameModeColors.classic
+                        : theme.textSecondary,
+                    }}
+                  >
+                    {option === "auto" ? "Auto" : getBotStrengthName(option)}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+          {choice === "auto" ? (
+            <ThemedText
+              type="small"
+              style={[styles.strengthNote, { color: theme.textSecondary }]}
+            >
+              Matched to your skill: {getBotStrengthName(autoStrength)}
+            </ThemedText>
+          ) : null}
+
+          <Button onPress={handleStart} style={styles.startButton}>
+            Start Match
+          </Button>
+        </ScrollView>
+      </ThemedView>
+    );
+  }
+
+  const finished = player.outcome !== null;
+  const elapsedMs = finished
+    ? getVersusEntry(player).timeMs
+    : now - (player.startTime ?? now);
+  const botGuesses = finished
+    ? bot.currentGuesses
+    : getRevealedGuesses(bot, elapsedMs);
+  const botRevealedAll = botGuesses.length === bot.currentGuesses.length;
+  const timeRemaining = getTimeRemaining(player);
+  const modeColor = GameModeColors[level.gameMode];
+
+  return (
+    <ThemedView style={styles.container}>
+      <View
+        style={[styles.gameArea, { paddingTop: headerHeight + Spacing.lg }]}
+      >
+        <Card elevation={1} style={styles.matchCard}>
+          <View style={styles.matchHeader}>
+            <ThemedText type="small" style={{ color: modeColor }}>
+              {getModeName(level.gameMode)} - {level.rangeMin} to{" "}
+              {level.rangeMax}
+            </ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {timeRemaining !== null
+                ? `${timeRemaining}s left`
+                : formatSeconds(elapsedMs)}
+            </ThemedText>
+          </View>
+          <CompetitorRow
+            icon="user"
+            name="You"
+            guesses={player.currentGuesses}
+            maxAttempts={level.maxAttempts}
+            status={getStatus(player, true)}
+            showNumbers
+          />
+          <CompetitorRow
+            icon="cpu"
+            name={`${getBotStrengthName(strength)} Bot`}
+            guesses={botGuesses}
+            maxAttempts={level.maxAttempts}
+            status={getStatus(bot, botRevealedAll)}
+            showNumbers={finished}
+          />
+        </Card>
+
+        {finished && winner ? (
+          <Animated.View entering={FadeInUp.duration(300)}>
+            <Card elevation={1} style={styles.resultCard}>
+              <ThemedText type="h3" style={styles.resultTitle}>
+                {winner === "player"
+                  ? "You Win"
+                  : winner === "bot"
+                    ? "The Bot Wins"
+                    : "Draw"}
+              </ThemedText>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                The number was {level.targetNumber}
+              </ThemedText>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                You {getVersusEntry(player).attempts} guesses in{" "}
+                {formatSeconds(getVersusEntry(player).timeMs)}, bot{" "}
+                {getVersusEntry(bot).attempts} in{" "}
+                {formatSeconds(getVersusEntry(bot).timeMs)}
+              </ThemedText>
+              <ThemedText
+                type="small"
+                style={[styles.tally, { color: theme.textSecondary }]}
+              >
+                This session: {tally.player} won, {tally.bot} lost, {tally.draw}{" "}
+                drawn
+              </ThemedText>
+              <Button onPress={handleStart} style={styles.startButton}>
+                Rematch
+              </Button>
+              <Pressable
+                onPress={() => navigation.goBack()}
+                style={({ pressed }) => [
+                  styles.menuLink,
+                  { opacity: pressed ? 0.6 : 1 },
+                ]}
+              >
+                <ThemedText type="link">Back to Menu</ThemedText>
+              </Pressable>
+            </Card>
+          </Animated.View>
+        ) : (
+          <View style={styles.inputDisplay}>
+            <ThemedText
+              style={[
+                styles.inputText,
+                { color: inputValue ? theme.text : theme.textDisabled },
+              ]}
+            >
+              {inputValue || "?"}
+            </ThemedText>
+          </View>
+        )}
+      </View>
+
+      {!finished ? (
+        <View
+          style={[
+            styles.numpadContainer,
+            { paddingBottom: insets.bottom + Spacing.lg },
+          ]}
+        >
+          <NumberPad
+            onPress={handleNumberPress}
+            onDelete={() => setInputValue((prev) => prev.slice(0, -1))}
+            onSubmit={handleSubmit}
+            disabled={!isRunning}
+          />
+        </View>
+      ) : null}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+  },
+  setupCard: {
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  strengthRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  strengthChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  strengthNote: {
+    marginTop: Spacing.sm,
+  },
+  startButton: {
+    marginTop: Spacing.xl,
+  },
+  gameArea: {
+    flex: 1,
+    paddingHorizontal: Spacing.xl,
+  },
+  matchCard: {
+    gap: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  matchHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  competitorRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  competitorIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  competitorInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  competitorHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  competitorGuesses: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    minHeight: 24,
+  },
+  guessChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+  },
+  inputDisplay: {
+    alignItems: "center",
+    justifyContent: "center",
+    flex: 1,
+  },
+  inputText: {
+    fontSize: 72,
+    fontWeight: "700",
+    fontFamily: Fonts?.mono,
+    letterSpacing: 4,
+  },
+  resultCard: {
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  resultTitle: {
+    marginBottom: Spacing.xs,
+  },
+  tally: {
+    marginTop: Spacing.sm,
+  },
+  menuLink: {
+    padding: Spacing.sm,
+  },
+  numpadContainer: {
+    paddingHorizontal: Spacing.xl,
+  },
+});
@@ -0,0 +1,125 @@
+import { DIFFICULTY_PRESET_ORDER } from "../client/lib/flow-controller";
+import {
+  buildSimulationReport,
+  formatSimulationReport,
+  SIMULATION_AGENTS,
+  simulateCampaign,
+  SimulationAgent,
+  SimulationOptions,
+} from "../client/lib/simulation";
+import { DifficultyPreset } from "../client/lib/types";
+
+// Plays simulated players through the campaign and prints how levels and
+// outcomes change with level number. Run with `npm run simulate`, adding
+// flags after `--`, for example:
+//
+//   npm run simulate -- --agent noisy --error 0.2 --players 100 --levels 50
+
+const USAGE = `Usage: simulate [options]
+  --agent <name>     ${SIMULATION_AGENTS.join(", ")} or all (default all)
+  --error <rate>     Share of the noisy agent's guesses that are slips (default 0.1)
+  --players <n>      Players per agent (default 50)
+  --levels <n>       Highest level each player tries to clear (default 100)
+  --preset <name>    ${DIFFICULTY_PRESET_ORDER.join(", ")} or off (default balanced)
+  --bucket <n>       Levels per report row (default 10)
+  --seed <n>         Seed for the whole run (default 1)`;
+
+function exitWithError(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parsePositive(flag: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    exitWithError(`${flag} takes a positive whole number, not "${value}"`);
+  }
+  return parsed;
+}
+
+function parseArgs(args: string[]) {
+  let agents: SimulationAgent[] = SIMULATION_AGENTS;
+  let errorRate = 0.1;
+  let players = 50;
+  let levels = 100;
+  let preset: DifficultyPreset | null = "balanced";
+  let bucket = 10;
+  let seed = 1;
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === "--help" || flag === "-h") {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    const value = args[++i];
+    if (value === undefined) exitWithError(`${flag} needs a value`);
+
+    switch (flag) {
+      case "--agent":
+        if (value === "all") {
+          agents = SIMULATION_AGENTS;
+        } else if (SIMULATION_AGENTS.includes(value as SimulationAgent)) {
+          agents = [value as SimulationAgent];
+        } else {
+          exitWithError(`Unknown agent "${value}"`);
+        }
+        break;
+      case "--error":
+        errorRate = Number(value);
+        if (!(errorRate >= 0 && errorRate <= 1)) {
+          exitWithError(`--error takes a rate from 0 to 1, not "${value}"`);
+        }
+        break;
+      case "--players":
+        players = parsePositive(flag, value);
+        break;
+      case "--levels":
+        levels = parsePositive(flag, value);
+        break;
+      case "--preset":
+        if (value === "off") {
+          preset = null;
+        } else if (
+          DIFFICULTY_PRESET_ORDER.includes(value as DifficultyPreset)
+        ) {
+          preset = value as DifficultyPreset;
+        } else {
+          exitWithError(`Unknown preset "${value}"`);
+        }
+        break;
+      case "--bucket":
+        bucket = parsePositive(flag, value);
+        break;
+      case "--seed":
+        seed = parsePositive(flag, value);
+        break;
+      default:
+        exitWithError(`Unknown option "${flag}"`);
+    }
+  }
+
+  return { agents, errorRate, players, levels, preset, bucket, seed };
+}
+
+function main() {
+  const { agents, bucket, ...settings } = parseArgs(process.argv.slice(2));
+
+  const reports = agents.map((agent) => {
+    const options: SimulationOptions = { ...settings, agent };
+    const rounds = simulateCampaign(options);
+    return formatSimulationReport(
+      options,
+      buildSimulationReport(rounds, bucket),
+    );
+  });
+
+  console.log(reports.join("\n\n"));
+  console.log(
+    "\nrange, tries and bisect are averages: the level's size, its attempts " +
+      "and the guesses plain bisection needs at worst. short is the share of " +
+      "rounds with fewer attempts than that.",
+  );
+}
+
+main();
@@ -0,0 +1,129 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import {
+  createHash,
+  randomBytes,
+  scrypt as scryptCallback,
+  timingSafeEqual,
+} from "crypto";
+import { promisify } from "util";
+import type { User } from "@shared/schema";
+import type { AccountUser } from "../client/lib/types";
+import { storage } from "./storage";
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const SESSION_COOKIE = "nm_session";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const KEY_LENGTH = 64;
+
+declare module "http" {
+  interface IncomingMessage {
+    authUser?: AccountUser;
+    authSessionId?: string;
+  }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scrypt(
+    password,
+    Buffer.from(saltHex, "hex"),
+    expected.length,
+  );
+  return timingSafeEqual(expected, actual);
+}
+
+export function toAccountUser(user: User): AccountUser {
+  return { id: user.id, username: user.username };
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return undefined;
+}
+
+export async function startAuthSession(res: Response, user: User) {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await storage.createAuthSession({
+    id: hashToken(token),
+    userId: user.id,
+    expiresAt,
+  });
+
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    expires: expiresAt,
+    path: "/",
+  });
+}
+
+export async function endAuthSession(req: Request, res: Response) {
+  if (req.authSessionId) {
+    await storage.deleteAuthSession(req.authSessionId);
+  }
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+}
+
+export function setupAuth(app: Express) {
+  app.use(async (req: Request, _res: Response, next: NextFunction) => {
+    const token = readCookie(req, SESSION_COOKIE);
+    if (!token) return next();
+
+    try {
+      const sessionId = hashToken(token);
+      const session = await storage.getAuthSession(sessionId);
+      if (!session) return next();
+
+      if (session.expiresAt.getTime() <= Date.now()) {
+        await storage.deleteAuthSession(sessionId);
+        return next();
+      }
+
+      const user = await storage.getUser(session.userId);
+      if (user) {
+        req.authUser = toAccountUser(user);
+        req.authSessionId = sessionId;
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.authUser) {
+    return res.status(401).json({ message: "Sign in required" });
+  }
+  next();
+}
@@ -0,0 +1,222 @@
+import { and, eq, gte, asc, desc, isNull, sql, type SQL } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import {
+  authSessions,
+  gameSessions,
+  leaderboardEntries,
+  levelResults,
+  progressSnapshots,
+  users,
+  type AuthSession,
+  type GameSession,
+  type InsertAuthSession,
+  type InsertGameSession,
+  type InsertLeaderboardEntry,
+  type InsertLevelResultRecord,
+  type InsertUser,
+  type LeaderboardEntryRecord,
+  type LevelResultRecord,
+  type ProgressSnapshotRecord,
+  type User,
+} from "@shared/schema";
+import type { ProgressSnapshot } from "../client/lib/types";
+import type { IStorage, LevelResultFilter } from "./storage";
+
+// Any Postgres driver drizzle supports: node-postgres in the server, an
+// embedded Postgres in the storage tests
+type Database = PgDatabase<PgQueryResultHKT>;
+
+export class DbStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database | string) {
+    this.db = typeof db === "string" ? drizzle(db) : db;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getAuthSession(id: string): Promise<AuthSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(authSessions)
+      .where(eq(authSessions.id, id));
+    return session;
+  }
+
+  async createAuthSession(
+    insertSession: InsertAuthSession,
+  ): Promise<AuthSession> {
+    const [session] = await this.db
+      .insert(authSessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async deleteAuthSession(id: string): Promise<void> {
+    await this.db.delete(authSessions).where(eq(authSessions.id, id));
+  }
+
+  async getGameSession(id: string): Promise<GameSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(gameSessions)
+      .where(eq(gameSessions.id, id));
+    return session;
+  }
+
+  async getOpenGameSession(playerId: string): Promise<GameSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(gameSessions)
+      .where(
+        and(eq(gameSessions.playerId, playerId), isNull(gameSessions.result)),
+      );
+    return session;
+  }
+
+  async createGameSession(
+    insertSession: InsertGameSession,
+  ): Promise<GameSession | undefined> {
+    const [session] = await this.db
+      .insert(gameSessions)
+      .values(insertSession)
+      .onConflictDoNothing({
+        target: gameSessions.playerId,
+        where: sql`${gameSessions.result} is null`,
+      })
+      .returning();
+    return session;
+  }
+
+  async updateGameSession(
+    id: string,
+    updates: Partial<Pick<GameSession, "state" | "result">>,
+  ): Promise<GameSession | undefined> {
+    const [session] = await this.db
+      .update(gameSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(gameSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async createLevelResultRecord(
+    record: InsertLevelResultRecord,
+  ): Promise<LevelResultRecord> {
+    const [stored] = await this.db
+      .insert(levelResults)
+      .values(record)
+      .returning();
+    return stored;
+  }
+
+  async getLevelResultRecords(
+    filter: LevelResultFilter,
+  ): Promise<LevelResultRecord[]> {
+    const conditions: SQL[] = [];
+    if (filter.gameMode) {
+      conditions.push(eq(levelResults.gameMode, filter.gameMode));
+    }
+    if (filter.since) {
+      conditions.push(gte(levelResults.completedAt, filter.since));
+    }
+    if (filter.playerId) {
+      conditions.push(eq(levelResults.playerId, filter.playerId));
+    }
+
+    const query = this.db
+      .select()
+      .from(levelResults)
+      .where(and(...conditions));
+    if (filter.limit === undefined) {
+      return query.orderBy(asc(levelResults.completedAt));
+    }
+    const latest = await query
+      .orderBy(desc(levelResults.completedAt))
+      .limit(filter.limit);
+    return latest.reverse();
+  }
+
+  async getLeaderboardEntry(
+    playerId: string,
+    board: string,
+  ): Promise<LeaderboardEntryRecord | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(leaderboardEntries)
+      .where(
+        and(
+          eq(leaderboardEntries.playerId, playerId),
+          eq(leaderboardEntries.board, board),
+        ),
+      );
+    return entry;
+  }
+
+  async getLeaderboardEntries(
+    board: string,
+  ): Promise<LeaderboardEntryRecord[]> {
+    return this.db
+      .select()
+      .from(leaderboardEntries)
+      .where(eq(leaderboardEntries.board, board));
+  }
+
+  async upsertLeaderboardEntry(
+    entry: InsertLeaderboardEntry,
+  ): Promise<LeaderboardEntryRecord> {
+    const { playerId: _playerId, board: _board, ...totals } = entry;
+    const [stored] = await this.db
+      .insert(leaderboardEntries)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [leaderboardEntries.playerId, leaderboardEntries.board],
+        set: { ...totals, updatedAt: new Date() },
+      })
+      .returning();
+    return stored;
+  }
+
+  async getProgressSnapshot(
+    userId: string,
+  ): Promise<ProgressSnapshotRecord | undefined> {
+    const [record] = await this.db
+      .select()
+      .from(progressSnapshots)
+      .where(eq(progressSnapshots.userId, userId));
+    return record;
+  }
+
+  async saveProgressSnapshot(
+    userId: string,
+    snapshot: ProgressSnapshot,
+  ): Promise<ProgressSnapshotRecord> {
+    const [record] = await this.db
+      .insert(progressSnapshots)
+      .values({ userId, snapshot })
+      .onConflictDoUpdate({
+        target: progressSnapshots.userId,
+        set: { snapshot, updatedAt: new Date() },
+      })
+      .returning();
+    return record;
+  }
+}
@@ -0,0 +1,56 @@
+import type { LevelResultRecord } from "@shared/schema";
+import {
+  CalibrationSample,
+  DifficultyCalibration,
+  calibrateDifficulty,
+  formatCalibrationReport,
+} from "../client/lib/difficulty-calibration";
+import { setDifficultyWeights } from "../client/lib/level-generator";
+import { storage } from "./storage";
+
+// Difficulty weights are refitted from server-scored results at most this
+// often and published at /api/difficulty for clients to pick up. Results
+// clients report through /api/sync are never used: the weights apply to
+// everyone, ranked levels included. Each refit reads only the newest results
+// from the window, so the work stays bounded as the table grows.
+const REFIT_INTERVAL_MS = 60 * 60 * 1000;
+const SAMPLE_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_SAMPLES = 5000;
+const log = console.log;
+
+let latest: DifficultyCalibration | null = null;
+// Callers that arrive while a refit runs wait for it instead of starting
+// their own
+let refit: Promise<DifficultyCalibration> | null = null;
+
+function toSample(record: LevelResultRecord): CalibrationSample {
+  return {
+    rangeSize: record.rangeSize,
+    maxAttempts: record.maxAttempts,
+    timeLimit: record.timeLimit,
+    won: record.won,
+  };
+}
+
+async function refitCalibration(now: number): Promise<DifficultyCalibration> {
+  const records = await storage.getLevelResultRecords({
+    since: new Date(now - SAMPLE_WINDOW_MS),
+    limit: MAX_SAMPLES,
+  });
+  latest = calibrateDifficulty(records.map(toSample), now);
+  // Levels generated here get the same scores the clients will show
+  setDifficultyWeights(latest.weights);
+  log(formatCalibrationReport(latest));
+  return latest;
+}
+
+export async function getDifficultyCalibration(
+  now: number = Date.now(),
+): Promise<DifficultyCalibration> {
+  if (latest && now - latest.fittedAt < REFIT_INTERVAL_MS) return latest;
+
+  refit ??= refitCalibration(now).finally(() => {
+    refit = null;
+  });
+  return refit;
+}
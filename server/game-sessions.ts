@@ -0,0 +1,218 @@
+import type { GameSession, LevelResultRecord } from "@shared/schema";
+import {
+  GuessError,
+  createLevelResult,
+  createPlayingState,
+  getAttemptsLeft,
+  getGuessError,
+  getTimeRemaining,
+  reduceGame,
+} from "../client/lib/game-engine";
+import { generateLevel } from "../client/lib/level-generator";
+import { generateSeed } from "../client/lib/seeded-random";
+import { getRatedSkillMetrics, rebuildRatings } from "../client/lib/rating";
+import {
+  calculateSkillMetrics,
+  createInitialStats,
+  updateStatsWithResult,
+} from "../client/lib/skill-model";
+import type {
+  AccountUser,
+  GameSessionView,
+  GuessResult,
+  LevelParams,
+  LevelResult,
+  PublicLevelParams,
+  SkillMetrics,
+} from "../client/lib/types";
+import { recordSessionResult } from "./leaderboards";
+import { signLevelResult } from "./result-signing";
+import { storage } from "./storage";
+
+// Ranked levels are tuned from this many of the player's latest results
+const RANKED_HISTORY = 100;
+
+export class SessionError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export const GUESS_ERROR_MESSAGES: Record<GuessError, [number, string]> = {
+  not_playing: [409, "This session is no longer accepting guesses"],
+  out_of_range: [400, "Guess is outside the level range"],
+  duplicate: [409, "That number has already been guessed"],
+};
+
+// The seed is withheld as well: the target can be recomputed from it.
+export function toPublicLevel(level: LevelParams): PublicLevelParams {
+  const { targetNumber: _target, seed: _seed, ...rest } = level;
+  return rest;
+}
+
+export function toSessionView(session: GameSession): GameSessionView {
+  const { state } = session;
+  const level = state.currentLevel as LevelParams;
+  const finished = state.outcome !== null;
+
+  return {
+    id: session.id,
+    levelNumber: session.levelNumber,
+    level: toPublicLevel(level),
+    guesses: state.currentGuesses,
+    attemptsLeft: getAttemptsLeft(state),
+    timeRemaining: getTimeRemaining(state),
+    elapsedTime: state.elapsedTime,
+    outcome: state.outcome,
+    reveal: finished
+      ? { targetNumber: level.targetNumber, seed: level.seed }
+      : null,
+    result: session.result,
+  };
+}
+
+async function finishIfDone(session: GameSession): Promise<GameSession> {
+  if (session.state.outcome === null || session.result) return session;
+
+  const result = createLevelResult(
+    session.state,
+    session.levelNumber,
+    Date.now(),
+  );
+  if (!result) return session;
+
+  const signed = signLevelResult(session.id, result);
+  const updated = await storage.updateGameSession(session.id, {
+    result: signed,
+  });
+  const finished = updated ?? { ...session, result: signed };
+  await recordSessionResult(finished);
+  return finished;
+}
+
+// Applies the clock before anything is read so an expired timer is reported
+// even if the player never sends another guess. Other players' sessions are
+// reported as missing rather than forbidden.
+async function loadSession(id: string, playerId: string): Promise<GameSession> {
+  const session = await storage.getGameSession(id);
+  if (!session || session.playerId !== playerId) {
+    throw new SessionError(404, "Session not found");
+  }
+
+  const state = reduceGame(session.state, { type: "tick", now: Date.now() });
+  if (state === session.state) return session;
+
+  const updated = await storage.updateGameSession(id, { state });
+  return finishIfDone(updated ?? { ...session, state });
+}
+
+// Fields a record does not keep are left empty; the skill model and the
+// ratings only read the ones it does.
+function toLevelResult(record: LevelResultRecord): LevelResult {
+  return {
+    levelNumber: 0,
+    won: record.won,
+    attemptsUsed: record.attemptsUsed,
+    maxAttempts: record.maxAttempts,
+    timeUsed: record.timeUsed,
+    timeLimit: record.timeLimit,
+    accuracy: record.efficiency,
+    gameMode: record.gameMode as LevelResult["gameMode"],
+    targetNumber: 0,
+    guesses: [],
+    completedAt: record.completedAt.getTime(),
+    rangeMin: 1,
+    rangeMax: record.rangeSize,
+  };
+}
+
+// The same skill model and ratings the app keeps, rebuilt from the player's
+// server-scored results instead of anything the client sends.
+async function getRankedSkillMetrics(playerId: string): Promise<SkillMetrics> {
+  const history = (
+    await storage.getLevelResultRecords({ playerId, limit: RANKED_HISTORY })
+  ).map(toLevelResult);
+  const stats = history.reduce(updateStatsWithResult, createInitialStats());
+  return getRatedSkillMetrics(
+    calculateSkillMetrics(stats, history),
+    rebuildRatings(history),
+  );
+}
+
+// Ranked play is the campaign on the server: each player starts at the level
+// after the last one they cleared here, so a won level cannot be replayed.
+// An unfinished level is handed back rather than replaced, so walking away
+// from a hard one cannot reroll it.
+export async function createGameSession(
+  player: AccountUser,
+): Promise<GameSessionView> {
+  const open = await storage.getOpenGameSession(player.id);
+  if (open) {
+    // A round that ended without its result being recorded is closed first
+    const session = await finishIfDone(await loadSession(open.id, player.id));
+    if (session.state.outcome === null) return toSessionView(session);
+  }
+
+  const entry = await storage.getLeaderboardEntry(player.id, "all");
+  const levelNumber = (entry?.levelsCleared ?? 0) + 1;
+  const level = generateLevel(
+    levelNumber,
+    await getRankedSkillMetrics(player.id),
+    generateSeed(),
+  );
+  const session = await storage.createGameSession({
+    levelNumber,
+    playerId: player.id,
+    displayName: player.username,
+    state: createPlayingState(level, Date.now()),
+  });
+  if (session) return toSessionView(session);
+
+  // A request running alongside this one opened the level first, so both
+  // requests hand back that session
+  const opened = await storage.getOpenGameSession(player.id);
+  if (!opened) {
+    throw new SessionError(409, "A ranked level was just started; try again");
+  }
+  return toSessionView(await loadSession(opened.id, player.id));
+}
+
+export async function getGameSession(
+  id: string,
+  playerId: string,
+): Promise<GameSessionView> {
+  return toSessionView(await loadSession(id, playerId));
+}
+
+export async function submitSessionGuess(
+  id: string,
+  playerId: string,
+  guess: number,
+): Promise<{ guess: GuessResult | null; session: GameSessionView }> {
+  const session = await loadSession(id, playerId);
+
+  const error = getGuessError(session.state, guess);
+  if (error) {
+    const [status, message] = GUESS_ERROR_MESSAGES[error];
+    throw new SessionError(status, message);
+  }
+
+  const state = reduceGame(session.state, {
+    type: "guess",
+    guess,
+    now: Date.now(),
+  });
+  const updated = await storage.updateGameSession(id, { state });
+  const finished = await finishIfDone(updated ?? { ...session, state });
+
+  // No guess is recorded when the timer ran out before it arrived.
+  const recorded =
+    state.currentGuesses.length > session.state.currentGuesses.length
+      ? state.currentGuesses[state.currentGuesses.length - 1]
+      : null;
+
+  return { guess: recorded, session: toSessionView(finished) };
+}
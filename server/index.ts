@@ -50,6 +50,8 @@ function setupCors(app: express.Application) {
 function setupBodyParsing(app: express.Application) {
   app.use(
     express.json({
+      // Progress sync carries the full level history
+      limit: "2mb",
       verify: (req, _res, buf) => {
         req.rawBody = buf;
       },
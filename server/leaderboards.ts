@@ -0,0 +1,214 @@
+import type {
+  GameSession,
+  LeaderboardEntryRecord,
+  LevelResultRecord,
+} from "@shared/schema";
+import { calculateLevelAccuracy } from "../client/lib/skill-model";
+import type {
+  LeaderboardBoard,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardResponse,
+  LeaderboardWindow,
+} from "../client/lib/types";
+import { verifySignedResult } from "./result-signing";
+import { storage } from "./storage";
+
+const log = console.log;
+
+interface PlayerTotals {
+  playerId: string;
+  displayName: string;
+  gamesPlayed: number;
+  levelsCleared: number;
+  currentStreak: number;
+  bestStreak: number;
+  totalEfficiency: number;
+}
+
+function emptyTotals(playerId: string, displayName: string): PlayerTotals {
+  return {
+    playerId,
+    displayName,
+    gamesPlayed: 0,
+    levelsCleared: 0,
+    currentStreak: 0,
+    bestStreak: 0,
+    totalEfficiency: 0,
+  };
+}
+
+function applyResult(
+  totals: PlayerTotals,
+  won: boolean,
+  efficiency: number,
+): PlayerTotals {
+  const currentStreak = won ? totals.currentStreak + 1 : 0;
+  return {
+    ...totals,
+    gamesPlayed: totals.gamesPlayed + 1,
+    levelsCleared: totals.levelsCleared + (won ? 1 : 0),
+    currentStreak,
+    bestStreak: Math.max(totals.bestStreak, currentStreak),
+    totalEfficiency: totals.totalEfficiency + efficiency,
+  };
+}
+
+export function getWindowStart(
+  window: LeaderboardWindow,
+  now: Date = new Date(),
+): Date | undefined {
+  if (window === "all") return undefined;
+
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+  if (window === "weekly") {
+    // Weeks start on Monday (UTC)
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+  return start;
+}
+
+// Windowed boards are rebuilt from raw results, which must be in completion
+// order for streaks to come out right.
+export function aggregateResults(records: LevelResultRecord[]): PlayerTotals[] {
+  const byPlayer = new Map<string, PlayerTotals>();
+  for (const record of records) {
+    const totals =
+      byPlayer.get(record.playerId) ??
+      emptyTotals(record.playerId, record.displayName);
+    byPlayer.set(
+      record.playerId,
+      applyResult(
+        { ...totals, displayName: record.displayName },
+        record.won,
+        record.efficiency,
+      ),
+    );
+  }
+  return Array.from(byPlayer.values());
+}
+
+function metricValue(totals: PlayerTotals, metric: LeaderboardMetric) {
+  switch (metric) {
+    case "levels_cleared":
+      return totals.levelsCleared;
+    case "best_streak":
+      return totals.bestStreak;
+    case "efficiency":
+      return totals.gamesPlayed > 0
+        ? totals.totalEfficiency / totals.gamesPlayed
+        : 0;
+  }
+}
+
+export function rankTotals(
+  totals: PlayerTotals[],
+  metric: LeaderboardMetric,
+  limit: number,
+): LeaderboardEntry[] {
+  return [...totals]
+    .sort(
+      (a, b) =>
+        metricValue(b, metric) - metricValue(a, metric) ||
+        b.levelsCleared - a.levelsCleared ||
+        a.gamesPlayed - b.gamesPlayed,
+    )
+    .slice(0, limit)
+    .map((totals, index) => ({
+      rank: index + 1,
+      displayName: totals.displayName,
+      gamesPlayed: totals.gamesPlayed,
+      levelsCleared: totals.levelsCleared,
+      bestStreak: totals.bestStreak,
+      efficiency:
+        Math.round(
+          (totals.gamesPlayed > 0
+            ? totals.totalEfficiency / totals.gamesPlayed
+            : 0) * 100,
+        ) / 100,
+    }));
+}
+
+function toTotals(entry: LeaderboardEntryRecord): PlayerTotals {
+  return {
+    playerId: entry.playerId,
+    displayName: entry.displayName,
+    gamesPlayed: entry.gamesPlayed,
+    levelsCleared: entry.levelsCleared,
+    currentStreak: entry.currentStreak,
+    bestStreak: entry.bestStreak,
+    totalEfficiency: entry.totalEfficiency,
+  };
+}
+
+export async function getLeaderboard(
+  board: LeaderboardBoard,
+  window: LeaderboardWindow,
+  metric: LeaderboardMetric,
+  limit: number,
+): Promise<LeaderboardResponse> {
+  let totals: PlayerTotals[];
+  if (window === "all") {
+    totals = (await storage.getLeaderboardEntries(board)).map(toTotals);
+  } else {
+    const records = await storage.getLevelResultRecords({
+      gameMode: board === "all" ? undefined : board,
+      since: getWindowStart(window),
+    });
+    totals = aggregateResults(records);
+  }
+
+  return { board, window, metric, entries: rankTotals(totals, metric, limit) };
+}
+
+// Only finished sessions reach the boards, and only with a result whose
+// signature checks out, so every ranked result was scored by this server.
+export async function recordSessionResult(session: GameSession): Promise<void> {
+  const signed = session.result;
+  const level = session.state.currentLevel;
+  if (!session.playerId || !signed || !level) return;
+
+  if (signed.sessionId !== session.id || !verifySignedResult(signed)) {
+    log(`Not ranking session ${session.id}: its result signature is invalid`);
+    return;
+  }
+
+  const { result } = signed;
+  const displayName = session.displayName ?? "Player";
+  const rangeSize = level.rangeMax - level.rangeMin + 1;
+  const efficiency = calculateLevelAccuracy(
+    result.attemptsUsed,
+    result.maxAttempts,
+    rangeSize,
+  );
+
+  await storage.createLevelResultRecord({
+    sessionId: session.id,
+    playerId: session.playerId,
+    displayName,
+    gameMode: result.gameMode,
+    won: result.won,
+    attemptsUsed: result.attemptsUsed,
+    maxAttempts: result.maxAttempts,
+    rangeSize,
+    timeLimit: level.timeLimit,
+    timeUsed: result.timeUsed,
+    efficiency,
+    completedAt: new Date(result.completedAt),
+  });
+
+  for (const board of ["all", result.gameMode]) {
+    const existing = await storage.getLeaderboardEntry(session.playerId, board);
+    const totals = applyResult(
+      existing
+        ? toTotals(existing)
+        : emptyTotals(session.playerId, displayName),
+      result.won,
+      efficiency,
+    );
+    await storage.upsertLeaderboardEntry({ ...totals, displayName, board });
+  }
+}
@@ -0,0 +1,447 @@
+import type { IncomingMessage, Server } from "node:http";
+import type { Duplex } from "node:stream";
+import { randomBytes, randomUUID } from "crypto";
+import { WebSocket, WebSocketServer } from "ws";
+import { fromZodError } from "zod-validation-error";
+import { matchClientMessageSchema } from "@shared/schema";
+import { decideVersus, getVersusEntry } from "../client/lib/bot";
+import {
+  createPlayingState,
+  getAttemptsLeft,
+  getGuessError,
+  getTimeRemaining,
+  reduceGame,
+} from "../client/lib/game-engine";
+import { generateLevel } from "../client/lib/level-generator";
+import { generateSeed } from "../client/lib/seeded-random";
+import { createInitialSkillMetrics } from "../client/lib/skill-model";
+import type {
+  GameState,
+  LevelParams,
+  MatchClientMessage,
+  MatchServerMessage,
+  MatchView,
+} from "../client/lib/types";
+import { GUESS_ERROR_MESSAGES, toPublicLevel } from "./game-sessions";
+
+// Live head-to-head matches over a WebSocket. Matches only exist in memory:
+// both players get the same level from one seed, every guess is scored here
+// through the shared reducer, and each side is only told how many attempts
+// the other has used. A dropped player has a grace period to resume with the
+// token they were given before the match is forfeited.
+
+export const MATCH_SOCKET_PATH = "/api/match";
+
+const RECONNECT_GRACE_MS = 30 * 1000;
+// Untimed levels would otherwise let an idle player hold a match forever
+const UNTIMED_MATCH_LIMIT_MS = 10 * 60 * 1000;
+// Finished matches stay around so a player who reconnects sees the result
+const FINISHED_MATCH_TTL_MS = 5 * 60 * 1000;
+const TICK_INTERVAL_MS = 1000;
+const MATCHMAKING_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Skill gap allowed straight away, widened the longer someone waits
+const BASE_SKILL_GAP = 10;
+const SKILL_GAP_PER_SECOND = 2;
+
+interface QueueEntry {
+  socket: WebSocket;
+  displayName: string;
+  skillLevel: number;
+  levelNumber: number;
+  joinedAt: number;
+}
+
+interface MatchPlayer {
+  token: string;
+  displayName: string;
+  socket: WebSocket | null;
+  state: GameState;
+  forfeited: boolean;
+  graceTimer: NodeJS.Timeout | null;
+}
+
+interface Match {
+  id: string;
+  level: LevelParams;
+  players: [MatchPlayer, MatchPlayer];
+  startedAt: number;
+  finished: boolean;
+  // Index of the winning player; null while playing or after a draw
+  winner: number | null;
+  ticker: NodeJS.Timeout | null;
+}
+
+const queue: QueueEntry[] = [];
+const matches = new Map<string, Match>();
+const alive = new WeakSet<WebSocket>();
+
+function send(socket: WebSocket | null, message: MatchServerMessage) {
+  if (socket && socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function toMatchView(match: Match, index: number): MatchView {
+  const me = match.players[index];
+  const them = match.players[1 - index];
+
+  let result: MatchView["result"] = null;
+  if (match.finished) {
+    result =
+      match.winner === null ? "draw" : match.winner === index ? "won" : "lost";
+  }
+
+  return {
+    id: match.id,
+    level: toPublicLevel(match.level),
+    you: {
+      displayName: me.displayName,
+      guesses: me.state.currentGuesses,
+      attemptsLeft: getAttemptsLeft(me.state),
+      outcome: me.state.outcome,
+    },
+    opponent: {
+      displayName: them.displayName,
+      attemptsUsed: them.state.currentGuesses.length,
+      outcome: them.state.outcome,
+      connected: them.socket !== null,
+    },
+    timeRemaining: getTimeRemaining(me.state),
+    result,
+    forfeited: match.players.some((p) => p.forfeited),
+    reveal: match.finished
+      ? { targetNumber: match.level.targetNumber, seed: match.level.seed }
+      : null,
+  };
+}
+
+function broadcast(match: Match) {
+  match.players.forEach((player, index) => {
+    send(player.socket, {
+      type: "match",
+      match: toMatchView(match, index),
+      token: player.token,
+    });
+  });
+}
+
+function findSocketMatch(
+  socket: WebSocket,
+  matchId: string,
+): { match: Match; index: number } | null {
+  const match = matches.get(matchId);
+  const index = match?.players.findIndex((p) => p.socket === socket) ?? -1;
+  return match && index !== -1 ? { match, index } : null;
+}
+
+// Every match the socket is attached to, finished ones included
+function findSocketMatches(
+  socket: WebSocket,
+): { match: Match; index: number }[] {
+  return [...matches.values()].flatMap((match) => {
+    const index = match.players.findIndex((p) => p.socket === socket);
+    return index === -1 ? [] : [{ match, index }];
+  });
+}
+
+function finishMatch(match: Match, winner: number | null) {
+  match.finished = true;
+  match.winner = winner;
+  if (match.ticker) clearInterval(match.ticker);
+  match.ticker = null;
+  match.players.forEach((player) => {
+    if (player.graceTimer) clearTimeout(player.graceTimer);
+    player.graceTimer = null;
+  });
+  setTimeout(() => matches.delete(match.id), FINISHED_MATCH_TTL_MS).unref();
+}
+
+// A player who has not found the number is out of the running once the
+// other has, and they have used all but one of the winner's guess count:
+// solving on the same count would still lose on time.
+function cannotCatchUp(player: MatchPlayer, other: MatchPlayer): boolean {
+  return (
+    other.state.outcome === "won" &&
+    player.state.outcome === null &&
+    player.state.currentGuesses.length >= other.state.currentGuesses.length - 1
+  );
+}
+
+function settleMatch(match: Match) {
+  if (match.finished) return;
+  const [a, b] = match.players;
+
+  const forfeited = match.players.findIndex((p) => p.forfeited);
+  if (forfeited !== -1) {
+    finishMatch(match, 1 - forfeited);
+    return;
+  }
+
+  const bothDone = a.state.outcome !== null && b.state.outcome !== null;
+  if (bothDone || cannotCatchUp(a, b) || cannotCatchUp(b, a)) {
+    const winner = decideVersus(
+      getVersusEntry(a.state),
+      getVersusEntry(b.state),
+    );
+    finishMatch(match, winner === "player" ? 0 : winner === "bot" ? 1 : null);
+  }
+}
+
+function tickMatch(match: Match) {
+  const now = Date.now();
+  let changed = false;
+
+  match.players.forEach((player) => {
+    let state = reduceGame(player.state, { type: "tick", now });
+    if (
+      state.outcome === null &&
+      match.level.timeLimit === null &&
+      now - match.startedAt >= UNTIMED_MATCH_LIMIT_MS
+    ) {
+      state = reduceGame(state, { type: "timeout", now });
+    }
+    if (state !== player.state) {
+      player.state = state;
+      changed = true;
+    }
+  });
+
+  if (changed) {
+    settleMatch(match);
+    broadcast(match);
+  }
+}
+
+function startMatch(first: QueueEntry, second: QueueEntry) {
+  const now = Date.now();
+  const skillLevel = (first.skillLevel + second.skillLevel) / 2;
+  const level = generateLevel(
+    Math.min(first.levelNumber, second.levelNumber),
+    { ...createInitialSkillMetrics(), skillLevel },
+    generateSeed(),
+  );
+
+  const toPlayer = (entry: QueueEntry): MatchPlayer => ({
+    token: randomBytes(16).toString("hex"),
+    displayName: entry.displayName,
+    socket: entry.socket,
+    state: createPlayingState(level, now),
+    forfeited: false,
+    graceTimer: null,
+  });
+
+  const match: Match = {
+    id: randomUUID(),
+    level,
+    players: [toPlayer(first), toPlayer(second)],
+    startedAt: now,
+    finished: false,
+    winner: null,
+    ticker: null,
+  };
+  match.ticker = setInterval(() => tickMatch(match), TICK_INTERVAL_MS);
+  match.ticker.unref();
+
+  matches.set(match.id, match);
+  broadcast(match);
+}
+
+function removeFromQueue(socket: WebSocket) {
+  const index = queue.findIndex((entry) => entry.socket === socket);
+  if (index !== -1) queue.splice(index, 1);
+}
+
+function runMatchmaking() {
+  const now = Date.now();
+  for (let i = 0; i < queue.length; i++) {
+    // The queue is in join order, so queue[i] has waited the longest
+    const waited = (now - queue[i].joinedAt) / 1000;
+    const allowedGap = BASE_SKILL_GAP + waited * SKILL_GAP_PER_SECOND;
+
+    for (let j = i + 1; j < queue.length; j++) {
+      if (Math.abs(queue[i].skillLevel - queue[j].skillLevel) <= allowedGap) {
+        const second = queue.splice(j, 1)[0];
+        const first = queue.splice(i, 1)[0];
+        startMatch(first, second);
+        i--;
+        break;
+      }
+    }
+  }
+}
+
+function handleMessage(socket: WebSocket, message: MatchClientMessage) {
+  switch (message.type) {
+    case "join": {
+      const current = findSocketMatches(socket);
+      if (current.some(({ match }) => !match.finished)) {
+        return send(socket, {
+          type: "error",
+          message: "Finish your current match first",
+        });
+      }
+      current.forEach(({ match, index }) => {
+        match.players[index].socket = null;
+      });
+      removeFromQueue(socket);
+      queue.push({
+        socket,
+        displayName: message.displayName,
+        skillLevel: message.skillLevel,
+        levelNumber: message.levelNumber,
+        joinedAt: Date.now(),
+      });
+      send(socket, { type: "queued" });
+      runMatchmaking();
+      return;
+    }
+
+    case "leave":
+      removeFromQueue(socket);
+      return;
+
+    case "guess": {
+      const found = findSocketMatch(socket, message.matchId);
+      if (!found) {
+        return send(socket, { type: "error", message: "Match not found" });
+      }
+      const { match, index } = found;
+      const player = match.players[index];
+
+      const error = match.finished
+        ? "not_playing"
+        : getGuessError(player.state, message.guess);
+      if (error) {
+        return send(socket, {
+          type: "error",
+          message: GUESS_ERROR_MESSAGES[error][1],
+        });
+      }
+
+      player.state = reduceGame(player.state, {
+        type: "guess",
+        guess: message.guess,
+        now: Date.now(),
+      });
+      settleMatch(match);
+      broadcast(match);
+      return;
+    }
+
+    case "resume": {
+      const match = matches.get(message.matchId);
+      const player = match?.players.find((p) => p.token === message.token);
+      if (!match || !player) {
+        return send(socket, {
+          type: "match_expired",
+          matchId: message.matchId,
+        });
+      }
+      if (player.socket && player.socket !== socket) {
+        player.socket.close();
+      }
+      removeFromQueue(socket);
+      player.socket = socket;
+      if (player.graceTimer) clearTimeout(player.graceTimer);
+      player.graceTimer = null;
+      broadcast(match);
+      return;
+    }
+
+    case "forfeit": {
+      const found = findSocketMatch(socket, message.matchId);
+      if (!found) return;
+      if (!found.match.finished) {
+        found.match.players[found.index].forfeited = true;
+        settleMatch(found.match);
+      }
+      broadcast(found.match);
+      return;
+    }
+  }
+}
+
+function handleClose(socket: WebSocket) {
+  removeFromQueue(socket);
+
+  findSocketMatches(socket).forEach(({ match, index }) => {
+    const player = match.players[index];
+    player.socket = null;
+    if (match.finished) return;
+
+    player.graceTimer = setTimeout(() => {
+      player.graceTimer = null;
+      player.forfeited = true;
+      settleMatch(match);
+      broadcast(match);
+    }, RECONNECT_GRACE_MS);
+    player.graceTimer.unref();
+    broadcast(match);
+  });
+}
+
+function handleConnection(socket: WebSocket) {
+  alive.add(socket);
+  socket.on("pong", () => alive.add(socket));
+
+  socket.on("message", (data) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(data.toString());
+    } catch {
+      return send(socket, { type: "error", message: "Invalid message" });
+    }
+    const parsed = matchClientMessageSchema.safeParse(json);
+    if (!parsed.success) {
+      return send(socket, {
+        type: "error",
+        message: fromZodError(parsed.error).message,
+      });
+    }
+    handleMessage(socket, parsed.data);
+  });
+
+  socket.on("close", () => handleClose(socket));
+  socket.on("error", () => socket.terminate());
+}
+
+export function setupMatchService(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  wss.on("connection", handleConnection);
+
+  // Other upgrade requests (such as the dev bundler's) are left alone
+  httpServer.on(
+    "upgrade",
+    (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(req.url ?? "/", "http://localhost");
+      if (pathname !== MATCH_SOCKET_PATH) return;
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        wss.emit("connection", ws, req);
+      });
+    },
+  );
+
+  const matchmaking = setInterval(runMatchmaking, MATCHMAKING_INTERVAL_MS);
+  // Sockets that stop answering pings are closed, which starts their grace
+  // period just like a clean disconnect
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  matchmaking.unref();
+  heartbeat.unref();
+
+  httpServer.on("close", () => {
+    clearInterval(matchmaking);
+    clearInterval(heartbeat);
+    wss.close();
+  });
+}
@@ -0,0 +1,37 @@
+import {
+  progressSnapshotSchema,
+  type ProgressSnapshotRecord,
+} from "@shared/schema";
+import { mergeProgress } from "../client/lib/progress-sync";
+import type { ProgressSnapshot } from "../client/lib/types";
+import { storage } from "./storage";
+
+// Snapshots stored by older builds lack newer profile fields; parsing fills
+// in their defaults. Anything that no longer parses is passed on as stored
+// rather than dropped.
+function readSnapshot(record: ProgressSnapshotRecord): ProgressSnapshot {
+  const parsed = progressSnapshotSchema.safeParse(record.snapshot);
+  return parsed.success ? parsed.data : record.snapshot;
+}
+
+export async function getProgress(
+  userId: string,
+): Promise<ProgressSnapshot | null> {
+  const record = await storage.getProgressSnapshot(userId);
+  return record ? readSnapshot(record) : null;
+}
+
+// A push is always answered with the merged result, so a device that sends
+// its progress also pulls whatever other devices added in the meantime.
+export async function syncProgress(
+  userId: string,
+  incoming: ProgressSnapshot,
+): Promise<ProgressSnapshot> {
+  const stored = await storage.getProgressSnapshot(userId);
+  const merged = mergeProgress(
+    incoming,
+    stored ? readSnapshot(stored) : incoming,
+  );
+  await storage.saveProgressSnapshot(userId, merged);
+  return merged;
+}
@@ -0,0 +1,50 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { canonicalJson } from "../client/lib/canonical-json";
+import type { LevelResult, SignedLevelResult } from "../client/lib/types";
+
+const log = console.log;
+
+let cachedSecret: string | null = null;
+
+function getSigningSecret(): string {
+  if (cachedSecret) return cachedSecret;
+
+  if (process.env.RESULT_SIGNING_SECRET) {
+    cachedSecret = process.env.RESULT_SIGNING_SECRET;
+  } else if (process.env.NODE_ENV === "production") {
+    throw new Error("RESULT_SIGNING_SECRET must be set in production");
+  } else {
+    log("RESULT_SIGNING_SECRET not set, using an ephemeral signing key");
+    cachedSecret = randomBytes(32).toString("hex");
+  }
+
+  return cachedSecret;
+}
+
+// Key order is normalised so a result that was parsed and re-serialised by a
+// client still produces the same signature.
+function computeSignature(sessionId: string, result: LevelResult): string {
+  return createHmac("sha256", getSigningSecret())
+    .update(`${sessionId}.${canonicalJson(result)}`)
+    .digest("hex");
+}
+
+export function signLevelResult(
+  sessionId: string,
+  result: LevelResult,
+): SignedLevelResult {
+  return {
+    sessionId,
+    result,
+    signature: computeSignature(sessionId, result),
+  };
+}
+
+export function verifySignedResult(signed: SignedLevelResult): boolean {
+  const expected = Buffer.from(
+    computeSignature(signed.sessionId, signed.result),
+    "hex",
+  );
+  const actual = Buffer.from(signed.signature, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
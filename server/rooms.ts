@@ -0,0 +1,309 @@
+import { randomBytes, randomInt, randomUUID } from "crypto";
+import { decideVersus, getVersusEntry } from "../client/lib/bot";
+import {
+  createPlayingState,
+  getAttemptsLeft,
+  getGuessError,
+  getTimeRemaining,
+  reduceGame,
+} from "../client/lib/game-engine";
+import { createCustomLevel } from "../client/lib/level-generator";
+import { generateSeed } from "../client/lib/seeded-random";
+import type {
+  CustomLevelSettings,
+  GameState,
+  GuessResult,
+  LevelParams,
+  RoomMembership,
+  RoomPlayerView,
+  RoomView,
+} from "../client/lib/types";
+import {
+  GUESS_ERROR_MESSAGES,
+  SessionError,
+  toPublicLevel,
+} from "./game-sessions";
+
+// Private rooms for group play. Like matches they only live in memory, but
+// they are driven over plain REST: players poll the room and post guesses
+// with the token they were given on joining. Time limits are applied
+// whenever a room is touched rather than by a ticker.
+
+export const MAX_ROOM_PLAYERS = 8;
+const MIN_PLAYERS_TO_START = 2;
+
+// Codes skip 0/O and 1/I so they can be read out loud
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 5;
+
+// Rooms nobody has touched for this long are dropped
+const ROOM_IDLE_TTL_MS = 30 * 60 * 1000;
+// Untimed levels would otherwise let one idle player hold up the results
+const UNTIMED_ROOM_LIMIT_MS = 10 * 60 * 1000;
+
+interface RoomPlayer {
+  id: string;
+  token: string;
+  displayName: string;
+  state: GameState | null;
+}
+
+interface Room {
+  code: string;
+  level: LevelParams;
+  hostId: string;
+  players: RoomPlayer[];
+  startedAt: number | null;
+  finished: boolean;
+  expiry: NodeJS.Timeout | null;
+}
+
+const rooms = new Map<string, Room>();
+
+function generateRoomCode(): string {
+  for (;;) {
+    const code = Array.from(
+      { length: CODE_LENGTH },
+      () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)],
+    ).join("");
+    if (!rooms.has(code)) return code;
+  }
+}
+
+function touchRoom(room: Room) {
+  if (room.expiry) clearTimeout(room.expiry);
+  room.expiry = setTimeout(() => rooms.delete(room.code), ROOM_IDLE_TTL_MS);
+  room.expiry.unref();
+}
+
+function createPlayer(displayName: string): RoomPlayer {
+  return {
+    id: randomUUID(),
+    token: randomBytes(16).toString("hex"),
+    displayName,
+    state: null,
+  };
+}
+
+function getRoom(code: string): Room {
+  const room = rooms.get(code.toUpperCase());
+  if (!room) throw new SessionError(404, "Room not found");
+  return room;
+}
+
+function getRoomPlayer(room: Room, token: string): RoomPlayer {
+  const player = room.players.find((p) => p.token === token);
+  if (!player) throw new SessionError(403, "You are not in this room");
+  return player;
+}
+
+function settleRoom(room: Room) {
+  if (room.startedAt === null || room.finished) return;
+  const now = Date.now();
+
+  room.players.forEach((player) => {
+    if (!player.state) return;
+    player.state = reduceGame(player.state, { type: "tick", now });
+    if (
+      room.level.timeLimit === null &&
+      now - room.startedAt! >= UNTIMED_ROOM_LIMIT_MS
+    ) {
+      player.state = reduceGame(player.state, { type: "timeout", now });
+    }
+  });
+
+  room.finished = room.players.every((p) => p.state?.outcome != null);
+}
+
+// Solvers first, then fewest guesses, then fastest; ties share a rank
+function rankPlayers(room: Room): Map<string, number> {
+  const entries = room.players.map((player) => ({
+    id: player.id,
+    entry: getVersusEntry(player.state!),
+  }));
+  const compare = (
+    a: (typeof entries)[number],
+    b: (typeof entries)[number],
+  ) => {
+    const winner = decideVersus(a.entry, b.entry);
+    return winner === "player" ? -1 : winner === "bot" ? 1 : 0;
+  };
+  entries.sort(compare);
+
+  const ranks = new Map<string, number>();
+  entries.forEach((item, index) => {
+    const previous = entries[index - 1];
+    ranks.set(
+      item.id,
+      previous && compare(previous, item) === 0
+        ? ranks.get(previous.id)!
+        : index + 1,
+    );
+  });
+  return ranks;
+}
+
+function toRoomView(room: Room, viewer: RoomPlayer): RoomView {
+  const ranks = room.finished ? rankPlayers(room) : null;
+
+  const players: RoomPlayerView[] = room.players.map((player) => ({
+    id: player.id,
+    displayName: player.displayName,
+    isHost: player.id === room.hostId,
+    attemptsUsed: player.state?.currentGuesses.length ?? 0,
+    outcome: player.state?.outcome ?? null,
+    rank: ranks?.get(player.id) ?? null,
+    timeMs:
+      room.finished && player.state
+        ? getVersusEntry(player.state).timeMs
+        : null,
+  }));
+  if (ranks) players.sort((a, b) => a.rank! - b.rank!);
+
+  return {
+    code: room.code,
+    status: room.finished
+      ? "finished"
+      : room.startedAt !== null
+        ? "playing"
+        : "waiting",
+    level: toPublicLevel(room.level),
+    maxPlayers: MAX_ROOM_PLAYERS,
+    players,
+    you: {
+      id: viewer.id,
+      isHost: viewer.id === room.hostId,
+      guesses: viewer.state?.currentGuesses ?? [],
+      attemptsLeft: viewer.state
+        ? getAttemptsLeft(viewer.state)
+        : room.level.maxAttempts,
+      outcome: viewer.state?.outcome ?? null,
+      timeRemaining: viewer.state
+        ? getTimeRemaining(viewer.state)
+        : room.level.timeLimit,
+    },
+    reveal: room.finished
+      ? { targetNumber: room.level.targetNumber, seed: room.level.seed }
+      : null,
+  };
+}
+
+export function createRoom(
+  displayName: string,
+  settings: CustomLevelSettings,
+): RoomMembership {
+  const host = createPlayer(displayName);
+  const room: Room = {
+    code: generateRoomCode(),
+    level: createCustomLevel(settings, generateSeed()),
+    hostId: host.id,
+    players: [host],
+    startedAt: null,
+    finished: false,
+    expiry: null,
+  };
+  rooms.set(room.code, room);
+  touchRoom(room);
+  return { room: toRoomView(room, host), token: host.token };
+}
+
+export function joinRoom(code: string, displayName: string): RoomMembership {
+  const room = getRoom(code);
+  if (room.startedAt !== null) {
+    throw new SessionError(409, "This room has already started");
+  }
+  if (room.players.length >= MAX_ROOM_PLAYERS) {
+    throw new SessionError(409, "This room is full");
+  }
+
+  const player = createPlayer(displayName);
+  room.players.push(player);
+  touchRoom(room);
+  return { room: toRoomView(room, player), token: player.token };
+}
+
+export function getRoomView(code: string, token: string): RoomView {
+  const room = getRoom(code);
+  const player = getRoomPlayer(room, token);
+  settleRoom(room);
+  return toRoomView(room, player);
+}
+
+export function startRoom(code: string, token: string): RoomView {
+  const room = getRoom(code);
+  const player = getRoomPlayer(room, token);
+  if (player.id !== room.hostId) {
+    throw new SessionError(403, "Only the host can start the room");
+  }
+  if (room.startedAt !== null) {
+    throw new SessionError(409, "This room has already started");
+  }
+  if (room.players.length < MIN_PLAYERS_TO_START) {
+    throw new SessionError(409, "Wait for at least one more player");
+  }
+
+  const now = Date.now();
+  room.startedAt = now;
+  room.players.forEach((p) => {
+    p.state = createPlayingState(room.level, now);
+  });
+  touchRoom(room);
+  return toRoomView(room, player);
+}
+
+export function submitRoomGuess(
+  code: string,
+  token: string,
+  guess: number,
+): { guess: GuessResult | null; room: RoomView } {
+  const room = getRoom(code);
+  const player = getRoomPlayer(room, token);
+  settleRoom(room);
+  if (!player.state) {
+    throw new SessionError(409, "This room has not started yet");
+  }
+
+  const error = getGuessError(player.state, guess);
+  if (error) {
+    const [status, message] = GUESS_ERROR_MESSAGES[error];
+    throw new SessionError(status, message);
+  }
+
+  const before = player.state.currentGuesses.length;
+  player.state = reduceGame(player.state, {
+    type: "guess",
+    guess,
+    now: Date.now(),
+  });
+  settleRoom(room);
+  touchRoom(room);
+
+  return {
+    guess: player.state.currentGuesses[before] ?? null,
+    room: toRoomView(room, player),
+  };
+}
+
+// Leaving before the start frees the seat; leaving mid-game counts as
+// running out of time so the rest of the room can still finish
+export function leaveRoom(code: string, token: string) {
+  const room = getRoom(code);
+  const player = getRoomPlayer(room, token);
+
+  if (room.startedAt === null) {
+    room.players = room.players.filter((p) => p !== player);
+    if (room.players.length === 0) {
+      if (room.expiry) clearTimeout(room.expiry);
+      rooms.delete(room.code);
+      return;
+    }
+    if (player.id === room.hostId) room.hostId = room.players[0].id;
+  } else if (player.state) {
+    player.state = reduceGame(player.state, {
+      type: "timeout",
+      now: Date.now(),
+    });
+    settleRoom(room);
+  }
+  touchRoom(room);
+}
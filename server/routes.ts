@@ -1,11 +1,263 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "node:http";
+import type { z, ZodTypeAny } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  credentialsSchema,
+  createRoomSchema,
+  joinRoomSchema,
+  leaderboardQuerySchema,
+  progressSnapshotSchema,
+  roomGuessSchema,
+  roomTokenSchema,
+  submitGuessSchema,
+} from "@shared/schema";
+import { getDifficultyCalibration } from "./difficulty-calibration";
+import {
+  SessionError,
+  createGameSession,
+  getGameSession,
+  submitSessionGuess,
+} from "./game-sessions";
+import { getLeaderboard } from "./leaderboards";
+import { setupMatchService } from "./match-service";
+import { getProgress, syncProgress } from "./progress-sync";
+import {
+  createRoom,
+  getRoomView,
+  joinRoom,
+  leaveRoom,
+  startRoom,
+  submitRoomGuess,
+} from "./rooms";
+import {
+  endAuthSession,
+  hashPassword,
+  requireAuth,
+  setupAuth,
+  startAuthSession,
+  toAccountUser,
+  verifyPassword,
+} from "./auth";
+import { storage } from "./storage";
+
+type AsyncHandler = (req: Request, res: Response) => Promise<unknown>;
+
+function handle(fn: AsyncHandler) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    fn(req, res).catch((err) => {
+      if (err instanceof SessionError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      next(err);
+    });
+  };
+}
+
+function parseInput<S extends ZodTypeAny>(
+  schema: S,
+  input: unknown,
+  res: Response,
+): z.infer<S> | null {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    res.status(400).json({ message: fromZodError(parsed.error).message });
+    return null;
+  }
+  return parsed.data;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
+  setupAuth(app);
+  // Fit once at start-up so server-generated levels use calibrated scores
+  getDifficultyCalibration().catch((error) => {
+    console.error("Failed to calibrate difficulty", error);
+  });
+
+  app.post(
+    "/api/auth/register",
+    handle(async (req, res) => {
+      const body = parseInput(credentialsSchema, req.body, res);
+      if (!body) return;
+
+      if (await storage.getUserByUsername(body.username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      const user = await storage.createUser({
+        username: body.username,
+        password: await hashPassword(body.password),
+      });
+      await startAuthSession(res, user);
+      res.status(201).json({ user: toAccountUser(user) });
+    }),
+  );
+
+  app.post(
+    "/api/auth/login",
+    handle(async (req, res) => {
+      const body = parseInput(credentialsSchema, req.body, res);
+      if (!body) return;
+
+      const user = await storage.getUserByUsername(body.username);
+      if (!user || !(await verifyPassword(body.password, user.password))) {
+        return res
+          .status(401)
+          .json({ message: "Invalid username or password" });
+      }
+
+      await startAuthSession(res, user);
+      res.json({ user: toAccountUser(user) });
+    }),
+  );
+
+  app.post(
+    "/api/auth/logout",
+    handle(async (req, res) => {
+      await endAuthSession(req, res);
+      res.status(204).end();
+    }),
+  );
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json({ user: req.authUser });
+  });
+
+  // Ranked sessions belong to an account: the server picks the level and
+  // only the owner can read or play it.
+  app.post(
+    "/api/sessions",
+    requireAuth,
+    handle(async (req, res) => {
+      res.status(201).json(await createGameSession(req.authUser!));
+    }),
+  );
+
+  app.get(
+    "/api/sessions/:id",
+    requireAuth,
+    handle(async (req, res) => {
+      res.json(await getGameSession(req.params.id, req.authUser!.id));
+    }),
+  );
+
+  app.post(
+    "/api/sessions/:id/guesses",
+    requireAuth,
+    handle(async (req, res) => {
+      const body = parseInput(submitGuessSchema, req.body, res);
+      if (!body) return;
+      res.json(
+        await submitSessionGuess(req.params.id, req.authUser!.id, body.guess),
+      );
+    }),
+  );
+
+  app.post(
+    "/api/rooms",
+    handle(async (req, res) => {
+      const body = parseInput(createRoomSchema, req.body, res);
+      if (!body) return;
+      res.status(201).json(createRoom(body.displayName, body.settings));
+    }),
+  );
+
+  app.post(
+    "/api/rooms/:code/players",
+    handle(async (req, res) => {
+      const body = parseInput(joinRoomSchema, req.body, res);
+      if (!body) return;
+      res.status(201).json(joinRoom(req.params.code, body.displayName));
+    }),
+  );
+
+  app.get(
+    "/api/rooms/:code",
+    handle(async (req, res) => {
+      const query = parseInput(roomTokenSchema, req.query, res);
+      if (!query) return;
+      res.json(getRoomView(req.params.code, query.token));
+    }),
+  );
+
+  app.post(
+    "/api/rooms/:code/start",
+    handle(async (req, res) => {
+      const body = parseInput(roomTokenSchema, req.body, res);
+      if (!body) return;
+      res.json(startRoom(req.params.code, body.token));
+    }),
+  );
+
+  app.post(
+    "/api/rooms/:code/guesses",
+    handle(async (req, res) => {
+      const body = parseInput(roomGuessSchema, req.body, res);
+      if (!body) return;
+      res.json(submitRoomGuess(req.params.code, body.token, body.guess));
+    }),
+  );
+
+  app.post(
+    "/api/rooms/:code/leave",
+    handle(async (req, res) => {
+      const body = parseInput(roomTokenSchema, req.body, res);
+      if (!body) return;
+      leaveRoom(req.params.code, body.token);
+      res.status(204).end();
+    }),
+  );
+
+  app.get(
+    "/api/leaderboards/:board",
+    handle(async (req, res) => {
+      const query = parseInput(
+        leaderboardQuerySchema,
+        { ...req.query, board: req.params.board },
+        res,
+      );
+      if (!query) return;
+      res.json(
+        await getLeaderboard(
+          query.board,
+          query.window,
+          query.metric,
+          query.limit,
+        ),
+      );
+    }),
+  );
+
+  app.get(
+    "/api/difficulty",
+    handle(async (_req, res) => {
+      res.json(await getDifficultyCalibration());
+    }),
+  );
+
+  app.get(
+    "/api/sync",
+    requireAuth,
+    handle(async (req, res) => {
+      res.json({ snapshot: await getProgress(req.authUser!.id) });
+    }),
+  );
+
+  app.post(
+    "/api/sync",
+    requireAuth,
+    handle(async (req, res) => {
+      const body = parseInput(progressSnapshotSchema, req.body, res);
+      if (!body) return;
+      res.json({ snapshot: await syncProgress(req.authUser!.id, body) });
+    }),
+  );
+
   const httpServer = createServer(app);
+  setupMatchService(httpServer);
 
   return httpServer;
 }
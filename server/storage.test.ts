@@ -0,0 +1,376 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { PGlite } from "@electric-sql/pglite";
+import { getTableName, is } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/pglite";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import * as schema from "@shared/schema";
+import type { InsertLevelResultRecord } from "@shared/schema";
+import { createPlayingState } from "../client/lib/game-engine";
+import { generateLevel } from "../client/lib/level-generator";
+import { createInitialSkillMetrics } from "../client/lib/skill-model";
+import type { ProgressSnapshot } from "../client/lib/types";
+import { DbStorage } from "./db-storage";
+import { MemStorage, type IStorage, type LevelResultFilter } from "./storage";
+
+// The same contract runs against both storages, so the in-memory one used in
+// development cannot drift from Postgres. DbStorage runs on an embedded
+// Postgres with the tables created from shared/schema.ts, as db:push would.
+
+interface Backend {
+  // An empty storage for the next test
+  reset(): Promise<IStorage>;
+  close(): Promise<void>;
+}
+
+async function createDbBackend(): Promise<Backend> {
+  const client = new PGlite();
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson(schema),
+  );
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  const tables = Object.values(schema)
+    .filter((value) => is(value, PgTable))
+    .map((table) => `"${getTableName(table)}"`)
+    .join(", ");
+  const db = drizzle(client);
+
+  return {
+    reset: async () => {
+      await client.exec(`TRUNCATE ${tables} CASCADE`);
+      return new DbStorage(db);
+    },
+    close: () => client.close(),
+  };
+}
+
+const BACKENDS: [string, () => Promise<Backend>][] = [
+  [
+    "MemStorage",
+    async () => ({
+      reset: async () => new MemStorage(),
+      close: async () => {},
+    }),
+  ],
+  ["DbStorage", createDbBackend],
+];
+
+function levelResult(
+  overrides: Partial<InsertLevelResultRecord> &
+    Pick<InsertLevelResultRecord, "sessionId" | "completedAt">,
+): InsertLevelResultRecord {
+  return {
+    playerId: "player-1",
+    displayName: "Ada",
+    gameMode: "classic",
+    won: true,
+    attemptsUsed: 4,
+    maxAttempts: 7,
+    rangeSize: 100,
+    timeLimit: null,
+    timeUsed: 12,
+    efficiency: 0.8,
+    ...overrides,
+  };
+}
+
+function playingState() {
+  return createPlayingState(
+    generateLevel(1, createInitialSkillMetrics(), 1),
+    Date.now(),
+  );
+}
+
+for (const [name, createBackend] of BACKENDS) {
+  describe(`${name} contract`, () => {
+    let backend: Backend;
+    let storage: IStorage;
+
+    before(async () => {
+      backend = await createBackend();
+    });
+
+    beforeEach(async () => {
+      storage = await backend.reset();
+    });
+
+    after(async () => {
+      await backend.close();
+    });
+
+    it("creates users and finds them by id and username", async () => {
+      const user = await storage.createUser({
+        username: "ada",
+        password: "hash",
+      });
+
+      assert.deepEqual(await storage.getUser(user.id), user);
+      assert.deepEqual(await storage.getUserByUsername("ada"), user);
+      assert.equal(await storage.getUserByUsername("grace"), undefined);
+    });
+
+    it("creates and deletes auth sessions", async () => {
+      const user = await storage.createUser({
+        username: "ada",
+        password: "hash",
+      });
+      const expiresAt = new Date("2030-01-01T00:00:00Z");
+      await storage.createAuthSession({
+        id: "token-hash",
+        userId: user.id,
+        expiresAt,
+      });
+
+      const session = await storage.getAuthSession("token-hash");
+      assert.equal(session?.userId, user.id);
+      assert.deepEqual(session?.expiresAt, expiresAt);
+
+      await storage.deleteAuthSession("token-hash");
+      assert.equal(await storage.getAuthSession("token-hash"), undefined);
+    });
+
+    it("stores game sessions and updates their state and result", async () => {
+      const state = playingState();
+      const session = await storage.createGameSession({
+        levelNumber: 1,
+        playerId: "player-1",
+        displayName: "Ada",
+        state,
+      });
+
+      assert.ok(session);
+      assert.equal(session.result, null);
+      assert.deepEqual(
+        (await storage.getGameSession(session.id))?.state,
+        state,
+      );
+
+      const finished = { ...state, outcome: "won" as const };
+      const updated = await storage.updateGameSession(session.id, {
+        state: finished,
+      });
+      assert.deepEqual(updated?.state, finished);
+      assert.equal(
+        await storage.updateGameSession("missing", { state }),
+        undefined,
+      );
+    });
+
+    it("keeps one open game session per player", async () => {
+      const state = playingState();
+      const insert = (playerId: string | null) =>
+        storage.createGameSession({
+          levelNumber: 1,
+          playerId,
+          displayName: "Ada",
+          state,
+        });
+      const close = (id: string) =>
+        storage.updateGameSession(id, {
+          result: { sessionId: id, result: {} as never, signature: "x" },
+        });
+
+      const first = await insert("player-1");
+      assert.ok(first);
+      // A second open session for the same player is refused
+      assert.equal(await insert("player-1"), undefined);
+      assert.ok(await insert("player-2"));
+      // Sessions without a player are never limited
+      assert.ok(await insert(null));
+      assert.ok(await insert(null));
+      assert.equal(
+        (await storage.getOpenGameSession("player-1"))?.id,
+        first.id,
+      );
+
+      await close(first.id);
+      assert.equal(await storage.getOpenGameSession("player-1"), undefined);
+      const second = await insert("player-1");
+      assert.ok(second);
+      assert.equal(
+        (await storage.getOpenGameSession("player-1"))?.id,
+        second.id,
+      );
+      assert.equal(await storage.getOpenGameSession("player-3"), undefined);
+    });
+
+    it("opens only one of two sessions created at once", async () => {
+      const state = playingState();
+      const created = await Promise.all(
+        [1, 2, 3].map(() =>
+          storage.createGameSession({
+            levelNumber: 1,
+            playerId: "player-1",
+            displayName: "Ada",
+            state,
+          }),
+        ),
+      );
+      assert.equal(created.filter(Boolean).length, 1);
+    });
+
+    it("returns level results oldest first whatever the insert order", async () => {
+      for (const [sessionId, minute] of [
+        ["b", 2],
+        ["c", 3],
+        ["a", 1],
+      ] as const) {
+        await storage.createLevelResultRecord(
+          levelResult({
+            sessionId,
+            completedAt: new Date(Date.UTC(2025, 0, 1, 0, minute)),
+          }),
+        );
+      }
+
+      // No filter at all is every record, not none
+      const records = await storage.getLevelResultRecords({});
+      assert.deepEqual(
+        records.map((record) => record.sessionId),
+        ["a", "b", "c"],
+      );
+      assert.equal(records[0].timeLimit, null);
+    });
+
+    it("filters level results by mode, window and player", async () => {
+      await storage.createLevelResultRecord(
+        levelResult({
+          sessionId: "old-classic",
+          completedAt: new Date("2025-01-01T00:00:00Z"),
+        }),
+      );
+      await storage.createLevelResultRecord(
+        levelResult({
+          sessionId: "new-depth",
+          gameMode: "depth",
+          playerId: "player-2",
+          completedAt: new Date("2025-01-03T00:00:00Z"),
+        }),
+      );
+      await storage.createLevelResultRecord(
+        levelResult({
+          sessionId: "new-classic",
+          completedAt: new Date("2025-01-02T00:00:00Z"),
+        }),
+      );
+
+      const ids = async (filter: LevelResultFilter) =>
+        (await storage.getLevelResultRecords(filter)).map(
+          (record) => record.sessionId,
+        );
+
+      assert.deepEqual(await ids({ gameMode: "classic" }), [
+        "old-classic",
+        "new-classic",
+      ]);
+      // The window start is inclusive
+      assert.deepEqual(await ids({ since: new Date("2025-01-02T00:00:00Z") }), [
+        "new-classic",
+        "new-depth",
+      ]);
+      assert.deepEqual(await ids({ playerId: "player-2" }), ["new-depth"]);
+      assert.deepEqual(
+        await ids({ gameMode: "depth", playerId: "player-1" }),
+        [],
+      );
+    });
+
+    it("limits level results to the most recent, oldest first", async () => {
+      for (let day = 1; day <= 5; day++) {
+        await storage.createLevelResultRecord(
+          levelResult({
+            sessionId: `day-${day}`,
+            completedAt: new Date(Date.UTC(2025, 0, day)),
+          }),
+        );
+      }
+
+      const records = await storage.getLevelResultRecords({ limit: 2 });
+      assert.deepEqual(
+        records.map((record) => record.sessionId),
+        ["day-4", "day-5"],
+      );
+    });
+
+    it("upserts one leaderboard entry per player and board", async () => {
+      const totals = {
+        displayName: "Ada",
+        gamesPlayed: 1,
+        levelsCleared: 1,
+        currentStreak: 1,
+        bestStreak: 1,
+        totalEfficiency: 0.8,
+      };
+      const created = await storage.upsertLeaderboardEntry({
+        ...totals,
+        playerId: "player-1",
+        board: "all",
+      });
+      const updated = await storage.upsertLeaderboardEntry({
+        ...totals,
+        displayName: "Ada L",
+        gamesPlayed: 2,
+        playerId: "player-1",
+        board: "all",
+      });
+      await storage.upsertLeaderboardEntry({
+        ...totals,
+        playerId: "player-1",
+        board: "classic",
+      });
+      await storage.upsertLeaderboardEntry({
+        ...totals,
+        displayName: "Grace",
+        playerId: "player-2",
+        board: "all",
+      });
+
+      // The conflict is on player and board together: same row, new totals
+      assert.equal(updated.id, created.id);
+      assert.equal(updated.gamesPlayed, 2);
+      assert.equal(updated.displayName, "Ada L");
+      assert.deepEqual(
+        await storage.getLeaderboardEntry("player-1", "all"),
+        updated,
+      );
+      assert.equal(
+        (await storage.getLeaderboardEntry("player-1", "classic"))?.gamesPlayed,
+        1,
+      );
+
+      // Entries come back in no particular order; callers rank them
+      const entries = await storage.getLeaderboardEntries("all");
+      assert.deepEqual(entries.map((entry) => entry.playerId).sort(), [
+        "player-1",
+        "player-2",
+      ]);
+      assert.equal(
+        await storage.getLeaderboardEntry("player-3", "all"),
+        undefined,
+      );
+    });
+
+    it("replaces a user's progress snapshot", async () => {
+      const user = await storage.createUser({
+        username: "ada",
+        password: "hash",
+      });
+      const snapshot = (games: number) =>
+        ({ stats: { totalGames: games } }) as unknown as ProgressSnapshot;
+
+      await storage.saveProgressSnapshot(user.id, snapshot(1));
+      const saved = await storage.saveProgressSnapshot(user.id, snapshot(2));
+
+      assert.deepEqual(saved.snapshot, snapshot(2));
+      assert.deepEqual(
+        (await storage.getProgressSnapshot(user.id))?.snapshot,
+        snapshot(2),
+      );
+      assert.equal(await storage.getProgressSnapshot("missing"), undefined);
+    });
+  });
+}
@@ -1,20 +1,87 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type GameSession,
+  type InsertGameSession,
+  type LevelResultRecord,
+  type InsertLevelResultRecord,
+  type LeaderboardEntryRecord,
+  type InsertLeaderboardEntry,
+  type AuthSession,
+  type InsertAuthSession,
+  type ProgressSnapshotRecord,
+} from "@shared/schema";
+import type { ProgressSnapshot } from "../client/lib/types";
 import { randomUUID } from "crypto";
+import { DbStorage } from "./db-storage";
 
 // modify the interface with any CRUD methods
 // you might need
 
+export interface LevelResultFilter {
+  gameMode?: string;
+  since?: Date;
+  playerId?: string;
+  // Only the most recent this many, still returned oldest first
+  limit?: number;
+}
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getAuthSession(id: string): Promise<AuthSession | undefined>;
+  createAuthSession(session: InsertAuthSession): Promise<AuthSession>;
+  deleteAuthSession(id: string): Promise<void>;
+  getGameSession(id: string): Promise<GameSession | undefined>;
+  // The player's session that has no result yet
+  getOpenGameSession(playerId: string): Promise<GameSession | undefined>;
+  // Undefined when the player already has an open session
+  createGameSession(
+    session: InsertGameSession,
+  ): Promise<GameSession | undefined>;
+  updateGameSession(
+    id: string,
+    updates: Partial<Pick<GameSession, "state" | "result">>,
+  ): Promise<GameSession | undefined>;
+  createLevelResultRecord(
+    record: InsertLevelResultRecord,
+  ): Promise<LevelResultRecord>;
+  getLevelResultRecords(
+    filter: LevelResultFilter,
+  ): Promise<LevelResultRecord[]>;
+  getLeaderboardEntry(
+    playerId: string,
+    board: string,
+  ): Promise<LeaderboardEntryRecord | undefined>;
+  getLeaderboardEntries(board: string): Promise<LeaderboardEntryRecord[]>;
+  upsertLeaderboardEntry(
+    entry: InsertLeaderboardEntry,
+  ): Promise<LeaderboardEntryRecord>;
+  getProgressSnapshot(
+    userId: string,
+  ): Promise<ProgressSnapshotRecord | undefined>;
+  saveProgressSnapshot(
+    userId: string,
+    snapshot: ProgressSnapshot,
+  ): Promise<ProgressSnapshotRecord>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private authSessions: Map<string, AuthSession>;
+  private gameSessions: Map<string, GameSession>;
+  private levelResults: Map<string, LevelResultRecord>;
+  private leaderboardEntries: Map<string, LeaderboardEntryRecord>;
+  private progressSnapshots: Map<string, ProgressSnapshotRecord>;
 
   constructor() {
     this.users = new Map();
+    this.authSessions = new Map();
+    this.gameSessions = new Map();
+    this.levelResults = new Map();
+    this.leaderboardEntries = new Map();
+    this.progressSnapshots = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +100,163 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getAuthSession(id: string): Promise<AuthSession | undefined> {
+    return this.authSessions.get(id);
+  }
+
+  async createAuthSession(
+    insertSession: InsertAuthSession,
+  ): Promise<AuthSession> {
+    const session: AuthSession = { ...insertSession, createdAt: new Date() };
+    this.authSessions.set(session.id, session);
+    return session;
+  }
+
+  async deleteAuthSession(id: string): Promise<void> {
+    this.authSessions.delete(id);
+  }
+
+  async getGameSession(id: string): Promise<GameSession | undefined> {
+    return this.gameSessions.get(id);
+  }
+
+  private findOpenGameSession(playerId: string): GameSession | undefined {
+    return Array.from(this.gameSessions.values()).find(
+      (session) => session.playerId === playerId && session.result === null,
+    );
+  }
+
+  async getOpenGameSession(playerId: string): Promise<GameSession | undefined> {
+    return this.findOpenGameSession(playerId);
+  }
+
+  async createGameSession(
+    insertSession: InsertGameSession,
+  ): Promise<GameSession | undefined> {
+    // Checked and inserted without an await in between, as the unique index
+    // does in Postgres
+    const { playerId } = insertSession;
+    if (playerId && this.findOpenGameSession(playerId)) return undefined;
+    const id = randomUUID();
+    const now = new Date();
+    const session: GameSession = {
+      ...insertSession,
+      playerId: insertSession.playerId ?? null,
+      displayName: insertSession.displayName ?? null,
+      id,
+      result: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.gameSessions.set(id, session);
+    return session;
+  }
+
+  async updateGameSession(
+    id: string,
+    updates: Partial<Pick<GameSession, "state" | "result">>,
+  ): Promise<GameSession | undefined> {
+    const existing = this.gameSessions.get(id);
+    if (!existing) return undefined;
+    const session: GameSession = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.gameSessions.set(id, session);
+    return session;
+  }
+
+  async createLevelResultRecord(
+    record: InsertLevelResultRecord,
+  ): Promise<LevelResultRecord> {
+    const id = randomUUID();
+    const stored: LevelResultRecord = {
+      ...record,
+      timeLimit: record.timeLimit ?? null,
+      timeUsed: record.timeUsed ?? null,
+      id,
+    };
+    this.levelResults.set(id, stored);
+    return stored;
+  }
+
+  async getLevelResultRecords(
+    filter: LevelResultFilter,
+  ): Promise<LevelResultRecord[]> {
+    const records = Array.from(this.levelResults.values())
+      .filter(
+        (record) =>
+          (!filter.gameMode || record.gameMode === filter.gameMode) &&
+          (!filter.since || record.completedAt >= filter.since) &&
+          (!filter.playerId || record.playerId === filter.playerId),
+      )
+      .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+    return filter.limit === undefined
+      ? records
+      : records.slice(Math.max(0, records.length - filter.limit));
+  }
+
+  async getLeaderboardEntry(
+    playerId: string,
+    board: string,
+  ): Promise<LeaderboardEntryRecord | undefined> {
+    return this.leaderboardEntries.get(`${playerId}:${board}`);
+  }
+
+  async getLeaderboardEntries(
+    board: string,
+  ): Promise<LeaderboardEntryRecord[]> {
+    return Array.from(this.leaderboardEntries.values()).filter(
+      (entry) => entry.board === board,
+    );
+  }
+
+  async upsertLeaderboardEntry(
+    entry: InsertLeaderboardEntry,
+  ): Promise<LeaderboardEntryRecord> {
+    const key = `${entry.playerId}:${entry.board}`;
+    const existing = this.leaderboardEntries.get(key);
+    const stored: LeaderboardEntryRecord = {
+      id: existing?.id ?? randomUUID(),
+      gamesPlayed: 0,
+      levelsCleared: 0,
+      currentStreak: 0,
+      bestStreak: 0,
+      totalEfficiency: 0,
+      ...entry,
+      updatedAt: new Date(),
+    };
+    this.leaderboardEntries.set(key, stored);
+    return stored;
+  }
+
+  async getProgressSnapshot(
+    userId: string,
+  ): Promise<ProgressSnapshotRecord | undefined> {
+    return this.progressSnapshots.get(userId);
+  }
+
+  async saveProgressSnapshot(
+    userId: string,
+    snapshot: ProgressSnapshot,
+  ): Promise<ProgressSnapshotRecord> {
+    const stored: ProgressSnapshotRecord = {
+      userId,
+      snapshot,
+      updatedAt: new Date(),
+    };
+    this.progressSnapshots.set(userId, stored);
+    return stored;
+  }
+}
+
+// Persist to Postgres whenever a database is provisioned; otherwise keep
+// everything in memory for local development.
+function createStorage(): IStorage {
+  const databaseUrl = process.env.DATABASE_URL;
+  return databaseUrl ? new DbStorage(databaseUrl) : new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -1,7 +1,31 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import {
+  boolean,
+  integer,
+  jsonb,
+  pgTable,
+  real,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { CUSTOM_LEVEL_LIMITS } from "../client/lib/level-generator";
+import {
+  gameModeSchema,
+  hintStyleSchema,
+  levelResultSchema,
+  playerProfileSchema,
+  playerStatsSchema,
+  skillMetricsSchema,
+} from "../client/lib/save-schema";
+import type {
+  GameState,
+  ProgressSnapshot,
+  SignedLevelResult,
+} from "../client/lib/types";
 
 export const users = pgTable("users", {
   id: varchar("id")
@@ -18,3 +42,209 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+export const credentialsSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3)
+    .max(20)
+    .regex(/^[A-Za-z0-9_]+$/, "Use letters, numbers and underscores only"),
+  password: z.string().min(8).max(128),
+});
+
+// Only a hash of the cookie token is stored, so a leaked table cannot be
+// replayed as live sessions.
+export const authSessions = pgTable("auth_sessions", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type InsertAuthSession = Omit<
+  typeof authSessions.$inferInsert,
+  "createdAt"
+>;
+export type AuthSession = typeof authSessions.$inferSelect;
+
+// A player has at most one session without a result, so concurrent requests
+// cannot open a second copy of a ranked level to reroll it.
+export const gameSessions = pgTable(
+  "game_sessions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    levelNumber: integer("level_number").notNull(),
+    playerId: varchar("player_id"),
+    displayName: text("display_name"),
+    state: jsonb("state").$type<GameState>().notNull(),
+    result: jsonb("result").$type<SignedLevelResult>(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("game_sessions_open_player_idx")
+      .on(table.playerId)
+      .where(sql`${table.result} is null`),
+  ],
+);
+
+export type InsertGameSession = Pick<
+  typeof gameSessions.$inferInsert,
+  "levelNumber" | "state" | "playerId" | "displayName"
+>;
+export type GameSession = typeof gameSessions.$inferSelect;
+
+export const levelResults = pgTable("level_results", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().unique(),
+  playerId: varchar("player_id").notNull(),
+  displayName: text("display_name").notNull(),
+  gameMode: text("game_mode").notNull(),
+  won: boolean("won").notNull(),
+  attemptsUsed: integer("attempts_used").notNull(),
+  maxAttempts: integer("max_attempts").notNull(),
+  rangeSize: integer("range_size").notNull(),
+  // Null for untimed levels, and for rows recorded before it was stored
+  timeLimit: integer("time_limit"),
+  timeUsed: integer("time_used"),
+  efficiency: real("efficiency").notNull(),
+  completedAt: timestamp("completed_at").notNull(),
+});
+
+export type InsertLevelResultRecord = Omit<
+  typeof levelResults.$inferInsert,
+  "id"
+>;
+export type LevelResultRecord = typeof levelResults.$inferSelect;
+
+// One aggregate row per player and board ("all" or a game mode), kept up to
+// date as results arrive so the all-time board never rescans history.
+export const leaderboardEntries = pgTable(
+  "leaderboard_entries",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    playerId: varchar("player_id").notNull(),
+    board: text("board").notNull(),
+    displayName: text("display_name").notNull(),
+    gamesPlayed: integer("games_played").notNull().default(0),
+    levelsCleared: integer("levels_cleared").notNull().default(0),
+    currentStreak: integer("current_streak").notNull().default(0),
+    bestStreak: integer("best_streak").notNull().default(0),
+    totalEfficiency: real("total_efficiency").notNull().default(0),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("leaderboard_entries_player_board_idx").on(
+      table.playerId,
+      table.board,
+    ),
+  ],
+);
+
+export type InsertLeaderboardEntry = Omit<
+  typeof leaderboardEntries.$inferInsert,
+  "id"
+>;
+export type LeaderboardEntryRecord = typeof leaderboardEntries.$inferSelect;
+
+// Latest merged progress for each account; see client/lib/progress-sync.ts.
+export const progressSnapshots = pgTable("progress_snapshots", {
+  userId: varchar("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  snapshot: jsonb("snapshot").$type<ProgressSnapshot>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type ProgressSnapshotRecord = typeof progressSnapshots.$inferSelect;
+
+export const submitGuessSchema = z.object({
+  guess: z.number().int(),
+});
+
+export const leaderboardQuerySchema = z.object({
+  board: z.enum(["all", "classic", "depth", "strategic", "tactical", "deus"]),
+  window: z.enum(["all", "weekly", "daily"]).default("all"),
+  metric: z
+    .enum(["levels_cleared", "best_streak", "efficiency"])
+    .default("levels_cleared"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const progressSnapshotSchema = z.object({
+  stats: playerStatsSchema,
+  metrics: skillMetricsSchema,
+  history: z.array(levelResultSchema).max(5000),
+  profile: playerProfileSchema.omit({ accountId: true }),
+  levelNumber: z.number().int().min(1),
+});
+
+export const customLevelSettingsSchema = z
+  .object({
+    gameMode: gameModeSchema,
+    rangeMin: z
+      .number()
+      .int()
+      .min(0)
+      .max(CUSTOM_LEVEL_LIMITS.maxNumber - 1),
+    rangeMax: z.number().int().min(1).max(CUSTOM_LEVEL_LIMITS.maxNumber),
+    maxAttempts: z.number().int().min(2).max(CUSTOM_LEVEL_LIMITS.maxAttempts),
+    timeLimit: z
+      .number()
+      .int()
+      .min(10)
+      .max(CUSTOM_LEVEL_LIMITS.maxTimeLimit)
+      .nullable(),
+    hintStyle: hintStyleSchema.optional(),
+  })
+  .refine((settings) => settings.rangeMax > settings.rangeMin, {
+    message: "Range maximum must be above the minimum",
+    path: ["rangeMax"],
+  });
+
+export const createRoomSchema = z.object({
+  displayName: playerProfileSchema.shape.displayName,
+  settings: customLevelSettingsSchema,
+});
+
+export const joinRoomSchema = z.object({
+  displayName: playerProfileSchema.shape.displayName,
+});
+
+export const roomTokenSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const roomGuessSchema = roomTokenSchema.extend({
+  guess: z.number().int(),
+});
+
+export const matchClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("join"),
+    displayName: playerProfileSchema.shape.displayName,
+    skillLevel: z.number().min(0).max(100),
+    levelNumber: z.number().int().min(1),
+  }),
+  z.object({ type: z.literal("leave") }),
+  z.object({
+    type: z.literal("guess"),
+    matchId: z.string(),
+    guess: z.number().int(),
+  }),
+  z.object({
+    type: z.literal("resume"),
+    matchId: z.string(),
+    token: z.string(),
+  }),
+  z.object({ type: z.literal("forfeit"), matchId: z.string() }),
+]);